@@ -0,0 +1,89 @@
+/**
+ * Legacy STL parser - The object-per-vertex parser that preceded the typed array mesh,
+ * kept only as the baseline of the parsing benchmark
+ */
+
+interface Vector3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+interface LegacyMesh {
+  vertices: Vector3[];
+  faces: { vertices: [number, number, number]; normal: Vector3 }[];
+}
+
+const NUMBER = '([-+]?[0-9]*\\.?[0-9]+(?:[eE][-+]?[0-9]+)?)';
+const TRIPLE = `\\s+${NUMBER}\\s+${NUMBER}\\s+${NUMBER}`;
+
+/**
+ * Weld vertices through string keys, as the legacy parsers did
+ */
+function createVertexIndex(vertices: Vector3[]): (x: number, y: number, z: number) => number {
+  const vertexMap = new Map<string, number>();
+  return (x, y, z) => {
+    const key = `${x},${y},${z}`;
+    let index = vertexMap.get(key);
+    if (index === undefined) {
+      index = vertices.length;
+      vertices.push({ x, y, z });
+      vertexMap.set(key, index);
+    }
+    return index;
+  };
+}
+
+/**
+ * Decode the whole file and match vertices and normals in two regex passes
+ */
+export function parseAsciiLegacy(buffer: Buffer): LegacyMesh {
+  const content = buffer.toString('utf8');
+  const vertexMatches = Array.from(content.matchAll(new RegExp(`vertex${TRIPLE}`, 'g')));
+  const normalMatches = Array.from(content.matchAll(new RegExp(`facet\\s+normal${TRIPLE}`, 'g')));
+
+  const vertices: Vector3[] = [];
+  const faces: LegacyMesh['faces'] = [];
+  const indexOf = createVertexIndex(vertices);
+
+  for (let i = 0; i + 2 < vertexMatches.length; i += 3) {
+    const [a, b, c] = [0, 1, 2].map((j) => {
+      const match = vertexMatches[i + j];
+      return indexOf(parseFloat(match[1]), parseFloat(match[2]), parseFloat(match[3]));
+    });
+    const normal = normalMatches[i / 3];
+    faces.push({
+      vertices: [a, b, c],
+      normal: normal
+        ? { x: parseFloat(normal[1]), y: parseFloat(normal[2]), z: parseFloat(normal[3]) }
+        : { x: 0, y: 0, z: 0 },
+    });
+  }
+
+  return { vertices, faces };
+}
+
+/**
+ * Read the binary format with one object per vertex and face
+ */
+export function parseBinaryLegacy(buffer: Buffer): LegacyMesh {
+  const numTriangles = buffer.readUInt32LE(80);
+  const vertices: Vector3[] = [];
+  const faces: LegacyMesh['faces'] = [];
+  const indexOf = createVertexIndex(vertices);
+
+  for (let i = 0, offset = 84; i < numTriangles; i++, offset += 50) {
+    const normal = { x: buffer.readFloatLE(offset), y: buffer.readFloatLE(offset + 4), z: buffer.readFloatLE(offset + 8) };
+    const [a, b, c] = [0, 1, 2].map((j) => {
+      const vertexOffset = offset + 12 + j * 12;
+      return indexOf(
+        buffer.readFloatLE(vertexOffset),
+        buffer.readFloatLE(vertexOffset + 4),
+        buffer.readFloatLE(vertexOffset + 8),
+      );
+    });
+    faces.push({ vertices: [a, b, c], normal });
+  }
+
+  return { vertices, faces };
+}
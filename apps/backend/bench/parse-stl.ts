@@ -0,0 +1,140 @@
+/**
+ * Parsing benchmark - Compares the STL parser with the legacy object-based parser
+ *
+ * Generates tessellated spheres as binary and ASCII STL files, parses each a few
+ * times with both parsers and reports the median time and the heap retained by
+ * the parsed mesh.
+ *
+ * Usage: npm run bench -- [binaryTriangles] [asciiTriangles]
+ * (defaults: 1000000 and 250000)
+ */
+
+import { parseSTL } from '../src/modules/stl/stl-parser';
+import { parseAsciiLegacy, parseBinaryLegacy } from './legacy-stl-parser';
+
+const RUNS = 3;
+
+type Triangle = [number, number, number][];
+
+/**
+ * Visit the triangles of a UV sphere with about the requested triangle count
+ */
+function forEachSphereTriangle(triangles: number, visit: (triangle: Triangle) => void): number {
+  const rings = Math.max(2, Math.round(Math.sqrt(triangles / 4)));
+  const point = (ring: number, segment: number): [number, number, number] => {
+    const theta = (Math.PI * ring) / rings;
+    const phi = (Math.PI * segment) / rings;
+    return [50 * Math.sin(theta) * Math.cos(phi), 50 * Math.cos(theta), 50 * Math.sin(theta) * Math.sin(phi)];
+  };
+
+  let count = 0;
+  for (let ring = 0; ring < rings; ring++) {
+    for (let segment = 0; segment < 2 * rings; segment++) {
+      const a = point(ring, segment);
+      const b = point(ring + 1, segment);
+      const c = point(ring + 1, segment + 1);
+      const d = point(ring, segment + 1);
+      if (ring > 0) {
+        visit([a, d, b]);
+        count++;
+      }
+      if (ring < rings - 1) {
+        visit([b, d, c]);
+        count++;
+      }
+    }
+  }
+  return count;
+}
+
+function faceNormal([a, b, c]: Triangle): [number, number, number] {
+  const u = [b[0] - a[0], b[1] - a[1], b[2] - a[2]];
+  const v = [c[0] - a[0], c[1] - a[1], c[2] - a[2]];
+  const n: [number, number, number] = [u[1] * v[2] - u[2] * v[1], u[2] * v[0] - u[0] * v[2], u[0] * v[1] - u[1] * v[0]];
+  const length = Math.hypot(...n) || 1;
+  return [n[0] / length, n[1] / length, n[2] / length];
+}
+
+function createBinarySTL(triangles: number): Buffer {
+  const count = forEachSphereTriangle(triangles, () => {});
+  const buffer = Buffer.alloc(84 + count * 50);
+  buffer.writeUInt32LE(count, 80);
+
+  let offset = 84;
+  forEachSphereTriangle(triangles, (triangle) => {
+    for (const value of [...faceNormal(triangle), ...triangle.flat()]) {
+      buffer.writeFloatLE(value, offset);
+      offset += 4;
+    }
+    offset += 2;
+  });
+  return buffer;
+}
+
+/**
+ * ASCII file with numbers in the %e notation most exporters write
+ */
+function createAsciiSTL(triangles: number): Buffer {
+  const format = (values: number[]) => values.map((value) => value.toExponential(6)).join(' ');
+  const lines = ['solid sphere'];
+  forEachSphereTriangle(triangles, (triangle) => {
+    lines.push(`  facet normal ${format(faceNormal(triangle))}`, '    outer loop');
+    for (const vertex of triangle) lines.push(`      vertex ${format(vertex)}`);
+    lines.push('    endloop', '  endfacet');
+  });
+  lines.push('endsolid sphere', '');
+  return Buffer.from(lines.join('\n'));
+}
+
+function collectGarbage(): void {
+  (globalThis as { gc?: () => void }).gc?.();
+}
+
+/**
+ * Median duration of a few runs and the heap still referenced by the last result
+ */
+function measure(parse: () => unknown): { time: number; heap: number } {
+  const times: number[] = [];
+  // Holds the parsed mesh while the heap is measured
+  const retained: unknown[] = [];
+  let heap = 0;
+
+  for (let run = 0; run < RUNS; run++) {
+    collectGarbage();
+    const before = process.memoryUsage();
+    const start = performance.now();
+    retained.push(parse());
+    times.push(performance.now() - start);
+    collectGarbage();
+    const after = process.memoryUsage();
+    heap = after.heapUsed + after.arrayBuffers - before.heapUsed - before.arrayBuffers;
+    retained.length = 0;
+  }
+
+  times.sort((a, b) => a - b);
+  return { time: times[Math.floor(times.length / 2)], heap };
+}
+
+function formatMegabytes(bytes: number): string {
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function compare(label: string, file: Buffer, legacy: (buffer: Buffer) => unknown): void {
+  const before = measure(() => legacy(file));
+  const after = measure(() => parseSTL(file));
+
+  console.log(`\n${label} (${formatMegabytes(file.length)})`);
+  console.log(`  legacy  ${before.time.toFixed(0).padStart(7)} ms  ${formatMegabytes(before.heap).padStart(10)}`);
+  console.log(`  current ${after.time.toFixed(0).padStart(7)} ms  ${formatMegabytes(after.heap).padStart(10)}`);
+  console.log(`  speedup ${(before.time / after.time).toFixed(1)}x, memory ${(before.heap / after.heap).toFixed(1)}x smaller`);
+}
+
+const binaryTriangles = Number(process.argv[2] ?? 1_000_000);
+const asciiTriangles = Number(process.argv[3] ?? 250_000);
+
+if (!(globalThis as { gc?: unknown }).gc) {
+  console.log('Run with --expose-gc for accurate memory figures');
+}
+
+compare(`Binary STL, ${binaryTriangles} triangles`, createBinarySTL(binaryTriangles), parseBinaryLegacy);
+compare(`ASCII STL, ${asciiTriangles} triangles`, createAsciiSTL(asciiTriangles), parseAsciiLegacy);
@@ -1,16 +1,21 @@
 import express from 'express';
 import { createExpressMiddleware } from '@trpc/server/adapters/express';
 import cors from 'cors';
+import { UPLOAD_ENDPOINT } from '@stl2d/contracts';
 import { appRouter } from './routers';
+import { uploadRouter } from '@/modules/stl';
 import type { Request, Response } from 'express';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
 
-// Middleware
+// Middleware; JSON bodies stay small, since model files only arrive through the upload endpoint
 app.use(cors());
-app.use(express.json({ limit: '50mb' }));
-app.use(express.urlencoded({ limit: '50mb', extended: true }));
+app.use(express.json({ limit: '100kb' }));
+app.use(express.urlencoded({ limit: '100kb', extended: true }));
+
+// Binary model uploads (raw request body, streamed)
+app.use(UPLOAD_ENDPOINT, uploadRouter);
 
 // tRPC middleware
 app.use(
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { box, type Triangle } from '@/test/meshes';
+import { toZip } from '@/test/zip';
+import { parse3MF } from './3mf-parser';
+import { faceCount, getFaceNormal, type Mesh } from './mesh';
+
+const RELATIONSHIPS = `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Target="/3D/3dmodel.model" Id="rel0"
+    Type="http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel"/>
+</Relationships>`;
+
+/** Mesh object XML of the triangles, with one vertex per corner */
+function meshObject(id: number, triangles: Triangle[]): string {
+  const vertices = triangles.flat().map(([x, y, z]) => `<vertex x="${x}" y="${y}" z="${z}"/>`);
+  const faces = triangles.map((_, t) => `<triangle v1="${t * 3}" v2="${t * 3 + 1}" v3="${t * 3 + 2}"/>`);
+  return `<object id="${id}" type="model"><mesh><vertices>${vertices.join('')}</vertices><triangles>${faces.join('')}</triangles></mesh></object>`;
+}
+
+function package3MF(resources: string, build: string, unit = 'millimeter'): Buffer {
+  const model = `<?xml version="1.0" encoding="UTF-8"?>
+<model unit="${unit}" xmlns="http://schemas.microsoft.com/3dmanufacturing/core/2015/02">
+  <resources>${resources}</resources>
+  <build>${build}</build>
+</model>`;
+  return toZip({ '_rels/.rels': RELATIONSHIPS, '3D/3dmodel.model': model });
+}
+
+/** Whether every face normal points away from the center of the mesh */
+function pointsOutward(mesh: Mesh): boolean {
+  const { min, max } = mesh.bounds;
+  const center = [(min.x + max.x) / 2, (min.y + max.y) / 2, (min.z + max.z) / 2];
+  return Array.from({ length: faceCount(mesh) }, (_, face) => {
+    const normal = getFaceNormal(mesh, face);
+    const corner = mesh.indices[face * 3] * 3;
+    const offset = [0, 1, 2].map((axis) => mesh.positions[corner + axis] - center[axis]);
+    return normal.x * offset[0] + normal.y * offset[1] + normal.z * offset[2] > 0;
+  }).every(Boolean);
+}
+
+const cube = meshObject(1, box([0, 0, 0], [1, 1, 1]));
+
+describe('parse3MF', () => {
+  it('places build items and converts the declared unit', () => {
+    const { mesh, warnings } = parse3MF(package3MF(cube, '<item objectid="1"/>', 'centimeter'), 'mm');
+
+    expect(faceCount(mesh)).toBe(12);
+    expect(mesh.bounds.max).toEqual({ x: 10, y: 10, z: 10 });
+    expect(warnings).toEqual([]);
+  });
+
+  it('composes component transforms with the build item transform', () => {
+    const assembly = `${cube}<object id="2" type="model"><components>
+      <component objectid="1" transform="1 0 0 0 1 0 0 0 1 10 0 0"/>
+      <component objectid="1" transform="1 0 0 0 1 0 0 0 1 0 5 0"/>
+    </components></object>`;
+    const { mesh } = parse3MF(package3MF(assembly, '<item objectid="2" transform="2 0 0 0 2 0 0 0 2 0 0 3"/>'), 'mm');
+
+    // Each copy is moved by its component, then scaled and lifted by the item
+    expect(faceCount(mesh)).toBe(24);
+    expect(mesh.bounds).toEqual({ min: { x: 0, y: 0, z: 3 }, max: { x: 22, y: 12, z: 5 } });
+  });
+
+  it('keeps the winding outward under mirroring transforms', () => {
+    const { mesh } = parse3MF(package3MF(cube, '<item objectid="1" transform="-1 0 0 0 1 0 0 0 1 0 0 0"/>'), 'mm');
+
+    expect(mesh.bounds.min.x).toBe(-1);
+    expect(pointsOutward(mesh)).toBe(true);
+  });
+
+  it('skips support objects', () => {
+    const support = meshObject(2, box([5, 5, 5], [6, 6, 6])).replace('type="model"', 'type="support"');
+    const { mesh } = parse3MF(package3MF(cube + support, '<item objectid="1"/><item objectid="2"/>'), 'mm');
+
+    expect(faceCount(mesh)).toBe(12);
+  });
+
+  it('fails without the model part', () => {
+    const file = toZip({ '_rels/.rels': RELATIONSHIPS, 'Metadata/thumbnail.png': 'png' });
+
+    expect(() => parse3MF(file, 'mm')).toThrow('3MF parsing failed: Model part /3D/3dmodel.model not found');
+  });
+
+  it('fails on components that contain themselves', () => {
+    const loop = `<object id="1" type="model"><components><component objectid="1"/></components></object>`;
+
+    expect(() => parse3MF(package3MF(loop, '<item objectid="1"/>'), 'mm')).toThrow('Object 1 contains itself');
+  });
+});
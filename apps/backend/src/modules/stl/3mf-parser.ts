@@ -0,0 +1,243 @@
+/**
+ * 3MF Parser - Reads the model part of 3MF packages
+ *
+ * The package is a zip archive whose root relationships point at the 3D model XML.
+ * Every build item is placed with its transform, recursing through component
+ * objects, and all items are merged into one mesh. Coordinates are converted from
+ * the unit the file declares to the unit selected for the upload.
+ */
+
+import { MILLIMETERS_PER_UNIT, type LengthUnit, type ParseWarning } from '@stl2d/contracts';
+import { createMeshBuilder, faceCount } from './mesh';
+import { cleanParsedMesh, type ParsedModel } from './parse-warnings';
+import { triangleNormal } from './triangulation';
+import { openZip, type ZipArchive } from './zip-reader';
+
+/** Relationship type of the 3D model part */
+const MODEL_RELATIONSHIP_TYPE = 'http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel';
+
+/** Location of the model part when the relationships do not name one */
+const DEFAULT_MODEL_PART = '3D/3dmodel.model';
+
+/** Millimeters per unit of the units a 3MF model may declare */
+const MILLIMETERS_PER_3MF_UNIT: Record<string, number> = {
+  micron: 0.001,
+  millimeter: 1,
+  centimeter: 10,
+  inch: 25.4,
+  foot: 304.8,
+  meter: 1000,
+};
+
+/** Object types that are not part of the printed geometry */
+const SKIPPED_OBJECT_TYPES = new Set(['support', 'other']);
+
+/** Elements of the model XML that carry geometry, with an optional namespace prefix */
+const TAG_PATTERN = /<(\/?)(?:[\w.-]+:)?(model|object|vertex|triangle|component|item)\b([^>]*)>/g;
+const ATTRIBUTE_PATTERN = /([\w.:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+/**
+ * Affine transform as the 12 values of a 3MF matrix: the 3x3 linear part row by
+ * row, then the translation. Points are row vectors, so p' = p * M.
+ */
+type Transform = number[];
+
+const IDENTITY: Transform = [1, 0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0];
+
+interface ModelObject {
+  type: string;
+  /** Flat x, y, z vertex coordinates */
+  vertices: number[];
+  /** Vertex indices, three per triangle */
+  triangles: number[];
+  components: { objectId: string; transform: Transform }[];
+}
+
+function readAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(ATTRIBUTE_PATTERN)) {
+    attributes[match[1]] = match[2] ?? match[3];
+  }
+  return attributes;
+}
+
+function parseTransform(value: string | undefined): Transform {
+  if (value === undefined) return IDENTITY;
+  const values = value.trim().split(/\s+/).map(Number);
+  if (values.length !== 12 || values.some((v) => !Number.isFinite(v))) {
+    throw new Error(`Invalid transform "${value}"`);
+  }
+  return values;
+}
+
+/**
+ * Transform applying first, then second
+ */
+function compose(first: Transform, second: Transform): Transform {
+  const result: Transform = [];
+  for (let row = 0; row < 4; row++) {
+    for (let col = 0; col < 3; col++) {
+      result.push(
+        first[row * 3] * second[col] +
+          first[row * 3 + 1] * second[3 + col] +
+          first[row * 3 + 2] * second[6 + col] +
+          (row === 3 ? second[9 + col] : 0),
+      );
+    }
+  }
+  return result;
+}
+
+function determinant(m: Transform): number {
+  return m[0] * (m[4] * m[8] - m[5] * m[7]) - m[1] * (m[3] * m[8] - m[5] * m[6]) + m[2] * (m[3] * m[7] - m[4] * m[6]);
+}
+
+/**
+ * Path of the model part, following the package's root relationships
+ */
+function findModelPart(archive: ZipArchive): string {
+  const relationships = archive.read('_rels/.rels')?.toString('utf8') ?? '';
+  for (const match of relationships.matchAll(/<(?:[\w.-]+:)?Relationship\b([^>]*)>/g)) {
+    const { Type, Target } = readAttributes(match[1]);
+    if (Type === MODEL_RELATIONSHIP_TYPE && Target) return Target;
+  }
+  return DEFAULT_MODEL_PART;
+}
+
+/**
+ * Collect the objects, build items and unit of the model XML
+ */
+function readModel(xml: string) {
+  const objects = new Map<string, ModelObject>();
+  const items: { objectId: string; transform: Transform }[] = [];
+  let unit = 'millimeter';
+  let current: ModelObject | null = null;
+
+  for (const [, closing, tag, source] of xml.matchAll(TAG_PATTERN)) {
+    if (closing) {
+      if (tag === 'object') current = null;
+      continue;
+    }
+
+    const attributes = readAttributes(source);
+    switch (tag) {
+      case 'model':
+        unit = attributes.unit ?? unit;
+        break;
+      case 'object':
+        current = { type: attributes.type ?? 'model', vertices: [], triangles: [], components: [] };
+        objects.set(attributes.id, current);
+        break;
+      case 'vertex':
+        current?.vertices.push(Number(attributes.x), Number(attributes.y), Number(attributes.z));
+        break;
+      case 'triangle':
+        current?.triangles.push(Number(attributes.v1), Number(attributes.v2), Number(attributes.v3));
+        break;
+      case 'component':
+        if (Object.keys(attributes).some((name) => name.endsWith(':path'))) {
+          throw new Error('Components in other model parts are not supported');
+        }
+        current?.components.push({ objectId: attributes.objectid, transform: parseTransform(attributes.transform) });
+        break;
+      case 'item':
+        items.push({ objectId: attributes.objectid, transform: parseTransform(attributes.transform) });
+        break;
+    }
+  }
+
+  return { objects, items, unit };
+}
+
+/**
+ * Parse a 3MF package into one mesh of all build items
+ *
+ * @param unit - Unit to convert the coordinates to
+ */
+export function parse3MF(buffer: Buffer, unit: LengthUnit): ParsedModel {
+  try {
+    const archive = openZip(buffer);
+    const part = findModelPart(archive);
+    const xml = archive.read(part);
+    if (!xml) {
+      throw new Error(`Model part ${part} not found`);
+    }
+
+    const model = readModel(xml.toString('utf8'));
+    const millimeters = MILLIMETERS_PER_3MF_UNIT[model.unit];
+    if (millimeters === undefined) {
+      throw new Error(`Unknown unit "${model.unit}"`);
+    }
+    if (model.items.length === 0) {
+      throw new Error('No build items');
+    }
+
+    const scale = millimeters / MILLIMETERS_PER_UNIT[unit];
+    const toUnit: Transform = [scale, 0, 0, 0, scale, 0, 0, 0, scale, 0, 0, 0];
+    const builder = createMeshBuilder(
+      Array.from(model.objects.values()).reduce((sum, object) => sum + object.triangles.length / 3, 0),
+    );
+
+    const place = (objectId: string, transform: Transform, parents: string[]) => {
+      const object = model.objects.get(objectId);
+      if (!object) {
+        throw new Error(`Reference to missing object ${objectId}`);
+      }
+      if (parents.includes(objectId)) {
+        throw new Error(`Object ${objectId} contains itself`);
+      }
+      if (SKIPPED_OBJECT_TYPES.has(object.type)) return;
+
+      const { vertices, triangles } = object;
+      const vertexTotal = vertices.length / 3;
+      const placed = new Float64Array(vertices.length);
+      for (let i = 0; i < vertices.length; i += 3) {
+        const x = vertices[i];
+        const y = vertices[i + 1];
+        const z = vertices[i + 2];
+        placed[i] = x * transform[0] + y * transform[3] + z * transform[6] + transform[9];
+        placed[i + 1] = x * transform[1] + y * transform[4] + z * transform[7] + transform[10];
+        placed[i + 2] = x * transform[2] + y * transform[5] + z * transform[8] + transform[11];
+      }
+
+      // Mesh vertex of each object vertex, added once it is referenced
+      const meshVertices = new Int32Array(vertexTotal).fill(-1);
+      const toMeshVertex = (vertex: number) => {
+        if (meshVertices[vertex] === -1) {
+          meshVertices[vertex] = builder.addVertex(placed[vertex * 3], placed[vertex * 3 + 1], placed[vertex * 3 + 2]);
+        }
+        return meshVertices[vertex];
+      };
+
+      // Mirroring transforms turn the outward winding inside out
+      const mirrored = determinant(transform) < 0;
+      for (let t = 0; t < triangles.length; t += 3) {
+        const a = triangles[t];
+        const b = triangles[mirrored ? t + 2 : t + 1];
+        const c = triangles[mirrored ? t + 1 : t + 2];
+        if (![a, b, c].every((v) => Number.isInteger(v) && v >= 0 && v < vertexTotal)) {
+          throw new Error(`Triangle ${t / 3} of object ${objectId} references a missing vertex`);
+        }
+        builder.addFace(toMeshVertex(a), toMeshVertex(b), toMeshVertex(c), triangleNormal(placed, a, b, c));
+      }
+
+      for (const component of object.components) {
+        place(component.objectId, compose(component.transform, transform), [...parents, objectId]);
+      }
+    };
+
+    for (const item of model.items) {
+      place(item.objectId, compose(item.transform, toUnit), []);
+    }
+
+    const warnings: ParseWarning[] = [];
+    const mesh = cleanParsedMesh(builder.build(), warnings);
+    if (faceCount(mesh) === 0) {
+      throw new Error('No valid faces in 3MF');
+    }
+
+    return { mesh, warnings };
+  } catch (error) {
+    throw new Error(`3MF parsing failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
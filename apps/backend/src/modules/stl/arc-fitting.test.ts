@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { fitArcs, fitCircle } from './arc-fitting';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+function ring(cx: number, cy: number, radius: number, count: number, from = 0, to = 2 * Math.PI): Point[] {
+  return Array.from({ length: count + 1 }, (_, i) => {
+    const angle = from + ((to - from) * i) / count;
+    return { x: cx + radius * Math.cos(angle), y: cy + radius * Math.sin(angle) };
+  });
+}
+
+/** Segments between consecutive points */
+function polyline(points: Point[]): { p0: Point; p1: Point }[] {
+  return points.slice(1).map((p1, i) => ({ p0: points[i], p1 }));
+}
+
+/** Segments around a ring whose last point repeats the first, sharing that point exactly */
+function closedPolyline(points: Point[]): { p0: Point; p1: Point }[] {
+  return polyline([...points.slice(0, -1), points[0]]);
+}
+
+describe('fitCircle', () => {
+  it('finds the center and radius of points on a circle', () => {
+    const circle = fitCircle(ring(3, -2, 5, 7, 0, Math.PI));
+
+    expect(circle!.cx).toBeCloseTo(3);
+    expect(circle!.cy).toBeCloseTo(-2);
+    expect(circle!.radius).toBeCloseTo(5);
+  });
+
+  it('finds no circle through collinear points', () => {
+    expect(fitCircle([0, 1, 2, 3].map((x) => ({ x, y: 2 * x })))).toBeNull();
+  });
+});
+
+describe('fitArcs', () => {
+  it('turns a tessellated hole into one circle', () => {
+    const result = fitArcs(closedPolyline(ring(10, 10, 4, 32)), 1e-3);
+
+    expect(result.lines).toEqual([]);
+    expect(result.arcs).toEqual([]);
+    expect(result.circles).toHaveLength(1);
+    expect(result.circles[0].center[0]).toBeCloseTo(10);
+    expect(result.circles[0].center[1]).toBeCloseTo(10);
+    expect(result.circles[0].radius).toBeCloseTo(4);
+  });
+
+  it('turns a tessellated fillet between straight edges into a counter-clockwise arc', () => {
+    // Quarter round from (5, 0) to (0, 5), led in and out by straight edges
+    const fillet = ring(0, 0, 5, 8, 0, Math.PI / 2);
+    const points = [{ x: 5, y: -10 }, ...fillet, { x: -10, y: 5 }];
+
+    for (const chain of [points, [...points].reverse()]) {
+      const result = fitArcs(polyline(chain), 1e-3);
+
+      expect(result.lines).toHaveLength(2);
+      expect(result.circles).toEqual([]);
+      expect(result.arcs).toHaveLength(1);
+      expect(result.arcs[0].radius).toBeCloseTo(5);
+      expect(result.arcs[0].startAngle).toBeCloseTo(0);
+      expect(result.arcs[0].endAngle).toBeCloseTo(Math.PI / 2);
+    }
+  });
+
+  it('keeps squares and octagons as lines, since their segments span too much of a circle', () => {
+    for (const count of [4, 8]) {
+      const result = fitArcs(closedPolyline(ring(0, 0, 10, count, Math.PI / 4, Math.PI / 4 + 2 * Math.PI)), 1e-3);
+
+      expect(result.lines).toHaveLength(count);
+      expect(result.arcs).toEqual([]);
+      expect(result.circles).toEqual([]);
+    }
+  });
+
+  it('keeps straight runs as lines', () => {
+    const run = polyline(Array.from({ length: 12 }, (_, i) => ({ x: i, y: 0.5 * i })));
+    const result = fitArcs(run, 1e-3);
+
+    expect(result.lines).toEqual(run);
+    expect(result.arcs).toEqual([]);
+  });
+
+  it('keeps runs with a vertex off the circle as lines', () => {
+    const points = ring(0, 0, 5, 8, 0, Math.PI / 2);
+    points[4] = { x: points[4].x * 1.1, y: points[4].y * 1.1 };
+
+    expect(fitArcs(polyline(points), 1e-3).arcs).toEqual([]);
+  });
+});
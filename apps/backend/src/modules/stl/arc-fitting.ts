@@ -0,0 +1,288 @@
+/**
+ * Arc Fitting - Replaces chains of short segments with circular arcs and full circles
+ *
+ * Tessellated holes and fillets project to many tiny segments. Connected segments are
+ * chained at points shared by exactly two segments, and runs of chain vertices lying on
+ * a common circle are replaced with an arc (or a circle when the whole closed chain fits).
+ */
+
+import type { ArcSegment, CircleShape } from '@stl2d/contracts';
+
+interface Point2D {
+  x: number;
+  y: number;
+}
+
+interface Segment2D {
+  p0: Point2D;
+  p1: Point2D;
+}
+
+/** Circle found by a least-squares fit */
+export interface FittedCircle {
+  cx: number;
+  cy: number;
+  radius: number;
+}
+
+/** Lines that were not replaced plus the recognized curves */
+export interface ArcFittingResult<T extends Segment2D> {
+  lines: T[];
+  arcs: ArcSegment[];
+  circles: CircleShape[];
+}
+
+/** Minimum number of segments that may be replaced with an arc */
+const MIN_ARC_SEGMENTS = 4;
+
+/** Maximum angle a single segment may subtend on the fitted circle */
+const MAX_SEGMENT_ANGLE = Math.PI / 6;
+
+function pointKey(p: Point2D): string {
+  return `${p.x},${p.y}`;
+}
+
+/**
+ * Chain segments into polylines, breaking at points not shared by exactly two segments.
+ * Returns the segment indices of each chain in order and whether the chain is closed.
+ */
+function chainSegments<T extends Segment2D>(lines: T[]): { chain: number[]; closed: boolean }[] {
+  const incident = new Map<string, number[]>();
+  lines.forEach((line, index) => {
+    for (const key of [pointKey(line.p0), pointKey(line.p1)]) {
+      if (!incident.has(key)) incident.set(key, []);
+      incident.get(key)!.push(index);
+    }
+  });
+
+  const used = new Array(lines.length).fill(false);
+  const chains: { chain: number[]; closed: boolean }[] = [];
+
+  const otherEnd = (index: number, key: string) =>
+    pointKey(lines[index].p0) === key ? pointKey(lines[index].p1) : pointKey(lines[index].p0);
+
+  const walk = (startKey: string, first: number): number[] => {
+    const chain: number[] = [];
+    let key = startKey;
+    let current: number | undefined = first;
+
+    while (current !== undefined) {
+      used[current] = true;
+      chain.push(current);
+      key = otherEnd(current, key);
+      const next = incident.get(key)!;
+      current = next.length === 2 ? next.find((candidate) => !used[candidate]) : undefined;
+    }
+
+    return chain;
+  };
+
+  // Open chains start at points that are not simple pass-through points
+  for (const [key, indices] of Array.from(incident.entries())) {
+    if (indices.length === 2) continue;
+    for (const index of indices) {
+      if (!used[index]) chains.push({ chain: walk(key, index), closed: false });
+    }
+  }
+
+  // Remaining segments form closed loops
+  lines.forEach((line, index) => {
+    if (!used[index]) chains.push({ chain: walk(pointKey(line.p0), index), closed: true });
+  });
+
+  return chains;
+}
+
+/**
+ * Ordered vertices of a chain of segments
+ */
+function chainPoints<T extends Segment2D>(lines: T[], chain: number[]): Point2D[] {
+  const first = lines[chain[0]];
+  if (chain.length === 1) return [first.p0, first.p1];
+
+  // Start at the end of the first segment that is not shared with the second one
+  const second = lines[chain[1]];
+  const secondKeys = [pointKey(second.p0), pointKey(second.p1)];
+  const points = secondKeys.includes(pointKey(first.p1)) ? [first.p0, first.p1] : [first.p1, first.p0];
+
+  for (let i = 1; i < chain.length; i++) {
+    const line = lines[chain[i]];
+    const last = pointKey(points[points.length - 1]);
+    points.push(pointKey(line.p0) === last ? line.p1 : line.p0);
+  }
+
+  return points;
+}
+
+/**
+ * Least-squares circle through points (algebraic fit)
+ */
+export function fitCircle(points: Point2D[]): FittedCircle | null {
+  const n = points.length;
+  let meanX = 0;
+  let meanY = 0;
+  for (const p of points) {
+    meanX += p.x / n;
+    meanY += p.y / n;
+  }
+
+  // Solve the normal equations of x² + y² + D x + E y + F = 0 around the centroid
+  let suu = 0, suv = 0, svv = 0, suuu = 0, svvv = 0, suvv = 0, svuu = 0;
+  for (const p of points) {
+    const u = p.x - meanX;
+    const v = p.y - meanY;
+    suu += u * u;
+    suv += u * v;
+    svv += v * v;
+    suuu += u * u * u;
+    svvv += v * v * v;
+    suvv += u * v * v;
+    svuu += v * u * u;
+  }
+
+  const determinant = suu * svv - suv * suv;
+  if (Math.abs(determinant) < 1e-30) return null;
+
+  const rhsU = (suuu + suvv) / 2;
+  const rhsV = (svvv + svuu) / 2;
+  const uc = (rhsU * svv - rhsV * suv) / determinant;
+  const vc = (rhsV * suu - rhsU * suv) / determinant;
+
+  return {
+    cx: uc + meanX,
+    cy: vc + meanY,
+    radius: Math.sqrt(uc * uc + vc * vc + (suu + svv) / n),
+  };
+}
+
+/**
+ * Check that the points follow the circle in one rotational direction,
+ * with every vertex within tolerance and no segment spanning too much of the circle
+ */
+function isArc(points: Point2D[], circle: FittedCircle, tolerance: number): boolean {
+  let direction = 0;
+
+  for (let i = 0; i < points.length; i++) {
+    const p = points[i];
+    if (Math.abs(Math.hypot(p.x - circle.cx, p.y - circle.cy) - circle.radius) > tolerance) {
+      return false;
+    }
+
+    if (i === 0) continue;
+    const a0 = Math.atan2(points[i - 1].y - circle.cy, points[i - 1].x - circle.cx);
+    const a1 = Math.atan2(p.y - circle.cy, p.x - circle.cx);
+    let sweep = a1 - a0;
+    if (sweep > Math.PI) sweep -= 2 * Math.PI;
+    if (sweep < -Math.PI) sweep += 2 * Math.PI;
+
+    if (sweep === 0 || Math.abs(sweep) > MAX_SEGMENT_ANGLE) return false;
+    const sign = Math.sign(sweep);
+    if (direction !== 0 && sign !== direction) return false;
+    direction = sign;
+  }
+
+  return true;
+}
+
+function toArc(points: Point2D[], circle: FittedCircle): ArcSegment {
+  const first = points[0];
+  const second = points[1];
+  const last = points[points.length - 1];
+  const startAngle = Math.atan2(first.y - circle.cy, first.x - circle.cx);
+  const endAngle = Math.atan2(last.y - circle.cy, last.x - circle.cx);
+
+  // Arcs are stored counter-clockwise; reverse clockwise runs
+  const cross = (first.x - circle.cx) * (second.y - circle.cy) - (first.y - circle.cy) * (second.x - circle.cx);
+  const center: [number, number] = [circle.cx, circle.cy];
+
+  return cross > 0
+    ? { center, radius: circle.radius, startAngle, endAngle }
+    : { center, radius: circle.radius, startAngle: endAngle, endAngle: startAngle };
+}
+
+/**
+ * Index of the sharpest corner of a closed polyline, used as a stable start for fitting
+ */
+function sharpestCorner(points: Point2D[]): number {
+  let best = 0;
+  let bestTurn = -1;
+
+  for (let i = 0; i < points.length; i++) {
+    const prev = points[(i - 1 + points.length) % points.length];
+    const p = points[i];
+    const next = points[(i + 1) % points.length];
+    const a0 = Math.atan2(p.y - prev.y, p.x - prev.x);
+    const a1 = Math.atan2(next.y - p.y, next.x - p.x);
+    let turn = Math.abs(a1 - a0);
+    if (turn > Math.PI) turn = 2 * Math.PI - turn;
+    if (turn > bestTurn) {
+      bestTurn = turn;
+      best = i;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Replace chains of segments lying on circles with arcs and circles.
+ *
+ * @param lines - Segments of one line category
+ * @param tolerance - Maximum distance of chain vertices from the fitted circle
+ * @returns Remaining segments plus recognized arcs and circles
+ */
+export function fitArcs<T extends Segment2D>(lines: T[], tolerance: number): ArcFittingResult<T> {
+  const remaining: T[] = [];
+  const arcs: ArcSegment[] = [];
+  const circles: CircleShape[] = [];
+
+  for (const { chain, closed } of chainSegments(lines)) {
+    if (chain.length < MIN_ARC_SEGMENTS) {
+      remaining.push(...chain.map((index) => lines[index]));
+      continue;
+    }
+
+    let points = chainPoints(lines, chain);
+    let segments = chain;
+
+    if (closed) {
+      // Closed chain: try a full circle first
+      const ring = points.slice(0, -1);
+      const circle = fitCircle(ring);
+      if (circle && isArc(points, circle, tolerance)) {
+        circles.push({ center: [circle.cx, circle.cy], radius: circle.radius });
+        continue;
+      }
+
+      // Otherwise start at a corner so that arcs do not wrap around the chain start
+      const start = sharpestCorner(ring);
+      points = [...ring.slice(start), ...ring.slice(0, start), ring[start]];
+      segments = [...chain.slice(start), ...chain.slice(0, start)];
+    }
+
+    // Greedily grow arcs along the chain
+    let i = 0;
+    while (i < segments.length) {
+      let bestEnd = -1;
+      let bestCircle: FittedCircle | null = null;
+
+      for (let j = i + MIN_ARC_SEGMENTS; j <= segments.length; j++) {
+        const run = points.slice(i, j + 1);
+        const circle = fitCircle(run);
+        if (!circle || !isArc(run, circle, tolerance)) break;
+        bestEnd = j;
+        bestCircle = circle;
+      }
+
+      if (bestCircle) {
+        arcs.push(toArc(points.slice(i, bestEnd + 1), bestCircle));
+        i = bestEnd;
+      } else {
+        remaining.push(lines[segments[i]]);
+        i++;
+      }
+    }
+  }
+
+  return { lines: remaining, arcs, circles };
+}
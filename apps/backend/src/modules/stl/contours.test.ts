@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { buildPolylines } from './contours';
+
+type Point = [number, number];
+
+/** Closed loop of segments through the corners */
+function loop(corners: Point[]) {
+  return corners.map(([x, y], i) => {
+    const [nx, ny] = corners[(i + 1) % corners.length];
+    return { p0: { x, y }, p1: { x: nx, y: ny } };
+  });
+}
+
+function square(min: number, max: number) {
+  return loop([
+    [min, min],
+    [max, min],
+    [max, max],
+    [min, max],
+  ]);
+}
+
+describe('buildPolylines', () => {
+  it('finds the outer boundary and the hole of a plate', () => {
+    const polylines = buildPolylines([...square(3, 7), ...square(0, 10)]);
+
+    expect(polylines).toHaveLength(2);
+    expect(polylines.map(({ contour }) => contour).sort()).toEqual(['inner', 'outer']);
+    expect(polylines.every(({ closed, points }) => closed && points.length === 4)).toBe(true);
+    const outer = polylines.find(({ contour }) => contour === 'outer')!;
+    expect(outer.points).toEqual(expect.arrayContaining([[0, 0], [10, 0], [10, 10], [0, 10]]));
+  });
+
+  it('classifies an island inside a hole as an outer boundary', () => {
+    const polylines = buildPolylines([...square(0, 10), ...square(2, 8), ...square(4, 6)]);
+    const byCorner = (corner: number) => polylines.find(({ points }) => points.some(([x]) => x === corner))!;
+
+    expect(byCorner(0).contour).toBe('outer');
+    expect(byCorner(2).contour).toBe('inner');
+    expect(byCorner(4).contour).toBe('outer');
+  });
+
+  it('splits polylines at T-junctions', () => {
+    const polylines = buildPolylines([
+      { p0: { x: 0, y: 0 }, p1: { x: 10, y: 0 } },
+      { p0: { x: 5, y: 0 }, p1: { x: 5, y: 5 } },
+    ]);
+
+    expect(polylines).toHaveLength(3);
+    expect(polylines.every(({ closed, contour }) => !closed && contour === undefined)).toBe(true);
+    for (const { points } of polylines) {
+      expect(points).toHaveLength(2);
+      expect(points).toContainEqual([5, 0]);
+    }
+  });
+
+  it('keeps an edge sticking out of an outline out of the contour', () => {
+    // The stub meets the bottom edge of the square in its middle
+    const polylines = buildPolylines([...square(0, 10), { p0: { x: 5, y: 0 }, p1: { x: 5, y: -4 } }]);
+    const [outline, stub] = polylines;
+
+    expect(polylines).toHaveLength(2);
+    expect(outline.contour).toBe('outer');
+    expect(outline.points).toHaveLength(5);
+    expect(outline.points).toContainEqual([5, 0]);
+    expect(stub.closed).toBe(false);
+    expect(stub.points).toEqual(expect.arrayContaining([[5, 0], [5, -4]]));
+  });
+});
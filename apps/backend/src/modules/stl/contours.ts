@@ -0,0 +1,326 @@
+/**
+ * Contours - Chains visible segments into polylines and finds closed outlines
+ *
+ * Segments are connected at shared endpoints, after splitting segments at endpoints of
+ * other segments that touch them (T-junctions). The outer boundary of every connected
+ * group of segments becomes a closed contour, classified as outer boundary or inner
+ * contour by how deeply it is nested in the other contours. The remaining segments
+ * are chained into polylines, breaking at points not shared by exactly two segments.
+ */
+
+import type { ContourType, Polyline } from '@stl2d/contracts';
+
+interface Point2D {
+  x: number;
+  y: number;
+}
+
+interface Segment2D {
+  p0: Point2D;
+  p1: Point2D;
+}
+
+/** Undirected graph of segment endpoints */
+interface SegmentGraph {
+  points: Point2D[];
+  edges: [number, number][];
+  /** Edges incident to each point */
+  incident: number[][];
+}
+
+/** Edge traversed from one point to another */
+interface Step {
+  from: number;
+  to: number;
+  edge: number;
+}
+
+function pointKey(p: Point2D): string {
+  return `${p.x},${p.y}`;
+}
+
+/**
+ * Split segments at endpoints of other segments lying on their interior
+ */
+function splitAtJunctions<T extends Segment2D>(lines: T[], epsilon: number): Segment2D[] {
+  const unique = new Map<string, Point2D>();
+  for (const line of lines) {
+    unique.set(pointKey(line.p0), line.p0);
+    unique.set(pointKey(line.p1), line.p1);
+  }
+  const points = Array.from(unique.values()).sort((a, b) => a.x - b.x);
+
+  const result: Segment2D[] = [];
+  for (const line of lines) {
+    const dx = line.p1.x - line.p0.x;
+    const dy = line.p1.y - line.p0.y;
+    const length = Math.hypot(dx, dy);
+    const minX = Math.min(line.p0.x, line.p1.x) - epsilon;
+    const maxX = Math.max(line.p0.x, line.p1.x) + epsilon;
+
+    // Binary search for the first point inside the segment's x range
+    let low = 0;
+    let high = points.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (points[mid].x < minX) low = mid + 1;
+      else high = mid;
+    }
+
+    const cuts: { t: number; point: Point2D }[] = [];
+    for (let i = low; i < points.length && points[i].x <= maxX; i++) {
+      const p = points[i];
+      const t = ((p.x - line.p0.x) * dx + (p.y - line.p0.y) * dy) / (length * length);
+      if (t * length <= epsilon || (1 - t) * length <= epsilon) continue;
+      const offset = Math.abs((p.x - line.p0.x) * dy - (p.y - line.p0.y) * dx) / length;
+      if (offset <= epsilon) cuts.push({ t, point: p });
+    }
+
+    cuts.sort((a, b) => a.t - b.t);
+    let start = line.p0;
+    for (const { point } of cuts) {
+      result.push({ p0: start, p1: point });
+      start = point;
+    }
+    result.push({ p0: start, p1: line.p1 });
+  }
+
+  return result;
+}
+
+/**
+ * Build the endpoint graph, dropping degenerate and duplicate segments
+ */
+function buildGraph(segments: Segment2D[]): SegmentGraph {
+  const indices = new Map<string, number>();
+  const points: Point2D[] = [];
+  const incident: number[][] = [];
+  const edges: [number, number][] = [];
+  const seen = new Set<string>();
+
+  const indexOf = (p: Point2D): number => {
+    const key = pointKey(p);
+    let index = indices.get(key);
+    if (index === undefined) {
+      index = points.length;
+      indices.set(key, index);
+      points.push(p);
+      incident.push([]);
+    }
+    return index;
+  };
+
+  for (const segment of segments) {
+    const a = indexOf(segment.p0);
+    const b = indexOf(segment.p1);
+    const key = a < b ? `${a}|${b}` : `${b}|${a}`;
+    if (a === b || seen.has(key)) continue;
+    seen.add(key);
+
+    incident[a].push(edges.length);
+    incident[b].push(edges.length);
+    edges.push([a, b]);
+  }
+
+  return { points, edges, incident };
+}
+
+function otherEnd(graph: SegmentGraph, edge: number, point: number): number {
+  const [a, b] = graph.edges[edge];
+  return a === point ? b : a;
+}
+
+/**
+ * Walk around the outside of the connected group containing `start`, which must be its
+ * leftmost (then lowest) point. Turning as far right as possible at every point keeps the
+ * outside on the right, so the boundary is walked counter-clockwise.
+ */
+function walkOuterBoundary(graph: SegmentGraph, start: number): Step[] {
+  const { points } = graph;
+
+  const nextStep = (at: number, headingX: number, headingY: number, via: number): Step => {
+    let best: Step | null = null;
+    let bestTurn = Infinity;
+
+    for (const edge of graph.incident[at]) {
+      const to = otherEnd(graph, edge, at);
+      const dx = points[to].x - points[at].x;
+      const dy = points[to].y - points[at].y;
+      // Left turn angle in (-π, π]; going back along the same edge is the last resort
+      const turn =
+        edge === via ? Math.PI : Math.atan2(headingX * dy - headingY * dx, headingX * dx + headingY * dy);
+      if (turn < bestTurn) {
+        bestTurn = turn;
+        best = { from: at, to, edge };
+      }
+    }
+
+    return best!;
+  };
+
+  // Arrive at the leftmost point heading down, with the outside on the right
+  const first = nextStep(start, 0, -1, -1);
+  const steps: Step[] = [];
+  let step = first;
+
+  // Every directed edge is walked at most once
+  for (let guard = 0; guard <= 2 * graph.edges.length; guard++) {
+    steps.push(step);
+    const headingX = points[step.to].x - points[step.from].x;
+    const headingY = points[step.to].y - points[step.from].y;
+    step = nextStep(step.to, headingX, headingY, step.edge);
+    if (step.from === first.from && step.edge === first.edge) break;
+  }
+
+  return steps;
+}
+
+/**
+ * Closed loops of an outer boundary walk. Edges walked in both directions (segments
+ * sticking out of an outline or bridging two outlines) are not part of any loop.
+ */
+function boundaryLoops(steps: Step[]): Step[][] {
+  const walked = new Map<number, number>();
+  for (const { edge } of steps) walked.set(edge, (walked.get(edge) ?? 0) + 1);
+  const kept = steps.filter(({ edge }) => walked.get(edge) === 1);
+  if (kept.length === 0) return [];
+
+  // Cut the cyclic walk where removed edges left a jump, then rejoin matching runs
+  const breaks = kept
+    .map((step, i) => (kept[(i + 1) % kept.length].from !== step.to ? i + 1 : -1))
+    .filter((i) => i >= 0);
+  if (breaks.length === 0) return [kept];
+
+  const rotated = [...kept.slice(breaks[0]), ...kept.slice(0, breaks[0])];
+  const runs: Step[][] = [];
+  for (const step of rotated) {
+    const run = runs[runs.length - 1];
+    if (run && run[run.length - 1].to === step.from) run.push(step);
+    else runs.push([step]);
+  }
+
+  const loops: Step[][] = [];
+  while (runs.length > 0) {
+    const loop = runs.shift()!;
+    while (loop[loop.length - 1].to !== loop[0].from) {
+      const next = runs.findIndex((run) => run[0].from === loop[loop.length - 1].to);
+      if (next < 0) break;
+      loop.push(...runs.splice(next, 1)[0]);
+    }
+    if (loop[loop.length - 1].to === loop[0].from && loop.length >= 3) loops.push(loop);
+  }
+
+  return loops;
+}
+
+/**
+ * Even-odd test of a point against a closed polygon
+ */
+function isInsidePolygon(point: Point2D, polygon: Point2D[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (a.y > point.y !== b.y > point.y) {
+      const x = a.x + ((point.y - a.y) * (b.x - a.x)) / (b.y - a.y);
+      if (point.x < x) inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Chain edges not used by contours, breaking at points not shared by exactly two of them
+ */
+function chainRemaining(graph: SegmentGraph, used: boolean[]): { points: number[]; closed: boolean }[] {
+  const degree = graph.incident.map((edges) => edges.filter((edge) => !used[edge]).length);
+  const chains: { points: number[]; closed: boolean }[] = [];
+
+  const walk = (start: number, first: number): number[] => {
+    const chain = [start];
+    let at = start;
+    let edge: number | undefined = first;
+
+    while (edge !== undefined) {
+      used[edge] = true;
+      at = otherEnd(graph, edge, at);
+      chain.push(at);
+      edge = degree[at] === 2 ? graph.incident[at].find((candidate) => !used[candidate]) : undefined;
+    }
+
+    return chain;
+  };
+
+  // Open chains start at points that are not simple pass-through points
+  degree.forEach((count, point) => {
+    if (count === 2) return;
+    for (const edge of graph.incident[point]) {
+      if (!used[edge]) chains.push({ points: walk(point, edge), closed: false });
+    }
+  });
+
+  // Remaining edges form closed loops; the start point is not repeated
+  graph.edges.forEach(([a], edge) => {
+    if (!used[edge]) chains.push({ points: walk(a, edge).slice(0, -1), closed: true });
+  });
+
+  return chains;
+}
+
+/**
+ * Chain segments into polylines and classify the closed outlines of each connected group.
+ *
+ * @param lines - Visible segments of a view
+ * @param epsilon - Distance at which a segment endpoint counts as touching another segment
+ * @returns Outline contours (outer boundaries and inner contours) followed by the other polylines
+ */
+export function buildPolylines<T extends Segment2D>(lines: T[], epsilon: number = 1e-6): Polyline[] {
+  const graph = buildGraph(splitAtJunctions(lines, epsilon));
+  const { points } = graph;
+  const used = new Array(graph.edges.length).fill(false);
+  const visited = new Array(points.length).fill(false);
+
+  // Leftmost point of every connected group, as the start of its outer boundary walk
+  const order = points
+    .map((_, index) => index)
+    .sort((a, b) => points[a].x - points[b].x || points[a].y - points[b].y);
+
+  const outlines: Point2D[][] = [];
+  for (const start of order) {
+    if (visited[start] || graph.incident[start].length === 0) continue;
+
+    const stack = [start];
+    visited[start] = true;
+    while (stack.length > 0) {
+      const point = stack.pop()!;
+      for (const edge of graph.incident[point]) {
+        const next = otherEnd(graph, edge, point);
+        if (!visited[next]) {
+          visited[next] = true;
+          stack.push(next);
+        }
+      }
+    }
+
+    for (const loop of boundaryLoops(walkOuterBoundary(graph, start))) {
+      loop.forEach(({ edge }) => (used[edge] = true));
+      outlines.push(loop.map(({ from }) => points[from]));
+    }
+  }
+
+  // Contours nested in an odd number of other contours bound holes
+  const contours: Polyline[] = outlines.map((outline, index) => {
+    const depth = outlines.filter(
+      (other, otherIndex) => otherIndex !== index && isInsidePolygon(outline[0], other),
+    ).length;
+    const contour: ContourType = depth % 2 === 0 ? 'outer' : 'inner';
+    return { points: outline.map((p): [number, number] => [p.x, p.y]), closed: true, contour };
+  });
+
+  const others: Polyline[] = chainRemaining(graph, used).map((chain) => ({
+    points: chain.points.map((index): [number, number] => [points[index].x, points[index].y]),
+    closed: chain.closed,
+  }));
+
+  return [...contours, ...others];
+}
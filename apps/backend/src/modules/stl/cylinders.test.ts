@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { box, cylinderY, toMesh, type Point, type Triangle } from '@/test/meshes';
+import { detectCylinders, type Cylinder } from './cylinders';
+import { generateProjections } from './projection-engine';
+
+/** Point on a circle around the Y axis */
+function around(radius: number, angle: number, y: number): Point {
+  return [radius * Math.cos(angle), y, radius * Math.sin(angle)];
+}
+
+/** Tube along Y with outward winding: a boss of the outer radius with a hole of the inner radius */
+function tubeY(inner: number, outer: number, y0: number, y1: number, segments: number): Triangle[] {
+  const triangles: Triangle[] = [];
+  for (let i = 0; i < segments; i++) {
+    const [a, b] = [i, i + 1].map((step) => (2 * Math.PI * (step % segments)) / segments);
+    const [o0, o1, i0, i1] = [
+      [outer, a],
+      [outer, b],
+      [inner, a],
+      [inner, b],
+    ].map(([radius, angle]) => [around(radius, angle, y0), around(radius, angle, y1)]);
+    triangles.push(
+      [o0[0], o0[1], o1[1]],
+      [o0[0], o1[1], o1[0]],
+      [i0[0], i1[1], i0[1]],
+      [i0[0], i1[0], i1[1]],
+      [o0[1], i0[1], i1[1]],
+      [o0[1], i1[1], o1[1]],
+      [o0[0], i1[0], i0[0]],
+      [o0[0], o1[0], i1[0]],
+    );
+  }
+  return triangles;
+}
+
+/** Facets of a Y-axis surface spanning the angle, like a rounded edge */
+function filletY(radius: number, sweep: number, y0: number, y1: number, segments: number): Triangle[] {
+  return Array.from({ length: segments }, (_, i) => {
+    const [a, b] = [i, i + 1].map((step) => (sweep * step) / segments);
+    return [
+      [around(radius, a, y0), around(radius, a, y1), around(radius, b, y1)],
+      [around(radius, a, y0), around(radius, b, y1), around(radius, b, y0)],
+    ] as Triangle[];
+  }).flat();
+}
+
+/** Ends of the axis segment of a cylinder along Y */
+function extentY({ origin, axis, length }: Cylinder): number[] {
+  return [origin.y, origin.y + axis.y * length].sort((a, b) => a - b);
+}
+
+describe('detectCylinders', () => {
+  it('finds the axis, radius and extent of a cylinder', () => {
+    const [cylinder, ...others] = detectCylinders(toMesh(cylinderY(4, 2, 12, 32, 5, -3)), 1e-3);
+
+    expect(others).toEqual([]);
+    expect(cylinder.radius).toBeCloseTo(4);
+    expect(Math.abs(cylinder.axis.y)).toBeCloseTo(1);
+    expect(cylinder.origin.x).toBeCloseTo(5);
+    expect(cylinder.origin.z).toBeCloseTo(-3);
+    expect(cylinder.length).toBeCloseTo(10);
+    extentY(cylinder).forEach((y, i) => expect(y).toBeCloseTo([2, 12][i]));
+  });
+
+  it('reports a hole through a boss as a second coaxial cylinder', () => {
+    const cylinders = detectCylinders(toMesh(tubeY(3, 6, 0, 8, 32)), 1e-3);
+
+    expect(cylinders.map(({ radius }) => Number(radius.toFixed(6))).sort()).toEqual([3, 6]);
+    for (const cylinder of cylinders) {
+      expect(cylinder.origin.x).toBeCloseTo(0);
+      expect(cylinder.origin.z).toBeCloseTo(0);
+      expect(cylinder.length).toBeCloseTo(8);
+    }
+  });
+
+  it('rejects surfaces that do not go most of the way around their axis', () => {
+    expect(detectCylinders(toMesh(filletY(2, Math.PI / 2, 0, 10, 12)), 1e-3)).toEqual([]);
+    expect(detectCylinders(toMesh(filletY(2, 1.4 * Math.PI, 0, 10, 40)), 1e-3)).toEqual([]);
+    expect(detectCylinders(toMesh(filletY(2, 1.6 * Math.PI, 0, 10, 40)), 1e-3)).toHaveLength(1);
+  });
+
+  it('ignores meshes made only of flat faces', () => {
+    expect(detectCylinders(toMesh(box([0, 0, 0], [10, 10, 10])), 1e-3)).toEqual([]);
+  });
+
+  it('gives center marks along the axis and centerlines from the side', () => {
+    const views = generateProjections(toMesh(cylinderY(4, 0, 10, 32)));
+    const view = (name: string) => views.find((candidate) => candidate.name === name)!;
+
+    // Two crossing lines through the center, longer than the diameter
+    const mark = view('top').centerLines;
+    expect(mark).toHaveLength(2);
+    for (const [[x0, y0], [x1, y1]] of mark) {
+      expect((x0 + x1) / 2).toBeCloseTo(0);
+      expect((y0 + y1) / 2).toBeCloseTo(0);
+      expect(Math.hypot(x1 - x0, y1 - y0)).toBeGreaterThan(8);
+    }
+
+    // One vertical line along the axis, past both ends
+    const [[[x0, y0], [x1, y1]], ...others] = view('front').centerLines;
+    expect(others).toEqual([]);
+    expect(x0).toBeCloseTo(0);
+    expect(x1).toBeCloseTo(0);
+    expect(Math.min(y0, y1)).toBeLessThan(0);
+    expect(Math.max(y0, y1)).toBeGreaterThan(10);
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Cylinders - Detects cylindrical surfaces (holes, bosses, shafts) in a mesh
+ *
+ * Faces are grouped across smooth edges. Inside a group, the facet edges of a tessellated
+ * cylinder run parallel to its axis and lie on a circle around it, so the group is
+ * accepted as a cylinder when its bent edges share a direction and fit a circle that
+ * they cover almost all the way around.
+ */
+
+import { fitCircle } from './arc-fitting';
+import { faceCount, getVertex, vertexCount, type Mesh, type Vector3 } from './mesh';
+
+/** Cylindrical surface with a finite extent along its axis */
+export interface Cylinder {
+  /** Point on the axis where the surface starts */
+  origin: Vector3;
+  /** Unit axis direction */
+  axis: Vector3;
+  radius: number;
+  /** Extent of the surface along the axis, starting at origin */
+  length: number;
+}
+
+/** Largest angle between neighbouring facets of a tessellated cylinder */
+const MAX_FACET_ANGLE = (45 * Math.PI) / 180;
+
+/** Smallest angle for an edge to count as a facet bend rather than a flat diagonal */
+const MIN_BEND_ANGLE = (0.5 * Math.PI) / 180;
+
+/** Tolerance for treating edge directions as parallel to the axis */
+const PARALLEL_TOLERANCE = Math.cos((1 * Math.PI) / 180);
+
+/** Minimum number of facet bends and angular coverage of a cylinder */
+const MIN_BENDS = 6;
+const MIN_COVERAGE = 1.5 * Math.PI;
+
+function sub(a: Vector3, b: Vector3): Vector3 {
+  return { x: a.x - b.x, y: a.y - b.y, z: a.z - b.z };
+}
+
+function dot(a: Vector3, b: Vector3): number {
+  return a.x * b.x + a.y * b.y + a.z * b.z;
+}
+
+function cross(a: Vector3, b: Vector3): Vector3 {
+  return {
+    x: a.y * b.z - a.z * b.y,
+    y: a.z * b.x - a.x * b.z,
+    z: a.x * b.y - a.y * b.x,
+  };
+}
+
+function normalize(v: Vector3): Vector3 | null {
+  const length = Math.sqrt(dot(v, v));
+  return length > 0 ? { x: v.x / length, y: v.y / length, z: v.z / length } : null;
+}
+
+/**
+ * Disjoint-set forest over face indices
+ */
+function createUnionFind(size: number) {
+  const parent = Array.from({ length: size }, (_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  const union = (a: number, b: number) => {
+    parent[find(a)] = find(b);
+  };
+  return { find, union };
+}
+
+/**
+ * Check one group of bent edges for a cylinder around their common direction
+ */
+function fitCylinder(mesh: Mesh, bends: [number, number][], tolerance: number): Cylinder | null {
+  if (bends.length < MIN_BENDS) return null;
+
+  const [a0, b0] = bends[0];
+  const axis = normalize(sub(getVertex(mesh, b0), getVertex(mesh, a0)));
+  if (!axis) return null;
+
+  for (const [a, b] of bends) {
+    const direction = normalize(sub(getVertex(mesh, b), getVertex(mesh, a)));
+    if (!direction || Math.abs(dot(direction, axis)) < PARALLEL_TOLERANCE) return null;
+  }
+
+  // Plane basis perpendicular to the axis
+  const helper = Math.abs(axis.x) < 0.9 ? { x: 1, y: 0, z: 0 } : { x: 0, y: 1, z: 0 };
+  const u = normalize(cross(axis, helper))!;
+  const v = cross(axis, u);
+
+  const vertices = Array.from(new Set(bends.flat())).map((index) => getVertex(mesh, index));
+  const points = vertices.map((p) => ({ x: dot(p, u), y: dot(p, v) }));
+  const circle = fitCircle(points);
+  if (!circle || circle.radius <= tolerance) return null;
+  if (points.some((p) => Math.abs(Math.hypot(p.x - circle.cx, p.y - circle.cy) - circle.radius) > tolerance)) {
+    return null;
+  }
+
+  // Bends must surround the axis, not just follow a fillet or a partial arc
+  const angles = points.map((p) => Math.atan2(p.y - circle.cy, p.x - circle.cx)).sort((a, b) => a - b);
+  let largestGap = angles[0] + 2 * Math.PI - angles[angles.length - 1];
+  for (let i = 1; i < angles.length; i++) largestGap = Math.max(largestGap, angles[i] - angles[i - 1]);
+  if (2 * Math.PI - largestGap < MIN_COVERAGE) return null;
+
+  const heights = vertices.map((p) => dot(p, axis));
+  const start = Math.min(...heights);
+  const length = Math.max(...heights) - start;
+
+  return {
+    origin: {
+      x: circle.cx * u.x + circle.cy * v.x + start * axis.x,
+      y: circle.cx * u.y + circle.cy * v.y + start * axis.y,
+      z: circle.cx * u.z + circle.cy * v.z + start * axis.z,
+    },
+    axis,
+    radius: circle.radius,
+    length,
+  };
+}
+
+/**
+ * Find cylindrical surfaces in a mesh.
+ *
+ * @param mesh - Mesh to search
+ * @param tolerance - Maximum distance of facet vertices from the fitted circle (model units)
+ * @returns Detected cylinders; coaxial surfaces such as a hole through a boss are reported separately
+ */
+export function detectCylinders(mesh: Mesh, tolerance: number): Cylinder[] {
+  const { indices } = mesh;
+  const normals: (Vector3 | null)[] = [];
+  for (let face = 0; face < faceCount(mesh); face++) {
+    const [a, b, c] = [0, 1, 2].map((i) => getVertex(mesh, indices[face * 3 + i]));
+    normals.push(normalize(cross(sub(b, a), sub(c, a))));
+  }
+
+  // Faces sharing each edge, keyed by vertex indices
+  const count = vertexCount(mesh);
+  const edgeFaces = new Map<number, number[]>();
+  for (let face = 0; face < faceCount(mesh); face++) {
+    for (let i = 0; i < 3; i++) {
+      const a = indices[face * 3 + i];
+      const b = indices[face * 3 + ((i + 1) % 3)];
+      const key = a < b ? a * count + b : b * count + a;
+      if (!edgeFaces.has(key)) edgeFaces.set(key, []);
+      edgeFaces.get(key)!.push(face);
+    }
+  }
+
+  // Group faces across smooth edges and remember the facet bends
+  const groups = createUnionFind(faceCount(mesh));
+  const bends: { edge: [number, number]; face: number }[] = [];
+
+  for (const [key, faces] of Array.from(edgeFaces.entries())) {
+    if (faces.length !== 2) continue;
+    const n0 = normals[faces[0]];
+    const n1 = normals[faces[1]];
+    if (!n0 || !n1) continue;
+
+    const angle = Math.acos(Math.max(-1, Math.min(1, dot(n0, n1))));
+    if (angle > MAX_FACET_ANGLE) continue;
+
+    groups.union(faces[0], faces[1]);
+    if (angle >= MIN_BEND_ANGLE) {
+      const a = Math.floor(key / count);
+      const b = key % count;
+      bends.push({ edge: [a, b], face: faces[0] });
+    }
+  }
+
+  const bendsByGroup = new Map<number, [number, number][]>();
+  for (const { edge, face } of bends) {
+    const group = groups.find(face);
+    if (!bendsByGroup.has(group)) bendsByGroup.set(group, []);
+    bendsByGroup.get(group)!.push(edge);
+  }
+
+  const cylinders: Cylinder[] = [];
+  for (const groupBends of Array.from(bendsByGroup.values())) {
+    const cylinder = fitCylinder(mesh, groupBends, tolerance);
+    if (cylinder) cylinders.push(cylinder);
+  }
+
+  return cylinders;
+}
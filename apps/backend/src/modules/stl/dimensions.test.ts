@@ -0,0 +1,59 @@
+import type { CircleShape } from '@stl2d/contracts';
+import { describe, expect, it } from 'vitest';
+import { generateDimensions } from './dimensions';
+
+// Outline of a 40 x 20 plate
+const outline = [
+  { p0: { x: 0, y: 0 }, p1: { x: 40, y: 0 } },
+  { p0: { x: 40, y: 0 }, p1: { x: 40, y: 20 } },
+  { p0: { x: 40, y: 20 }, p1: { x: 0, y: 20 } },
+  { p0: { x: 0, y: 20 }, p1: { x: 0, y: 0 } },
+];
+
+const circle = (x: number, y: number, radius: number): CircleShape => ({ center: [x, y], radius });
+
+describe('generateDimensions', () => {
+  it('dimensions the overall width and height outside the geometry', () => {
+    const dimensions = generateDimensions(outline, [], 1e-6);
+    const [width, height] = dimensions;
+
+    expect(dimensions).toHaveLength(2);
+    expect(width).toMatchObject({ kind: 'horizontal', value: 40, text: '40' });
+    expect(height).toMatchObject({ kind: 'vertical', value: 20, text: '20' });
+    // Below and left of the plate
+    expect(width.dimensionLine.every(([, y]) => y < 0)).toBe(true);
+    expect(height.dimensionLine.every(([x]) => x < 0)).toBe(true);
+    expect(width.extensionLines).toHaveLength(2);
+  });
+
+  it('dimensions circle diameters with a diameter sign', () => {
+    const dimensions = generateDimensions(outline, [circle(10, 10, 2.5), circle(30, 10, 1 / 3)], 1e-6);
+    const diameters = dimensions.filter(({ kind }) => kind === 'diameter');
+
+    expect(diameters.map(({ value }) => value)).toEqual([5, 2 / 3]);
+    expect(diameters.map(({ text }) => text)).toEqual(['Ø5', 'Ø0.67']);
+  });
+
+  it('chains center distances, counting centers closer than epsilon once', () => {
+    const circles = [circle(30, 5, 2), circle(10, 5, 2), circle(10 + 1e-8, 15, 2), circle(20, 5 - 1e-8, 2)];
+    const dimensions = generateDimensions(outline, circles, 1e-6);
+    const chained = (kind: string) =>
+      dimensions.filter((dimension) => dimension.kind === kind).slice(1).map(({ value }) => value);
+
+    // Columns at 10, 20 and 30 above the plate, rows at 5 and 15 right of it
+    expect(chained('horizontal')).toEqual([10, 10]);
+    expect(chained('vertical').map((value) => Number(value.toFixed(6)))).toEqual([10]);
+    const [, ...distances] = dimensions.filter(({ kind }) => kind === 'horizontal');
+    expect(distances.every(({ dimensionLine }) => dimensionLine.every(([, y]) => y > 20))).toBe(true);
+  });
+
+  it('skips the overall size along a direction without extent', () => {
+    const dimensions = generateDimensions([{ p0: { x: 0, y: 3 }, p1: { x: 12, y: 3 } }], [], 1e-6);
+
+    expect(dimensions.map(({ kind }) => kind)).toEqual(['horizontal']);
+  });
+
+  it('returns no dimensions without lines', () => {
+    expect(generateDimensions([], [circle(0, 0, 1)], 1e-6)).toEqual([]);
+  });
+});
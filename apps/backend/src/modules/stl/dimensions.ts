@@ -0,0 +1,160 @@
+/**
+ * Dimensions - Automatic dimension annotations for a projected view
+ *
+ * Adds the overall width and height of the view, the diameter of every visible circle
+ * (holes seen along their axis) and chained center distances between circles.
+ * Dimension lines are placed outside the geometry at a distance relative to its size.
+ */
+
+import type { CircleShape, Dimension, LineSegment } from '@stl2d/contracts';
+
+interface Point2D {
+  x: number;
+  y: number;
+}
+
+interface Segment2D {
+  p0: Point2D;
+  p1: Point2D;
+}
+
+/** Distance between the geometry and the first row of dimension lines, relative to the view size */
+const DIMENSION_OFFSET = 0.12;
+
+/** Length of extension lines past the dimension line and distance of the text from it, relative to the offset */
+const EXTENSION_OVERSHOOT = 0.15;
+const TEXT_OFFSET = 0.3;
+
+/** Decimals shown in dimension texts */
+const TEXT_DECIMALS = 2;
+
+function formatValue(value: number): string {
+  return String(Number(value.toFixed(TEXT_DECIMALS)));
+}
+
+function toSegment(a: Point2D, b: Point2D): LineSegment {
+  return [
+    [a.x, a.y],
+    [b.x, b.y],
+  ];
+}
+
+/**
+ * Dimension between two points along the x axis (horizontal) or y axis (vertical).
+ * The dimension line lies at coordinate `at` on the other axis; `side` tells on which
+ * side of the geometry it is, so that extension lines and text point away from it.
+ */
+function linearDimension(
+  kind: 'horizontal' | 'vertical',
+  from: Point2D,
+  to: Point2D,
+  at: number,
+  side: 1 | -1,
+  offset: number,
+): Dimension {
+  const horizontal = kind === 'horizontal';
+  // Map (along, across) coordinates back to view x/y
+  const point = (along: number, across: number): Point2D =>
+    horizontal ? { x: along, y: across } : { x: across, y: along };
+
+  const start = horizontal ? from.x : from.y;
+  const end = horizontal ? to.x : to.y;
+  const overshoot = at + side * offset * EXTENSION_OVERSHOOT;
+  const value = Math.abs(end - start);
+  const text = point((start + end) / 2, at + side * offset * TEXT_OFFSET);
+
+  return {
+    kind,
+    value,
+    text: formatValue(value),
+    textPosition: [text.x, text.y],
+    dimensionLine: toSegment(point(start, at), point(end, at)),
+    extensionLines: [
+      toSegment(from, point(start, overshoot)),
+      toSegment(to, point(end, overshoot)),
+    ],
+  };
+}
+
+/**
+ * Diameter of a circle, measured across it at 45°
+ */
+function diameterDimension(circle: CircleShape, offset: number): Dimension {
+  const [cx, cy] = circle.center;
+  const r = circle.radius * Math.SQRT1_2;
+  const textDistance = circle.radius + offset * TEXT_OFFSET;
+
+  return {
+    kind: 'diameter',
+    value: circle.radius * 2,
+    text: `Ø${formatValue(circle.radius * 2)}`,
+    textPosition: [cx + textDistance * Math.SQRT1_2, cy + textDistance * Math.SQRT1_2],
+    dimensionLine: [
+      [cx - r, cy - r],
+      [cx + r, cy + r],
+    ],
+    extensionLines: [],
+  };
+}
+
+/**
+ * Items sorted by value, keeping one item per group of values closer than epsilon
+ */
+function distinctBy<T>(items: T[], value: (item: T) => number, epsilon: number): T[] {
+  const sorted = [...items].sort((a, b) => value(a) - value(b));
+  return sorted.filter((item, i) => i === 0 || value(item) - value(sorted[i - 1]) > epsilon);
+}
+
+/**
+ * Generate dimensions for a view.
+ *
+ * @param lines - All drawn segments of the view (visible and hidden), before curve fitting
+ * @param circles - Visible circles of the view
+ * @param epsilon - Geometric tolerance in view units
+ * @returns Overall width and height, circle diameters and center distances between circles
+ */
+export function generateDimensions(
+  lines: Segment2D[],
+  circles: CircleShape[],
+  epsilon: number,
+): Dimension[] {
+  if (lines.length === 0) return [];
+
+  // Extreme points of the geometry, used as extension line origins
+  const points = lines.flatMap((line) => [line.p0, line.p1]);
+  const left = points.reduce((best, p) => (p.x < best.x ? p : best));
+  const right = points.reduce((best, p) => (p.x > best.x ? p : best));
+  const bottom = points.reduce((best, p) => (p.y < best.y ? p : best));
+  const top = points.reduce((best, p) => (p.y > best.y ? p : best));
+
+  const width = right.x - left.x;
+  const height = top.y - bottom.y;
+  const offset = Math.max(width, height) * DIMENSION_OFFSET;
+  const dimensions: Dimension[] = [];
+
+  // Overall size below and left of the geometry
+  if (width > epsilon) {
+    dimensions.push(linearDimension('horizontal', left, right, bottom.y - offset, -1, offset));
+  }
+  if (height > epsilon) {
+    dimensions.push(linearDimension('vertical', bottom, top, left.x - offset, -1, offset));
+  }
+
+  for (const circle of circles) {
+    dimensions.push(diameterDimension(circle, offset));
+  }
+
+  // Chained center distances above and right of the geometry
+  const centers = circles.map(({ center }) => ({ x: center[0], y: center[1] }));
+  const columns = distinctBy(centers, (p) => p.x, epsilon);
+  const rows = distinctBy(centers, (p) => p.y, epsilon);
+
+  for (let i = 1; i < columns.length; i++) {
+    dimensions.push(linearDimension('horizontal', columns[i - 1], columns[i], top.y + offset, 1, offset));
+  }
+  for (let i = 1; i < rows.length; i++) {
+    dimensions.push(linearDimension('vertical', rows[i - 1], rows[i], right.x + offset, 1, offset));
+  }
+
+  return dimensions;
+}
@@ -0,0 +1,77 @@
+import type { ProjectionView } from '@stl2d/contracts';
+import { describe, expect, it } from 'vitest';
+import { box, cylinderY, toMesh } from '@/test/meshes';
+import { viewToDxf } from './dxf-export';
+import { generateProjections } from './projection-engine';
+
+/** Group code and value pairs of a DXF file */
+function readPairs(dxf: string): [number, string][] {
+  const lines = dxf.trimEnd().split('\n');
+  return Array.from({ length: lines.length / 2 }, (_, i) => [Number(lines[i * 2]), lines[i * 2 + 1].trim()]);
+}
+
+/** Names of the sections in file order */
+function sections(dxf: string): string[] {
+  const pairs = readPairs(dxf);
+  return pairs.flatMap(([code, value], i) => (code === 0 && value === 'SECTION' ? [pairs[i + 1][1]] : []));
+}
+
+/** Entity type and layer of every entity in the ENTITIES section */
+function entities(dxf: string): string[] {
+  const pairs = readPairs(dxf);
+  const start = pairs.findIndex(([code, value], i) => code === 0 && value === 'SECTION' && pairs[i + 1][1] === 'ENTITIES');
+  const found: string[] = [];
+  for (let i = start + 2; pairs[i][1] !== 'ENDSEC'; i++) {
+    if (pairs[i][0] === 0) found.push(`${pairs[i][1]}:${pairs[i + 1][1]}`);
+  }
+  return found;
+}
+
+// A plate with a round boss, whose outline is hidden behind the plate from one side
+const views = generateProjections(toMesh([...box([0, 0, 0], [40, 4, 30]), ...cylinderY(6, 4, 14, 48, 20, 15)]));
+const view = (name: string) => views.find((candidate) => candidate.name === name)!;
+
+describe('viewToDxf', () => {
+  it('writes the header, tables and entities sections and ends with EOF', () => {
+    const dxf = viewToDxf(view('top'), { unit: 'mm' });
+
+    expect(sections(dxf)).toEqual(['HEADER', 'TABLES', 'ENTITIES']);
+    expect(dxf.trimEnd().endsWith('0\nEOF')).toBe(true);
+    // Millimeters in $INSUNITS
+    expect(dxf).toMatch(/\$INSUNITS\n70\n4\n/);
+  });
+
+  it('declares every layer it draws on', () => {
+    const dxf = viewToDxf(view('top'));
+    const layers = readPairs(dxf).flatMap(([code, value], i, pairs) =>
+      code === 0 && value === 'LAYER' ? [pairs[i + 1][1]] : [],
+    );
+
+    expect(layers).toEqual(expect.arrayContaining(['VISIBLE', 'HIDDEN', 'CENTER']));
+  });
+
+  it('puts visible and hidden lines and circles of a projected part on their layers', () => {
+    // Of the two views along the boss axis, one sees the boss and the other sees it through the plate
+    const [seen, hidden] = [view('top'), view('bottom')]
+      .map((candidate) => entities(viewToDxf(candidate)))
+      .sort((a, b) => Number(b.includes('CIRCLE:VISIBLE')) - Number(a.includes('CIRCLE:VISIBLE')));
+
+    expect(seen).toEqual(expect.arrayContaining(['LINE:VISIBLE', 'CIRCLE:VISIBLE', 'LINE:CENTER']));
+    expect(seen).not.toContain('CIRCLE:HIDDEN');
+    expect(hidden).toEqual(expect.arrayContaining(['LINE:VISIBLE', 'CIRCLE:HIDDEN', 'LINE:CENTER']));
+    expect(hidden).not.toContain('CIRCLE:VISIBLE');
+  });
+
+  it('writes arcs on the layer of their visibility', () => {
+    const arc = { center: [0, 0] as [number, number], radius: 5, startAngle: 0, endAngle: Math.PI / 2 };
+    const arcs: ProjectionView = { ...view('top'), arcs: [arc], hiddenArcs: [arc], dimensions: [] };
+    const pairs = readPairs(viewToDxf(arcs));
+    const found = entities(viewToDxf(arcs));
+
+    expect(found).toContain('ARC:VISIBLE');
+    expect(found).toContain('ARC:HIDDEN');
+    // Angles in degrees
+    const start = pairs.findIndex(([code, value]) => code === 0 && value === 'ARC');
+    expect(pairs.slice(start, start + 14)).toEqual(expect.arrayContaining([[50, '0'], [51, '90']]));
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * DXF Export - Writes a projection view as an AutoCAD R12 (AC1009) ASCII drawing
+ *
+ * Every line category goes to its own layer with a matching linetype, so CAD programs
+ * show hidden edges dashed and centerlines as chain lines. Dimensions are written as
+ * plain lines, arrow solids and texts, which every DXF reader understands.
+ */
+
+import type {
+  ArcSegment,
+  CircleShape,
+  Dimension,
+  LengthUnit,
+  LineSegment,
+  ProjectionView,
+} from '@stl2d/contracts';
+
+/** Layer names in drawing order */
+type DxfLayer = 'HIDDEN' | 'HATCH' | 'CENTER' | 'VISIBLE' | 'DIMENSIONS';
+
+interface LayerStyle {
+  /** AutoCAD color index */
+  color: number;
+  linetype: 'CONTINUOUS' | 'HIDDEN' | 'CENTER';
+}
+
+const LAYERS: Record<DxfLayer, LayerStyle> = {
+  HIDDEN: { color: 8, linetype: 'HIDDEN' },
+  HATCH: { color: 3, linetype: 'CONTINUOUS' },
+  CENTER: { color: 4, linetype: 'CENTER' },
+  VISIBLE: { color: 7, linetype: 'CONTINUOUS' },
+  DIMENSIONS: { color: 5, linetype: 'CONTINUOUS' },
+};
+
+/** $INSUNITS codes of the supported units; 0 means unitless */
+const INSUNITS: Record<LengthUnit, number> = {
+  mm: 4,
+  cm: 5,
+  inch: 1,
+};
+
+/** Dash patterns relative to the view size; negative lengths are gaps */
+const HIDDEN_PATTERN = [0.012, -0.008];
+const CENTER_PATTERN = [0.024, -0.006, 0.006, -0.006];
+
+/** Arrow head length and text height of dimensions, relative to the view size */
+const ARROW_SIZE = 0.015;
+const TEXT_HEIGHT = 0.025;
+
+/** Options for DXF export */
+export interface DxfExportOptions {
+  /** Unit of the view coordinates; the drawing is unitless when omitted */
+  unit?: LengthUnit;
+}
+
+function fmt(value: number): string {
+  return String(Number(value.toFixed(6)));
+}
+
+function degrees(radians: number): number {
+  return (radians * 180) / Math.PI;
+}
+
+/**
+ * Group code / value pairs, one per line each
+ */
+function pairs(...items: [number, string | number][]): string[] {
+  return items.flatMap(([code, value]) => [String(code), typeof value === 'number' ? fmt(value) : value]);
+}
+
+function lineEntity(layer: DxfLayer, [[x1, y1], [x2, y2]]: LineSegment): string[] {
+  return pairs([0, 'LINE'], [8, layer], [10, x1], [20, y1], [30, 0], [11, x2], [21, y2], [31, 0]);
+}
+
+function arcEntity(layer: DxfLayer, { center: [cx, cy], radius, startAngle, endAngle }: ArcSegment): string[] {
+  // DXF arcs run counter-clockwise from start to end, like the view arcs
+  return pairs(
+    [0, 'ARC'],
+    [8, layer],
+    [10, cx],
+    [20, cy],
+    [30, 0],
+    [40, radius],
+    [50, degrees(startAngle)],
+    [51, degrees(endAngle)],
+  );
+}
+
+function circleEntity(layer: DxfLayer, { center: [cx, cy], radius }: CircleShape): string[] {
+  return pairs([0, 'CIRCLE'], [8, layer], [10, cx], [20, cy], [30, 0], [40, radius]);
+}
+
+/**
+ * Dimension lines, extension lines, filled arrow heads and centered labels
+ */
+function dimensionEntities(dimension: Dimension, size: number): string[] {
+  const entities = [...dimension.extensionLines, dimension.dimensionLine].flatMap((line) =>
+    lineEntity('DIMENSIONS', line),
+  );
+
+  const [[x0, y0], [x1, y1]] = dimension.dimensionLine;
+  const length = Math.hypot(x1 - x0, y1 - y0);
+  if (length > 0) {
+    const ux = (x1 - x0) / length;
+    const uy = (y1 - y0) / length;
+    const arrowLength = size * ARROW_SIZE;
+    const arrowWidth = arrowLength * 0.35;
+
+    for (const [x, y, direction] of [
+      [x0, y0, -1],
+      [x1, y1, 1],
+    ]) {
+      const bx = x - direction * ux * arrowLength;
+      const by = y - direction * uy * arrowLength;
+      // A SOLID with its last two corners equal is a filled triangle
+      entities.push(
+        ...pairs(
+          [0, 'SOLID'],
+          [8, 'DIMENSIONS'],
+          [10, x],
+          [20, y],
+          [30, 0],
+          [11, bx - uy * arrowWidth],
+          [21, by + ux * arrowWidth],
+          [31, 0],
+          [12, bx + uy * arrowWidth],
+          [22, by - ux * arrowWidth],
+          [32, 0],
+          [13, bx + uy * arrowWidth],
+          [23, by - ux * arrowWidth],
+          [33, 0],
+        ),
+      );
+    }
+  }
+
+  const [tx, ty] = dimension.textPosition;
+  entities.push(
+    ...pairs(
+      [0, 'TEXT'],
+      [8, 'DIMENSIONS'],
+      [10, tx],
+      [20, ty],
+      [30, 0],
+      [40, size * TEXT_HEIGHT],
+      // R12 texts are plain ASCII; %%c is the DXF control code for the diameter sign
+      [1, dimension.text.replace(/Ø/g, '%%c')],
+      [72, 1],
+      [11, tx],
+      [21, ty],
+      [31, 0],
+      [73, 2],
+    ),
+  );
+
+  return entities;
+}
+
+function linetypeEntry(name: string, description: string, pattern: number[], size: number): string[] {
+  const dashes = pattern.map((length) => length * size);
+  return pairs(
+    [0, 'LTYPE'],
+    [2, name],
+    [70, 0],
+    [3, description],
+    [72, 65],
+    [73, dashes.length],
+    [40, dashes.reduce((total, length) => total + Math.abs(length), 0)],
+    ...dashes.map((length): [number, number] => [49, length]),
+  );
+}
+
+function tablesSection(size: number): string[] {
+  const layers = Object.entries(LAYERS) as [DxfLayer, LayerStyle][];
+  return [
+    ...pairs([0, 'SECTION'], [2, 'TABLES']),
+    ...pairs([0, 'TABLE'], [2, 'LTYPE'], [70, 3]),
+    ...linetypeEntry('CONTINUOUS', 'Solid line', [], size),
+    ...linetypeEntry('HIDDEN', 'Hidden __ __ __', HIDDEN_PATTERN, size),
+    ...linetypeEntry('CENTER', 'Center ____ _ ____', CENTER_PATTERN, size),
+    ...pairs([0, 'ENDTAB']),
+    ...pairs([0, 'TABLE'], [2, 'LAYER'], [70, layers.length]),
+    ...layers.flatMap(([name, { color, linetype }]) =>
+      pairs([0, 'LAYER'], [2, name], [70, 0], [62, color], [6, linetype]),
+    ),
+    ...pairs([0, 'ENDTAB']),
+    ...pairs([0, 'ENDSEC']),
+  ];
+}
+
+/**
+ * Export a view as a DXF drawing in view coordinates.
+ *
+ * @param view - Projection view to export
+ * @param options - Unit declared in the drawing header
+ * @returns DXF file content
+ */
+export function viewToDxf(view: ProjectionView, options: DxfExportOptions = {}): string {
+  const [xmin, ymin, xmax, ymax] = view.bbox;
+  const size = Math.max(xmax - xmin, ymax - ymin) || 1;
+  const unit = options.unit;
+
+  const header = [
+    ...pairs([0, 'SECTION'], [2, 'HEADER']),
+    ...pairs([9, '$ACADVER'], [1, 'AC1009']),
+    // $INSUNITS postdates R12 but is read by current CAD programs; $MEASUREMENT covers older ones
+    ...pairs([9, '$INSUNITS'], [70, unit ? INSUNITS[unit] : 0]),
+    ...pairs([9, '$MEASUREMENT'], [70, unit === 'inch' ? 0 : 1]),
+    ...pairs([9, '$EXTMIN'], [10, xmin], [20, ymin], [30, 0]),
+    ...pairs([9, '$EXTMAX'], [10, xmax], [20, ymax], [30, 0]),
+    ...pairs([0, 'ENDSEC']),
+  ];
+
+  const entities = [
+    ...view.hiddenLines.flatMap((line) => lineEntity('HIDDEN', line)),
+    ...view.hiddenArcs.flatMap((arc) => arcEntity('HIDDEN', arc)),
+    ...view.hiddenCircles.flatMap((circle) => circleEntity('HIDDEN', circle)),
+    ...(view.hatchLines ?? []).flatMap((line) => lineEntity('HATCH', line)),
+    ...view.centerLines.flatMap((line) => lineEntity('CENTER', line)),
+    ...view.lines.flatMap((line) => lineEntity('VISIBLE', line)),
+    ...view.arcs.flatMap((arc) => arcEntity('VISIBLE', arc)),
+    ...view.circles.flatMap((circle) => circleEntity('VISIBLE', circle)),
+    ...view.dimensions.flatMap((dimension) => dimensionEntities(dimension, size)),
+  ];
+
+  return [
+    ...header,
+    ...tablesSection(size),
+    ...pairs([0, 'SECTION'], [2, 'ENTITIES']),
+    ...entities,
+    ...pairs([0, 'ENDSEC'], [0, 'EOF']),
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { box, toMesh } from '@/test/meshes';
+import { removeHiddenLines, type ProjectedEdge, type ProjectedTriangle } from './hidden-line-removal';
+import { generateProjection } from './projection-engine';
+
+const occluder: ProjectedTriangle = {
+  a: { x: 0, y: 0, depth: 1 },
+  b: { x: 10, y: 0, depth: 1 },
+  c: { x: 0, y: 10, depth: 1 },
+  face: 0,
+};
+
+function edgeAt(depth: number): ProjectedEdge {
+  return { p0: { x: -2, y: 2, depth }, p1: { x: 12, y: 2, depth }, faces: [1], body: 0 };
+}
+
+describe('removeHiddenLines', () => {
+  it('hides the part of an edge behind a triangle', () => {
+    const { visible, hidden } = removeHiddenLines([edgeAt(0)], [occluder], 1e-6);
+
+    expect(hidden).toHaveLength(1);
+    expect(hidden[0].p0.x).toBeCloseTo(0);
+    expect(hidden[0].p1.x).toBeCloseTo(8);
+    expect(visible.map((segment) => [segment.p0.x, segment.p1.x])).toEqual([
+      [-2, expect.closeTo(0)],
+      [expect.closeTo(8), 12],
+    ]);
+  });
+
+  it('keeps an edge in front of a triangle visible', () => {
+    const { visible, hidden } = removeHiddenLines([edgeAt(2)], [occluder], 1e-6);
+
+    expect(hidden).toEqual([]);
+    expect(visible).toHaveLength(1);
+  });
+
+  it('never hides an edge behind its own faces', () => {
+    const edge = { ...edgeAt(0), faces: [0] };
+
+    expect(removeHiddenLines([edge], [occluder], 1e-6).hidden).toEqual([]);
+  });
+});
+
+describe('hidden lines of projected views', () => {
+  // A wall facing the front view with a boss on its back
+  const mesh = toMesh([...box([0, 0, 0], [20, 20, 2]), ...box([5, 5, 2], [15, 15, 8])]);
+
+  it('dashes the outline of the boss behind the wall in the front view', () => {
+    const view = generateProjection(mesh, 'front');
+
+    expect(view.lines).toHaveLength(4);
+    expect(view.hiddenLines).toHaveLength(4);
+    for (const [[x0, y0], [x1, y1]] of view.hiddenLines) {
+      for (const coordinate of [x0, y0, x1, y1]) {
+        expect([5, 15]).toContain(coordinate);
+      }
+    }
+  });
+
+  it('shows the boss without hidden lines in the back view', () => {
+    const view = generateProjection(mesh, 'back');
+
+    expect(view.lines).toHaveLength(8);
+    expect(view.hiddenLines).toEqual([]);
+  });
+});
@@ -0,0 +1,367 @@
+/**
+ * Hidden Line Removal - Splits projected edges where other faces of the mesh cover them
+ *
+ * Works in view space: every point carries its 2D projection plus a depth value
+ * that grows towards the viewer. An edge is clipped against each projected triangle
+ * and the parts where the triangle lies in front of the edge are cut away.
+ */
+
+/** Projected point with depth (larger depth = closer to the viewer) */
+export interface ProjectedPoint {
+  x: number;
+  y: number;
+  depth: number;
+}
+
+/** Projected mesh edge together with the indices of the faces it belongs to */
+export interface ProjectedEdge {
+  p0: ProjectedPoint;
+  p1: ProjectedPoint;
+  faces: number[];
+  /** Body of the faces, passed on to the parts of the edge */
+  body: number;
+}
+
+/** Projected mesh triangle used as an occluder */
+export interface ProjectedTriangle {
+  a: ProjectedPoint;
+  b: ProjectedPoint;
+  c: ProjectedPoint;
+  /** Index of the mesh face */
+  face: number;
+}
+
+interface Segment2D {
+  p0: { x: number; y: number };
+  p1: { x: number; y: number };
+  body: number;
+}
+
+/** Edges split into uncovered and covered parts */
+export interface HiddenLineResult {
+  visible: Segment2D[];
+  hidden: Segment2D[];
+}
+
+/** Occluder prepared for fast segment tests */
+interface Occluder {
+  /** Position in the grid's occluder list, used to skip duplicates during queries */
+  index: number;
+  triangle: ProjectedTriangle;
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+  /** Plane depth as a linear function of screen position: depth = dx * x + dy * y + d0 */
+  depthX: number;
+  depthY: number;
+  depth0: number;
+  /** Triangle corners in counter-clockwise order */
+  corners: [ProjectedPoint, ProjectedPoint, ProjectedPoint];
+}
+
+/** Parametric interval [start, end] along a segment, 0 <= start < end <= 1 */
+type Interval = [number, number];
+
+/**
+ * Uniform 2D grid over occluder bounding boxes
+ */
+class OccluderGrid {
+  private readonly cells: Occluder[][];
+  private readonly stamps: number[];
+  private stamp = 0;
+
+  constructor(
+    occluders: Occluder[],
+    private readonly minX: number,
+    private readonly minY: number,
+    private readonly cellSize: number,
+    private readonly columns: number,
+    private readonly rows: number,
+  ) {
+    this.cells = Array.from({ length: columns * rows }, () => []);
+    this.stamps = new Array(occluders.length).fill(0);
+
+    for (const occluder of occluders) {
+      this.forEachCell(occluder.minX, occluder.minY, occluder.maxX, occluder.maxY, (cell) => {
+        this.cells[cell].push(occluder);
+      });
+    }
+  }
+
+  /**
+   * Collect occluders whose cells overlap the given rectangle (each occluder once)
+   */
+  query(minX: number, minY: number, maxX: number, maxY: number): Occluder[] {
+    this.stamp++;
+    const result: Occluder[] = [];
+
+    this.forEachCell(minX, minY, maxX, maxY, (cell) => {
+      for (const occluder of this.cells[cell]) {
+        if (this.stamps[occluder.index] !== this.stamp) {
+          this.stamps[occluder.index] = this.stamp;
+          result.push(occluder);
+        }
+      }
+    });
+
+    return result;
+  }
+
+  private forEachCell(
+    minX: number,
+    minY: number,
+    maxX: number,
+    maxY: number,
+    callback: (cell: number) => void,
+  ): void {
+    const c0 = this.clampColumn(Math.floor((minX - this.minX) / this.cellSize));
+    const c1 = this.clampColumn(Math.floor((maxX - this.minX) / this.cellSize));
+    const r0 = this.clampRow(Math.floor((minY - this.minY) / this.cellSize));
+    const r1 = this.clampRow(Math.floor((maxY - this.minY) / this.cellSize));
+
+    for (let r = r0; r <= r1; r++) {
+      for (let c = c0; c <= c1; c++) {
+        callback(r * this.columns + c);
+      }
+    }
+  }
+
+  private clampColumn(column: number): number {
+    return Math.max(0, Math.min(this.columns - 1, column));
+  }
+
+  private clampRow(row: number): number {
+    return Math.max(0, Math.min(this.rows - 1, row));
+  }
+}
+
+/**
+ * Signed doubled area of a projected triangle (positive when counter-clockwise)
+ */
+function signedArea(a: ProjectedPoint, b: ProjectedPoint, c: ProjectedPoint): number {
+  return (b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x);
+}
+
+/**
+ * Prepare a projected triangle for occlusion tests.
+ * Returns null for triangles seen edge-on (zero projected area).
+ */
+function createOccluder(
+  triangle: ProjectedTriangle,
+  index: number,
+  areaEpsilon: number,
+): Occluder | null {
+  const { a, b, c } = triangle;
+  const area = signedArea(a, b, c);
+
+  if (Math.abs(area) <= areaEpsilon) return null;
+
+  // Solve depth = depthX * x + depthY * y + depth0 through the three corners
+  const depthX = ((b.depth - a.depth) * (c.y - a.y) - (c.depth - a.depth) * (b.y - a.y)) / area;
+  const depthY = ((c.depth - a.depth) * (b.x - a.x) - (b.depth - a.depth) * (c.x - a.x)) / area;
+  const depth0 = a.depth - depthX * a.x - depthY * a.y;
+
+  return {
+    index,
+    triangle,
+    minX: Math.min(a.x, b.x, c.x),
+    minY: Math.min(a.y, b.y, c.y),
+    maxX: Math.max(a.x, b.x, c.x),
+    maxY: Math.max(a.y, b.y, c.y),
+    depthX,
+    depthY,
+    depth0,
+    corners: area > 0 ? [a, b, c] : [a, c, b],
+  };
+}
+
+/**
+ * Build the occluder grid for all triangles of a view
+ */
+function buildOccluderGrid(triangles: ProjectedTriangle[], epsilon: number): OccluderGrid {
+  const occluders: Occluder[] = [];
+  for (const triangle of triangles) {
+    const occluder = createOccluder(triangle, occluders.length, epsilon * epsilon);
+    if (occluder) occluders.push(occluder);
+  }
+
+  let minX = Infinity,
+    minY = Infinity,
+    maxX = -Infinity,
+    maxY = -Infinity;
+  for (const occluder of occluders) {
+    minX = Math.min(minX, occluder.minX);
+    minY = Math.min(minY, occluder.minY);
+    maxX = Math.max(maxX, occluder.maxX);
+    maxY = Math.max(maxY, occluder.maxY);
+  }
+
+  if (occluders.length === 0) {
+    return new OccluderGrid([], 0, 0, 1, 1, 1);
+  }
+
+  // Aim for roughly one occluder per cell, capped to keep memory bounded
+  const divisions = Math.max(1, Math.min(256, Math.ceil(Math.sqrt(occluders.length))));
+  const cellSize = Math.max(maxX - minX, maxY - minY, epsilon) / divisions;
+  const columns = Math.max(1, Math.ceil((maxX - minX) / cellSize));
+  const rows = Math.max(1, Math.ceil((maxY - minY) / cellSize));
+
+  return new OccluderGrid(occluders, minX, minY, cellSize, columns, rows);
+}
+
+/**
+ * Parametric interval of a segment where the occluder lies in front of it
+ */
+function occludedInterval(
+  edge: ProjectedEdge,
+  occluder: Occluder,
+  epsilon: number,
+): Interval | null {
+  const { p0, p1 } = edge;
+  const dx = p1.x - p0.x;
+  const dy = p1.y - p0.y;
+
+  let tMin = 0;
+  let tMax = 1;
+
+  // Clip against the three inner half-planes (Cyrus-Beck). The triangle is grown by
+  // epsilon so that neighbouring occluders overlap instead of leaving slivers between them;
+  // coplanar geometry is kept visible by the depth test below
+  const [c0, c1, c2] = occluder.corners;
+  const borders: [ProjectedPoint, ProjectedPoint][] = [
+    [c0, c1],
+    [c1, c2],
+    [c2, c0],
+  ];
+
+  for (const [from, to] of borders) {
+    const ex = to.x - from.x;
+    const ey = to.y - from.y;
+    const length = Math.sqrt(ex * ex + ey * ey);
+    // Distance of a point from the border, positive inside the triangle
+    const start = (ex * (p0.y - from.y) - ey * (p0.x - from.x)) / length + epsilon;
+    const slope = (ex * dy - ey * dx) / length;
+
+    if (Math.abs(slope) < 1e-15) {
+      if (start <= 0) return null;
+      continue;
+    }
+
+    const t = -start / slope;
+    if (slope > 0) {
+      tMin = Math.max(tMin, t);
+    } else {
+      tMax = Math.min(tMax, t);
+    }
+    if (tMin >= tMax) return null;
+  }
+
+  // Depth gap (occluder minus edge) is linear along the segment
+  const gapAt = (t: number) => {
+    const x = p0.x + t * dx;
+    const y = p0.y + t * dy;
+    const edgeDepth = p0.depth + t * (p1.depth - p0.depth);
+    return occluder.depthX * x + occluder.depthY * y + occluder.depth0 - edgeDepth;
+  };
+
+  // Growing the triangle by epsilon lets the gap change by epsilon times the depth slopes of
+  // the occluder and the edge, which are large for geometry seen almost edge-on
+  const edgeSlope = Math.abs(p1.depth - p0.depth) / Math.hypot(dx, dy);
+  const tolerance = epsilon * (1 + Math.hypot(occluder.depthX, occluder.depthY) + edgeSlope);
+  const gapStart = gapAt(tMin) - tolerance;
+  const gapEnd = gapAt(tMax) - tolerance;
+
+  if (gapStart <= 0 && gapEnd <= 0) return null;
+  if (gapStart > 0 && gapEnd > 0) return [tMin, tMax];
+
+  const tCross = tMin + ((tMax - tMin) * gapStart) / (gapStart - gapEnd);
+  return gapStart > 0 ? [tMin, tCross] : [tCross, tMax];
+}
+
+/**
+ * Merge overlapping or touching intervals (sorted by start)
+ */
+function mergeIntervals(intervals: Interval[], gap: number): Interval[] {
+  const sorted = [...intervals].sort((a, b) => a[0] - b[0]);
+  const merged: Interval[] = [];
+
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && interval[0] <= last[1] + gap) {
+      last[1] = Math.max(last[1], interval[1]);
+    } else {
+      merged.push([interval[0], interval[1]]);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Point on a projected segment at parameter t
+ */
+function pointAt(edge: ProjectedEdge, t: number): { x: number; y: number } {
+  return {
+    x: edge.p0.x + t * (edge.p1.x - edge.p0.x),
+    y: edge.p0.y + t * (edge.p1.y - edge.p0.y),
+  };
+}
+
+/**
+ * Split projected edges into the parts that are visible and the parts covered by other faces.
+ *
+ * @param edges - Candidate edges in view space
+ * @param triangles - All mesh triangles in view space
+ * @param epsilon - Absolute tolerance in model units for coverage and depth tests
+ * @returns Uncovered and covered parts of the edges as 2D segments
+ */
+export function removeHiddenLines(
+  edges: ProjectedEdge[],
+  triangles: ProjectedTriangle[],
+  epsilon: number,
+): HiddenLineResult {
+  const grid = buildOccluderGrid(triangles, epsilon);
+  const visible: Segment2D[] = [];
+  const hidden: Segment2D[] = [];
+
+  for (const edge of edges) {
+    const length = Math.hypot(edge.p1.x - edge.p0.x, edge.p1.y - edge.p0.y);
+    if (length <= epsilon) continue;
+
+    const candidates = grid.query(
+      Math.min(edge.p0.x, edge.p1.x),
+      Math.min(edge.p0.y, edge.p1.y),
+      Math.max(edge.p0.x, edge.p1.x),
+      Math.max(edge.p0.y, edge.p1.y),
+    );
+
+    const covered: Interval[] = [];
+    for (const occluder of candidates) {
+      // Faces the edge belongs to never hide it
+      if (edge.faces.includes(occluder.triangle.face)) continue;
+
+      const interval = occludedInterval(edge, occluder, epsilon);
+      if (interval) covered.push(interval);
+    }
+
+    // Ignore fragments only a few tolerances long (numerical leftovers at occluder borders)
+    const gap = (10 * epsilon) / length;
+    let cursor = 0;
+    for (const [start, end] of mergeIntervals(covered, gap)) {
+      if (start - cursor > gap) {
+        visible.push({ p0: pointAt(edge, cursor), p1: pointAt(edge, start), body: edge.body });
+      }
+      const hiddenStart = Math.max(cursor, start);
+      if (end - hiddenStart > gap) {
+        hidden.push({ p0: pointAt(edge, hiddenStart), p1: pointAt(edge, end), body: edge.body });
+      }
+      cursor = Math.max(cursor, end);
+    }
+    if (1 - cursor > gap) {
+      visible.push({ p0: pointAt(edge, cursor), p1: pointAt(edge, 1), body: edge.body });
+    }
+  }
+
+  return { visible, hidden };
+}
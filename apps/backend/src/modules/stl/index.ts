@@ -1,4 +1,27 @@
 export { stlRouter } from './router';
+export { uploadRouter } from './upload';
 export { parseSTL } from './stl-parser';
-export { generateProjections } from './projection-engine';
-export type { Mesh, Face, Vector3 } from './stl-parser';
+export { parseOBJ } from './obj-parser';
+export { parse3MF } from './3mf-parser';
+export { parsePLY } from './ply-parser';
+export { detectModelFormat, parseModel } from './model-parser';
+export type { ParsedModel } from './parse-warnings';
+export { createMeshBuilder, normalizeMesh, vertexCount, faceCount, getVertex, getFaceNormal } from './mesh';
+export {
+  generateProjections,
+  generateProjection,
+  generateCustomProjection,
+  generateSectionProjection,
+  ENGINE_VERSION,
+} from './projection-engine';
+export { viewToDxf } from './dxf-export';
+export { viewsToPdf } from './pdf-export';
+export { processUpload } from './processing';
+export { startJob, getJob, cancelJob, watchJob } from './jobs';
+export { runInPool, getPoolStats } from './worker-pool';
+export { clearResultCache, getResultCacheStats } from './result-cache';
+export type { Mesh, MeshBuilder, Vector3 } from './mesh';
+export type { ProjectionOptions, ProjectionStage } from './projection-engine';
+export type { ProcessingUpdate } from './processing';
+export type { DxfExportOptions } from './dxf-export';
+export type { PdfExportOptions } from './pdf-export';
@@ -0,0 +1,70 @@
+import type { JobProgress, ProcessingResult, UploadStlOptions } from '@stl2d/contracts';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { cancelJob, getJob, startJob, watchJob } from './jobs';
+import { processUpload } from './processing';
+
+vi.mock('./processing', () => ({ processUpload: vi.fn() }));
+
+const options: UploadStlOptions = { fileName: 'part.stl', unit: 'mm', normalize: false };
+
+async function collect(jobId: string): Promise<JobProgress[]> {
+  const events: JobProgress[] = [];
+  for await (const event of watchJob(jobId)) events.push(event);
+  return events;
+}
+
+beforeEach(() => {
+  vi.mocked(processUpload).mockReset();
+});
+
+describe('processing jobs', () => {
+  it('publishes the stages of a job until it completes', async () => {
+    vi.mocked(processUpload).mockImplementation(async (_file, _options, report) => {
+      report!({ stage: 'parsing', progress: 0 });
+      report!({ stage: 'projecting', progress: 0.5 });
+      return { modelId: 'model-1', cached: false } as ProcessingResult;
+    });
+
+    const started = startJob(Buffer.from('solid'), options);
+    expect(started).toMatchObject({ fileName: 'part.stl', status: 'running', stage: 'queued' });
+
+    const events = await collect(started.jobId);
+    expect(events.map(({ stage, status }) => `${stage}:${status}`)).toEqual([
+      'queued:running',
+      'parsing:running',
+      'projecting:running',
+      'projecting:completed',
+    ]);
+    expect(getJob(started.jobId)).toMatchObject({ status: 'completed', progress: 1, modelId: 'model-1' });
+  });
+
+  it('reports the error of a failed job', async () => {
+    vi.mocked(processUpload).mockRejectedValue(new Error('STL parsing failed: No valid faces in STL'));
+
+    const { jobId } = startJob(Buffer.from('solid'), options);
+    const events = await collect(jobId);
+
+    expect(events.at(-1)).toMatchObject({ status: 'failed', error: 'STL parsing failed: No valid faces in STL' });
+  });
+
+  it('cancels a running job through its abort signal', async () => {
+    vi.mocked(processUpload).mockImplementation(
+      (_file, _options, _report, signal) =>
+        new Promise((_resolve, reject) => {
+          if (signal!.aborted) reject(signal!.reason);
+          signal!.addEventListener('abort', () => reject(signal!.reason));
+        }),
+    );
+
+    const { jobId } = startJob(Buffer.from('solid'), options);
+    const events = collect(jobId);
+    expect(cancelJob(jobId)).toBe(true);
+
+    expect((await events).at(-1)?.status).toBe('cancelled');
+    expect(cancelJob(jobId)).toBe(false);
+  });
+
+  it('fails for unknown jobs', () => {
+    expect(() => getJob('missing')).toThrow('Job missing not found');
+  });
+});
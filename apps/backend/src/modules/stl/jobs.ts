@@ -0,0 +1,134 @@
+/**
+ * Processing Jobs - Runs uploads in the background and publishes their progress
+ *
+ * A job is created for every upload and processed without blocking the request.
+ * Progress events are kept per job, so subscribers joining late start from the
+ * latest state. Finished jobs are forgotten after a while; their models stay stored.
+ */
+
+import { EventEmitter, on } from 'node:events';
+import { setImmediate as yieldToEventLoop } from 'node:timers/promises';
+import { nanoid } from 'nanoid';
+import type { JobProgress, UploadStlOptions } from '@stl2d/contracts';
+import { processUpload } from './processing';
+
+interface Job {
+  /** Latest progress event */
+  progress: JobProgress;
+  controller: AbortController;
+  events: EventEmitter;
+}
+
+/** How long finished jobs can still be queried */
+const FINISHED_JOB_TTL = 10 * 60 * 1000;
+
+const jobs = new Map<string, Job>();
+
+function isFinished(progress: JobProgress): boolean {
+  return progress.status !== 'running';
+}
+
+function findJob(jobId: string): Job {
+  const job = jobs.get(jobId);
+  if (!job) {
+    throw new Error(`Job ${jobId} not found`);
+  }
+  return job;
+}
+
+function publish(job: Job, update: Partial<JobProgress>): void {
+  job.progress = { ...job.progress, ...update };
+  job.events.emit('progress', job.progress);
+
+  if (isFinished(job.progress)) {
+    setTimeout(() => jobs.delete(job.progress.jobId), FINISHED_JOB_TTL).unref();
+  }
+}
+
+async function runJob(job: Job, file: Buffer, options: UploadStlOptions): Promise<void> {
+  const { signal } = job.controller;
+
+  try {
+    // Answer the upload request before processing starts
+    await yieldToEventLoop();
+    const result = await processUpload(file, options, (update) => publish(job, update), signal);
+    publish(job, { status: 'completed', progress: 1, modelId: result.modelId, cached: result.cached });
+  } catch (error) {
+    if (signal.aborted) {
+      publish(job, { status: 'cancelled' });
+    } else {
+      publish(job, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
+
+/**
+ * Start processing an uploaded file in the background
+ *
+ * @returns The initial progress event of the new job
+ */
+export function startJob(file: Buffer, options: UploadStlOptions): JobProgress {
+  const job: Job = {
+    progress: {
+      jobId: nanoid(),
+      fileName: options.fileName,
+      status: 'running',
+      stage: 'queued',
+      progress: 0,
+    },
+    controller: new AbortController(),
+    events: new EventEmitter(),
+  };
+  jobs.set(job.progress.jobId, job);
+
+  void runJob(job, file, options);
+  return job.progress;
+}
+
+/**
+ * Latest progress of a job
+ */
+export function getJob(jobId: string): JobProgress {
+  return findJob(jobId).progress;
+}
+
+/**
+ * Stop a running job; its worker tasks are terminated
+ *
+ * @returns Whether the job was still running
+ */
+export function cancelJob(jobId: string): boolean {
+  const job = findJob(jobId);
+  if (isFinished(job.progress)) return false;
+
+  job.controller.abort();
+  return true;
+}
+
+/**
+ * Progress events of a job, starting with its latest state and ending once it finished
+ */
+export async function* watchJob(jobId: string, signal?: AbortSignal): AsyncGenerator<JobProgress> {
+  const job = findJob(jobId);
+  // Listen before yielding the current state, so no event is missed in between
+  const events = on(job.events, 'progress', { signal });
+
+  try {
+    yield job.progress;
+    if (isFinished(job.progress)) return;
+
+    for await (const [progress] of events) {
+      yield progress as JobProgress;
+      if (isFinished(progress as JobProgress)) return;
+    }
+  } catch (error) {
+    // The subscriber went away
+    if (signal?.aborted) return;
+    throw error;
+  } finally {
+    await events.return?.();
+  }
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { box, toMesh } from '@/test/meshes';
+import { createMeshBuilder, faceCount, normalizeMesh, removeDegenerateFaces, vertexCount } from './mesh';
+
+const up = { x: 0, y: 0, z: 1 };
+
+describe('createMeshBuilder', () => {
+  it('welds vertices with equal float32 coordinates', () => {
+    const builder = createMeshBuilder();
+    const a = builder.addVertex(0, 0, 0);
+
+    expect(builder.addVertex(-0, 0, 0)).toBe(a);
+    expect(builder.addVertex(0.1, 0, 0)).toBe(builder.addVertex(Math.fround(0.1), 0, 0));
+    expect(builder.addVertex(0, 0, 1e-6)).not.toBe(a);
+  });
+
+  it('grows past its capacity hint', () => {
+    const builder = createMeshBuilder(1);
+    for (let i = 0; i < 100; i++) {
+      builder.addFace(builder.addVertex(i, 0, 0), builder.addVertex(i + 1, 0, 0), builder.addVertex(i, 1, 0), up);
+    }
+    const mesh = builder.build();
+
+    expect(faceCount(mesh)).toBe(100);
+    expect(vertexCount(mesh)).toBe(201);
+    expect(mesh.bounds).toEqual({ min: { x: 0, y: 0, z: 0 }, max: { x: 100, y: 1, z: 0 } });
+  });
+
+  it('puts faces into the body started last and drops bodies without faces', () => {
+    const builder = createMeshBuilder();
+    const [a, b, c] = [builder.addVertex(0, 0, 0), builder.addVertex(1, 0, 0), builder.addVertex(0, 1, 0)];
+    builder.startBody('empty');
+    builder.startBody('first');
+    builder.addFace(a, b, c, up);
+    builder.startBody('second');
+    builder.addFace(a, c, b, up);
+    const mesh = builder.build();
+
+    expect(mesh.bodies).toEqual(['first', 'second']);
+    expect(Array.from(mesh.faceBodies)).toEqual([0, 1]);
+  });
+});
+
+describe('removeDegenerateFaces', () => {
+  it('drops faces without area and keeps the bodies of the rest', () => {
+    const builder = createMeshBuilder();
+    const [a, b, c, d] = [[0, 0, 0], [1, 0, 0], [0, 1, 0], [2, 0, 0]].map(([x, y, z]) => builder.addVertex(x, y, z));
+    builder.startBody('sliver');
+    builder.addFace(a, b, d, up);
+    builder.startBody('triangle');
+    builder.addFace(a, b, c, up);
+    const mesh = removeDegenerateFaces(builder.build());
+
+    expect(faceCount(mesh)).toBe(1);
+    expect(mesh.bodies).toEqual(['triangle']);
+  });
+});
+
+describe('normalizeMesh', () => {
+  it('centers the mesh and scales its largest side to one', () => {
+    const mesh = normalizeMesh(toMesh(box([10, 0, 0], [30, 10, 5])));
+
+    expect(mesh.bounds.min).toEqual({ x: -0.5, y: -0.25, z: -0.125 });
+    expect(mesh.bounds.max).toEqual({ x: 0.5, y: 0.25, z: 0.125 });
+  });
+});
@@ -0,0 +1,335 @@
+/**
+ * Mesh - Indexed triangle mesh stored in flat typed arrays
+ *
+ * Vertices and faces live in Float32Array and Uint32Array buffers rather than one
+ * object per element, which keeps multi-million triangle models compact and lets
+ * the buffers be transferred to worker threads without copying.
+ */
+
+export interface Vector3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface Mesh {
+  /** Vertex coordinates as x, y, z triples */
+  positions: Float32Array;
+  /** Vertex indices, three per face */
+  indices: Uint32Array;
+  /** Face normals as x, y, z triples, as stored in the file */
+  normals: Float32Array;
+  /** Body index of each face */
+  faceBodies: Uint32Array;
+  /** Names of the bodies (separate solids) of the model; empty for unnamed bodies */
+  bodies: string[];
+  bounds: {
+    min: Vector3;
+    max: Vector3;
+  };
+}
+
+/** Incrementally built mesh that welds vertices with identical coordinates */
+export interface MeshBuilder {
+  /** Index of the vertex at these coordinates, added if not seen before */
+  addVertex(x: number, y: number, z: number): number;
+  addFace(a: number, b: number, c: number, normal: Vector3): void;
+  /** Start a new body; faces added afterwards belong to it. Faces added before any body form an unnamed one. */
+  startBody(name: string): void;
+  build(): Mesh;
+}
+
+export function vertexCount(mesh: Mesh): number {
+  return mesh.positions.length / 3;
+}
+
+export function faceCount(mesh: Mesh): number {
+  return mesh.indices.length / 3;
+}
+
+export function getVertex(mesh: Mesh, index: number): Vector3 {
+  const { positions } = mesh;
+  return { x: positions[index * 3], y: positions[index * 3 + 1], z: positions[index * 3 + 2] };
+}
+
+export function getFaceNormal(mesh: Mesh, face: number): Vector3 {
+  const { normals } = mesh;
+  return { x: normals[face * 3], y: normals[face * 3 + 1], z: normals[face * 3 + 2] };
+}
+
+/**
+ * Calculate the bounding box of vertex coordinates
+ */
+export function calculateBounds(positions: Float32Array): Mesh['bounds'] {
+  if (positions.length === 0) {
+    return {
+      min: { x: 0, y: 0, z: 0 },
+      max: { x: 0, y: 0, z: 0 },
+    };
+  }
+
+  let minX = positions[0],
+    minY = positions[1],
+    minZ = positions[2];
+  let maxX = minX,
+    maxY = minY,
+    maxZ = minZ;
+
+  for (let i = 3; i < positions.length; i += 3) {
+    const x = positions[i];
+    const y = positions[i + 1];
+    const z = positions[i + 2];
+    if (x < minX) minX = x;
+    if (x > maxX) maxX = x;
+    if (y < minY) minY = y;
+    if (y > maxY) maxY = y;
+    if (z < minZ) minZ = z;
+    if (z > maxZ) maxZ = z;
+  }
+
+  return {
+    min: { x: minX, y: minY, z: minZ },
+    max: { x: maxX, y: maxY, z: maxZ },
+  };
+}
+
+/**
+ * Drop bodies without faces, renumbering the remaining ones
+ */
+export function dropEmptyBodies(bodies: string[], faceBodies: Uint32Array): Pick<Mesh, 'bodies' | 'faceBodies'> {
+  const used = new Uint8Array(bodies.length);
+  for (const body of faceBodies) used[body] = 1;
+  if (used.every(Boolean)) return { bodies, faceBodies };
+
+  const renumbered = new Uint32Array(bodies.length);
+  const kept: string[] = [];
+  bodies.forEach((name, body) => {
+    if (used[body]) {
+      renumbered[body] = kept.length;
+      kept.push(name);
+    }
+  });
+  return { bodies: kept, faceBodies: faceBodies.map((body) => renumbered[body]) };
+}
+
+/**
+ * Remove degenerate triangles (area < epsilon)
+ */
+export function removeDegenerateFaces(mesh: Mesh, epsilon: number = 1e-10): Mesh {
+  const { positions, indices, normals, faceBodies } = mesh;
+  const keptIndices = new Uint32Array(indices.length);
+  const keptNormals = new Float32Array(normals.length);
+  const keptBodies = new Uint32Array(faceBodies.length);
+  let kept = 0;
+
+  for (let face = 0; face < indices.length; face += 3) {
+    const i0 = indices[face] * 3;
+    const i1 = indices[face + 1] * 3;
+    const i2 = indices[face + 2] * 3;
+
+    // Calculate triangle area using cross product
+    const e1x = positions[i1] - positions[i0];
+    const e1y = positions[i1 + 1] - positions[i0 + 1];
+    const e1z = positions[i1 + 2] - positions[i0 + 2];
+    const e2x = positions[i2] - positions[i0];
+    const e2y = positions[i2 + 1] - positions[i0 + 1];
+    const e2z = positions[i2 + 2] - positions[i0 + 2];
+
+    const cx = e1y * e2z - e1z * e2y;
+    const cy = e1z * e2x - e1x * e2z;
+    const cz = e1x * e2y - e1y * e2x;
+
+    if (Math.sqrt(cx * cx + cy * cy + cz * cz) > epsilon) {
+      keptIndices.set(indices.subarray(face, face + 3), kept);
+      keptNormals.set(normals.subarray(face, face + 3), kept);
+      keptBodies[kept / 3] = faceBodies[face / 3];
+      kept += 3;
+    }
+  }
+
+  return {
+    positions,
+    indices: keptIndices.slice(0, kept),
+    normals: keptNormals.slice(0, kept),
+    ...dropEmptyBodies(mesh.bodies, keptBodies.slice(0, kept / 3)),
+    bounds: mesh.bounds,
+  };
+}
+
+/**
+ * Normalize mesh: center at origin and scale to unit cube
+ */
+export function normalizeMesh(mesh: Mesh): Mesh {
+  const bounds = mesh.bounds;
+  const size = Math.max(
+    bounds.max.x - bounds.min.x,
+    bounds.max.y - bounds.min.y,
+    bounds.max.z - bounds.min.z,
+  );
+
+  if (size === 0) {
+    throw new Error('Mesh has zero size');
+  }
+
+  const center = [
+    (bounds.min.x + bounds.max.x) / 2,
+    (bounds.min.y + bounds.max.y) / 2,
+    (bounds.min.z + bounds.max.z) / 2,
+  ];
+
+  const scale = 1 / size;
+
+  const positions = new Float32Array(mesh.positions.length);
+  for (let i = 0; i < positions.length; i++) {
+    positions[i] = (mesh.positions[i] - center[i % 3]) * scale;
+  }
+
+  return {
+    positions,
+    indices: mesh.indices,
+    normals: mesh.normals,
+    faceBodies: mesh.faceBodies,
+    bodies: mesh.bodies,
+    bounds: calculateBounds(positions),
+  };
+}
+
+/**
+ * Copy of a typed array in shared memory, which worker threads read without copying it
+ */
+export function shareArray<T extends Float32Array | Uint32Array>(array: T): T {
+  const Array = array.constructor as new (buffer: SharedArrayBuffer) => T;
+  const shared = new Array(new SharedArrayBuffer(array.byteLength));
+  shared.set(array);
+  return shared;
+}
+
+/**
+ * Copy of a mesh in shared memory, so that several worker tasks can read it at once;
+ * shared buffers are never listed as transferables
+ */
+export function shareMesh(mesh: Mesh): Mesh {
+  return {
+    positions: shareArray(mesh.positions),
+    indices: shareArray(mesh.indices),
+    normals: shareArray(mesh.normals),
+    faceBodies: shareArray(mesh.faceBodies),
+    bodies: [...mesh.bodies],
+    bounds: { min: { ...mesh.bounds.min }, max: { ...mesh.bounds.max } },
+  };
+}
+
+/**
+ * Buffers of a mesh to list as transferables; transferring detaches them on the sending side
+ */
+export function meshTransferList(mesh: Mesh): ArrayBuffer[] {
+  return [mesh.positions.buffer, mesh.indices.buffer, mesh.normals.buffer, mesh.faceBodies.buffer] as ArrayBuffer[];
+}
+
+function grow<T extends Float32Array | Uint32Array>(array: T, minLength: number): T {
+  if (array.length >= minLength) return array;
+  const grown = new (array.constructor as new (length: number) => T)(Math.max(minLength, array.length * 2));
+  grown.set(array);
+  return grown;
+}
+
+/**
+ * Create a mesh builder. Vertices are welded through an open-addressing hash table
+ * keyed by the bit patterns of their float32 coordinates, so only exactly equal
+ * positions are merged.
+ *
+ * @param expectedFaces - Capacity hint to avoid regrowing the buffers
+ */
+export function createMeshBuilder(expectedFaces = 1024): MeshBuilder {
+  let positions = new Float32Array(Math.max(expectedFaces, 16) * 3);
+  let indices = new Uint32Array(Math.max(expectedFaces, 16) * 3);
+  let normals = new Float32Array(Math.max(expectedFaces, 16) * 3);
+  let faceBodies = new Uint32Array(Math.max(expectedFaces, 16));
+  const bodies: string[] = [];
+  let vertices = 0;
+  let faces = 0;
+
+  // Slots hold vertex index + 1, zero marks an empty slot; kept at most half full
+  let table = new Uint32Array(1 << Math.ceil(Math.log2(Math.max(expectedFaces, 16) * 2)));
+  const scratch = new Float32Array(3);
+  const bits = new Uint32Array(scratch.buffer);
+
+  const hash = (): number =>
+    (Math.imul(bits[0], 0x8da6b343) ^ Math.imul(bits[1], 0xd8163841) ^ Math.imul(bits[2], 0xcb1ab31f)) >>> 0;
+
+  const insert = (index: number) => {
+    scratch[0] = positions[index * 3];
+    scratch[1] = positions[index * 3 + 1];
+    scratch[2] = positions[index * 3 + 2];
+    const mask = table.length - 1;
+    let slot = hash() & mask;
+    while (table[slot] !== 0) slot = (slot + 1) & mask;
+    table[slot] = index + 1;
+  };
+
+  const rehash = () => {
+    table = new Uint32Array(table.length * 2);
+    for (let i = 0; i < vertices; i++) insert(i);
+  };
+
+  return {
+    addVertex(x, y, z) {
+      // Adding zero turns -0 into 0, so both weld like equal numbers
+      scratch[0] = x + 0;
+      scratch[1] = y + 0;
+      scratch[2] = z + 0;
+
+      const mask = table.length - 1;
+      let slot = hash() & mask;
+      for (let entry = table[slot]; entry !== 0; entry = table[slot]) {
+        const offset = (entry - 1) * 3;
+        if (
+          positions[offset] === scratch[0] &&
+          positions[offset + 1] === scratch[1] &&
+          positions[offset + 2] === scratch[2]
+        ) {
+          return entry - 1;
+        }
+        slot = (slot + 1) & mask;
+      }
+
+      const index = vertices++;
+      positions = grow(positions, vertices * 3);
+      positions.set(scratch, index * 3);
+      table[slot] = index + 1;
+      if (vertices * 2 > table.length) rehash();
+      return index;
+    },
+
+    addFace(a, b, c, normal) {
+      if (bodies.length === 0) bodies.push('');
+      faceBodies = grow(faceBodies, faces + 1);
+      faceBodies[faces] = bodies.length - 1;
+
+      const offset = faces++ * 3;
+      indices = grow(indices, faces * 3);
+      normals = grow(normals, faces * 3);
+      indices[offset] = a;
+      indices[offset + 1] = b;
+      indices[offset + 2] = c;
+      normals[offset] = normal.x;
+      normals[offset + 1] = normal.y;
+      normals[offset + 2] = normal.z;
+    },
+
+    startBody(name) {
+      bodies.push(name);
+    },
+
+    build() {
+      const finalPositions = positions.slice(0, vertices * 3);
+      return {
+        positions: finalPositions,
+        indices: indices.slice(0, faces * 3),
+        normals: normals.slice(0, faces * 3),
+        ...dropEmptyBodies(bodies, faceBodies.slice(0, faces)),
+        bounds: calculateBounds(finalPositions),
+      };
+    },
+  };
+}
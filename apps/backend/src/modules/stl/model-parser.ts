@@ -0,0 +1,87 @@
+/**
+ * Model Parser - Detects the format of uploaded model files and parses them into meshes
+ *
+ * The content decides the format when it is recognizable, so a misnamed file still
+ * parses; otherwise the file name extension does.
+ */
+
+import {
+  MODEL_FORMATS,
+  MODEL_FORMAT_EXTENSIONS,
+  MODEL_FORMAT_LABELS,
+  type LengthUnit,
+  type ModelFormat,
+} from '@stl2d/contracts';
+import type { ParsedModel } from './parse-warnings';
+import { parseSTL } from './stl-parser';
+import { parseOBJ } from './obj-parser';
+import { parse3MF } from './3mf-parser';
+import { parsePLY } from './ply-parser';
+import { ZIP_SIGNATURE } from './zip-reader';
+
+/** Number of leading bytes inspected to recognize text formats */
+const SNIFF_LENGTH = 4096;
+
+/** Parsers by format; formats that declare their unit convert to the given one */
+const PARSERS: Record<ModelFormat, (file: Buffer, unit: LengthUnit) => ParsedModel> = {
+  stl: parseSTL,
+  obj: parseOBJ,
+  '3mf': parse3MF,
+  ply: parsePLY,
+};
+
+/**
+ * Format recognized from the file content, if any
+ */
+function sniffFormat(file: Buffer): ModelFormat | null {
+  // 3MF packages are the only zip archives among the supported formats
+  if (file.subarray(0, ZIP_SIGNATURE.length).equals(ZIP_SIGNATURE)) return '3mf';
+  // PLY headers are text even when the data is binary
+  if (/^ply\r?\n/.test(file.toString('latin1', 0, 5))) return 'ply';
+
+  // Binary STL: the size follows from the triangle count after the 80-byte header
+  if (file.length >= 84 && file.length === 84 + file.readUInt32LE(80) * 50) return 'stl';
+
+  const head = file.toString('latin1', 0, Math.min(file.length, SNIFF_LENGTH));
+  if (head.includes('\0')) return null;
+  if (/^\s*solid\b/i.test(head) && /\bfacet\b/.test(head)) return 'stl';
+  if (/^[ \t]*(v|vn|vt|f|o|g|mtllib|usemtl)[ \t]/m.test(head)) return 'obj';
+  return null;
+}
+
+function formatFromFileName(fileName: string): ModelFormat | null {
+  const name = fileName.toLowerCase();
+  return MODEL_FORMATS.find((format) => MODEL_FORMAT_EXTENSIONS[format].some((ext) => name.endsWith(ext))) ?? null;
+}
+
+const SUPPORTED_FORMATS = MODEL_FORMATS.map((format) => MODEL_FORMAT_LABELS[format]).join(', ');
+
+/** Error message for files of no supported format */
+export const UNSUPPORTED_FORMAT_MESSAGE = `Unsupported model format, expected one of ${SUPPORTED_FORMATS}`;
+
+/**
+ * Format of a model file from its content and name, or null if it is not supported
+ */
+export function findModelFormat(file: Buffer, fileName: string): ModelFormat | null {
+  return sniffFormat(file) ?? formatFromFileName(fileName);
+}
+
+/**
+ * Determine the format of a model file, failing for unsupported files
+ */
+export function detectModelFormat(file: Buffer, fileName: string): ModelFormat {
+  const format = findModelFormat(file, fileName);
+  if (!format) {
+    throw new Error(UNSUPPORTED_FORMAT_MESSAGE);
+  }
+  return format;
+}
+
+/**
+ * Parse a model file of the given format, with the warnings about what had to be dropped
+ *
+ * @param unit - Unit of the upload, which coordinates are converted to when the file declares its own
+ */
+export function parseModel(file: Buffer, format: ModelFormat, unit: LengthUnit): ParsedModel {
+  return PARSERS[format](file, unit);
+}
@@ -0,0 +1,117 @@
+/**
+ * Model Store - Keeps uploaded models and their generated views on disk
+ *
+ * Every model has a directory named by its id, holding the original file, its
+ * metadata and the generated views as JSON. The storage location is taken from
+ * MODEL_STORAGE_DIR and defaults to data/models in the working directory.
+ */
+
+import { mkdir, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { ModelSummary, ProjectionView } from '@stl2d/contracts';
+
+/** Stored model as kept on disk */
+export interface StoredModel {
+  summary: ModelSummary;
+  views: ProjectionView[];
+  /** Original uploaded file */
+  file: Buffer;
+}
+
+const STORAGE_DIR = path.resolve(process.env.MODEL_STORAGE_DIR ?? path.join('data', 'models'));
+
+const FILE_NAMES = {
+  file: 'model.bin',
+  summary: 'metadata.json',
+  views: 'views.json',
+};
+
+function modelDir(modelId: string): string {
+  // Ids are validated by the router; this guards against reaching outside the storage directory
+  if (!/^[\w-]+$/.test(modelId)) {
+    throw new Error(`Invalid model id: ${modelId}`);
+  }
+  return path.join(STORAGE_DIR, modelId);
+}
+
+function isNotFound(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+}
+
+/**
+ * Store a model, replacing any model with the same id
+ */
+export async function saveModel({ summary, views, file }: StoredModel): Promise<void> {
+  const dir = modelDir(summary.modelId);
+  await mkdir(dir, { recursive: true });
+  await writeFile(path.join(dir, FILE_NAMES.file), file);
+  await writeFile(path.join(dir, FILE_NAMES.views), JSON.stringify(views));
+  // Metadata is written last, so that listing only finds complete models
+  await writeFile(path.join(dir, FILE_NAMES.summary), JSON.stringify(summary, null, 2));
+}
+
+/**
+ * Load a stored model
+ *
+ * @returns The model, or null if no model with this id exists
+ */
+export async function loadModel(modelId: string): Promise<StoredModel | null> {
+  const dir = modelDir(modelId);
+  try {
+    const [summary, views, file] = await Promise.all([
+      readFile(path.join(dir, FILE_NAMES.summary), 'utf8'),
+      readFile(path.join(dir, FILE_NAMES.views), 'utf8'),
+      readFile(path.join(dir, FILE_NAMES.file)),
+    ]);
+    return { summary: JSON.parse(summary), views: JSON.parse(views), file };
+  } catch (error) {
+    if (isNotFound(error)) return null;
+    throw error;
+  }
+}
+
+/**
+ * Metadata of all stored models, newest first
+ */
+export async function listModels(): Promise<ModelSummary[]> {
+  let entries: string[];
+  try {
+    entries = await readdir(STORAGE_DIR);
+  } catch (error) {
+    if (isNotFound(error)) return [];
+    throw error;
+  }
+
+  const summaries = await Promise.all(
+    entries.map(async (entry) => {
+      try {
+        const summary = await readFile(path.join(STORAGE_DIR, entry, FILE_NAMES.summary), 'utf8');
+        return JSON.parse(summary) as ModelSummary;
+      } catch {
+        // Incomplete or foreign directories are skipped
+        return null;
+      }
+    }),
+  );
+
+  return summaries
+    .filter((summary): summary is ModelSummary => summary !== null)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Delete a stored model
+ *
+ * @returns Whether a model with this id existed
+ */
+export async function deleteModel(modelId: string): Promise<boolean> {
+  const dir = modelDir(modelId);
+  try {
+    await readFile(path.join(dir, FILE_NAMES.summary));
+  } catch (error) {
+    if (isNotFound(error)) return false;
+    throw error;
+  }
+  await rm(dir, { recursive: true, force: true });
+  return true;
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { faceCount } from './mesh';
+import { parseOBJ } from './obj-parser';
+
+function obj(...lines: string[]): Buffer {
+  return Buffer.from(lines.join('\n') + '\n');
+}
+
+const square = ['v 0 0 0', 'v 10 0 0', 'v 10 10 0', 'v 0 10 0'];
+
+describe('parseOBJ', () => {
+  it('triangulates polygon faces and ignores texture and normal references', () => {
+    const { mesh, warnings } = parseOBJ(obj(...square, 'vt 0 0', 'vn 0 0 1', 'f 1/1/1 2/1/1 3/1/1 4/1/1'));
+
+    expect(faceCount(mesh)).toBe(2);
+    expect(Array.from(mesh.normals)).toEqual([0, 0, 1, 0, 0, 1]);
+    expect(warnings).toEqual([]);
+  });
+
+  it('resolves negative indices against the last vertex read', () => {
+    const { mesh } = parseOBJ(obj(...square, 'f -4 -3 -2', 'f -4 -2 -1'));
+
+    expect(faceCount(mesh)).toBe(2);
+    expect(mesh.bounds.max).toEqual({ x: 10, y: 10, z: 0 });
+  });
+
+  it('makes a body of every object and group', () => {
+    const { mesh } = parseOBJ(
+      obj(
+        ...square,
+        'v 0 0 5',
+        'o base',
+        'f 1 2 3',
+        'g',
+        'g lid',
+        'f 1 3 5',
+        'o empty',
+        'g side',
+        'f 1 2 5',
+      ),
+    );
+
+    expect(mesh.bodies).toEqual(['base', 'lid', 'side']);
+    expect(Array.from(mesh.faceBodies)).toEqual([0, 1, 2]);
+  });
+
+  it('keeps faces before the first group in an unnamed body', () => {
+    const { mesh } = parseOBJ(obj(...square, 'f 1 2 3', 'g top', 'f 1 3 4'));
+
+    expect(mesh.bodies).toEqual(['', 'top']);
+  });
+
+  it('rejects references to missing vertices', () => {
+    expect(() => parseOBJ(obj(...square, 'f 1 2 7'))).toThrow('Invalid vertex reference 7 at line 5');
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * OBJ Parser - Reads the geometry of Wavefront OBJ files
+ *
+ * Only vertex positions, faces, objects and groups are used. Polygon faces are
+ * triangulated, face indices may be negative (relative to the last vertex read),
+ * and every object (`o`) or group (`g`) line starts a body named after it. Face
+ * normals are computed from the winding order, so `vn` normals are not needed.
+ * Vertices with identical positions are welded, closing the seams that texture
+ * coordinates split OBJ meshes along.
+ */
+
+import type { ParseWarning } from '@stl2d/contracts';
+import { createMeshBuilder, faceCount } from './mesh';
+import { cleanParsedMesh, type ParsedModel } from './parse-warnings';
+import { forEachLine, hasKeyword, isComment, parseNumber, readTriple, skipBlanks, tokenEnd } from './text-reader';
+import { triangleNormal, triangulatePolygon } from './triangulation';
+
+const VERTEX = Buffer.from('v');
+const FACE = Buffer.from('f');
+const OBJECT = Buffer.from('o');
+const GROUP = Buffer.from('g');
+const SLASH = 0x2f;
+
+/**
+ * Parse Wavefront OBJ geometry
+ */
+export function parseOBJ(buffer: Buffer): ParsedModel {
+  try {
+    // Flat coordinates of the OBJ vertices, and the mesh vertex each one became once referenced
+    const coordinates: number[] = [];
+    const meshVertices: number[] = [];
+    // Roughly two faces of 40 bytes per vertex line of 30 bytes
+    const builder = createMeshBuilder(Math.ceil(buffer.length / 50));
+    const corners: number[] = [];
+
+    const toMeshVertex = (vertex: number) => {
+      if (meshVertices[vertex] === -1) {
+        const offset = vertex * 3;
+        meshVertices[vertex] = builder.addVertex(coordinates[offset], coordinates[offset + 1], coordinates[offset + 2]);
+      }
+      return meshVertices[vertex];
+    };
+
+    const addTriangle = (a: number, b: number, c: number) => {
+      const normal = triangleNormal(coordinates, a, b, c);
+      builder.addFace(toMeshVertex(a), toMeshVertex(b), toMeshVertex(c), normal);
+    };
+
+    forEachLine(buffer, (index, end, line) => {
+      if (hasKeyword(buffer, index, end, VERTEX)) {
+        const { x, y, z } = readTriple(buffer, index + VERTEX.length, end);
+        coordinates.push(x, y, z);
+        meshVertices.push(-1);
+      } else if (hasKeyword(buffer, index, end, FACE)) {
+        corners.length = 0;
+        for (let start = skipBlanks(buffer, index + FACE.length, end); start < end && !isComment(buffer, start); ) {
+          const next = tokenEnd(buffer, start, end);
+          // Corners are v, v/vt, v//vn or v/vt/vn; only the vertex is used
+          let vertexEnd = start;
+          while (vertexEnd < next && buffer[vertexEnd] !== SLASH) vertexEnd++;
+          const reference = parseNumber(buffer, start, vertexEnd);
+          const vertex = reference < 0 ? meshVertices.length + reference : reference - 1;
+          if (!Number.isInteger(reference) || reference === 0 || vertex < 0 || vertex >= meshVertices.length) {
+            throw new Error(`Invalid vertex reference ${buffer.toString('latin1', start, next)} at line ${line}`);
+          }
+          corners.push(vertex);
+          start = skipBlanks(buffer, next, end);
+        }
+
+        if (corners.length < 3) {
+          throw new Error(`Face with fewer than 3 vertices at line ${line}`);
+        }
+        if (corners.length === 3) {
+          addTriangle(corners[0], corners[1], corners[2]);
+        } else {
+          for (const [a, b, c] of triangulatePolygon(coordinates, corners)) {
+            addTriangle(a, b, c);
+          }
+        }
+      } else if (hasKeyword(buffer, index, end, OBJECT) || hasKeyword(buffer, index, end, GROUP)) {
+        // The name, if any, runs to the end of the line; bodies left without faces are dropped
+        builder.startBody(buffer.toString('utf8', skipBlanks(buffer, index + 1, end), end).trim());
+      }
+    });
+
+    const warnings: ParseWarning[] = [];
+    const mesh = cleanParsedMesh(builder.build(), warnings);
+    if (faceCount(mesh) === 0) {
+      throw new Error('No valid faces in OBJ');
+    }
+
+    return { mesh, warnings };
+  } catch (error) {
+    throw new Error(`OBJ parsing failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
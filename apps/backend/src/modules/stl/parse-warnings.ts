@@ -0,0 +1,150 @@
+/**
+ * Parse Warnings - Cleans freshly parsed meshes and reports what was wrong with the file
+ *
+ * Parsers drop faces that cannot be projected instead of failing, and record every
+ * such repair as a structured warning that is passed on with the processing result.
+ */
+
+import type { ParseWarning, ParseWarningCode } from '@stl2d/contracts';
+import {
+  calculateBounds,
+  dropEmptyBodies,
+  faceCount,
+  removeDegenerateFaces,
+  vertexCount,
+  type Mesh,
+} from './mesh';
+
+/** Mesh read from a model file, with the problems found in it */
+export interface ParsedModel {
+  mesh: Mesh;
+  warnings: ParseWarning[];
+}
+
+/**
+ * Count followed by the noun, pluralized unless the count is one
+ */
+export function counted(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Record a warning unless nothing was affected
+ */
+export function addWarning(warnings: ParseWarning[], code: ParseWarningCode, count: number, message: string): void {
+  if (count > 0) warnings.push({ code, message, count });
+}
+
+/**
+ * Drop the faces touching vertices with NaN or infinite coordinates, along with those vertices
+ */
+function dropNonFiniteFaces(mesh: Mesh): { mesh: Mesh; dropped: number } {
+  const { positions, indices, normals, faceBodies } = mesh;
+  const invalid = new Uint8Array(vertexCount(mesh));
+  let anyInvalid = false;
+  for (let i = 0; i < positions.length; i++) {
+    if (!Number.isFinite(positions[i])) {
+      invalid[Math.floor(i / 3)] = 1;
+      anyInvalid = true;
+    }
+  }
+  if (!anyInvalid) return { mesh, dropped: 0 };
+
+  // Vertices are renumbered, so that the dropped ones neither remain nor count towards the bounds
+  const remap = new Int32Array(invalid.length).fill(-1);
+  const keptPositions: number[] = [];
+  const keptIndices: number[] = [];
+  const keptNormals: number[] = [];
+  const keptBodies: number[] = [];
+  let dropped = 0;
+
+  for (let face = 0; face < faceCount(mesh); face++) {
+    const corners = indices.subarray(face * 3, face * 3 + 3);
+    if (corners.some((vertex) => invalid[vertex])) {
+      dropped++;
+      continue;
+    }
+    for (const vertex of corners) {
+      if (remap[vertex] === -1) {
+        remap[vertex] = keptPositions.length / 3;
+        keptPositions.push(positions[vertex * 3], positions[vertex * 3 + 1], positions[vertex * 3 + 2]);
+      }
+      keptIndices.push(remap[vertex]);
+    }
+    keptNormals.push(normals[face * 3], normals[face * 3 + 1], normals[face * 3 + 2]);
+    keptBodies.push(faceBodies[face]);
+  }
+
+  const keptPositionArray = Float32Array.from(keptPositions);
+  return {
+    mesh: {
+      positions: keptPositionArray,
+      indices: Uint32Array.from(keptIndices),
+      normals: Float32Array.from(keptNormals),
+      ...dropEmptyBodies(mesh.bodies, Uint32Array.from(keptBodies)),
+      bounds: calculateBounds(keptPositionArray),
+    },
+    dropped,
+  };
+}
+
+/**
+ * Number of faces whose stored normal points against the normal of their winding order.
+ * Zero normals, which many exporters write, do not count.
+ */
+function countNormalMismatches(mesh: Mesh): number {
+  const { positions, indices, normals } = mesh;
+  let mismatches = 0;
+
+  for (let face = 0; face < faceCount(mesh); face++) {
+    const a = indices[face * 3] * 3;
+    const b = indices[face * 3 + 1] * 3;
+    const c = indices[face * 3 + 2] * 3;
+    const ux = positions[b] - positions[a];
+    const uy = positions[b + 1] - positions[a + 1];
+    const uz = positions[b + 2] - positions[a + 2];
+    const vx = positions[c] - positions[a];
+    const vy = positions[c + 1] - positions[a + 1];
+    const vz = positions[c + 2] - positions[a + 2];
+
+    const agreement =
+      (uy * vz - uz * vy) * normals[face * 3] +
+      (uz * vx - ux * vz) * normals[face * 3 + 1] +
+      (ux * vy - uy * vx) * normals[face * 3 + 2];
+    if (agreement < 0) mismatches++;
+  }
+
+  return mismatches;
+}
+
+/**
+ * Drop the faces of a freshly parsed mesh that cannot be projected, recording warnings
+ *
+ * @param checkNormals - Compare the normals stored in the file with the winding order;
+ *   formats whose normals are computed from the winding skip this
+ */
+export function cleanParsedMesh(mesh: Mesh, warnings: ParseWarning[], checkNormals = false): Mesh {
+  const finite = dropNonFiniteFaces(mesh);
+  addWarning(
+    warnings,
+    'invalid-coordinates',
+    finite.dropped,
+    `Dropped ${counted(finite.dropped, 'face')} with NaN or infinite coordinates`,
+  );
+
+  const cleaned = removeDegenerateFaces(finite.mesh);
+  const degenerate = faceCount(finite.mesh) - faceCount(cleaned);
+  addWarning(warnings, 'degenerate-faces', degenerate, `Dropped ${counted(degenerate, 'degenerate face')} without area`);
+
+  if (checkNormals) {
+    const mismatches = countNormalMismatches(cleaned);
+    addWarning(
+      warnings,
+      'normal-mismatch',
+      mismatches,
+      `Normals of ${counted(mismatches, 'face')} point against the winding order of their vertices`,
+    );
+  }
+
+  return cleaned;
+}
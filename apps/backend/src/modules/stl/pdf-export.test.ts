@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { box, toMesh } from '@/test/meshes';
+import { viewsToPdf } from './pdf-export';
+import { generateProjections } from './projection-engine';
+
+const PT_PER_MM = 72 / 25.4;
+
+const views = generateProjections(toMesh(box([0, 0, 0], [100, 40, 20])));
+const front = views.find(({ name }) => name === 'front')!;
+
+function pdf(options: Partial<Parameters<typeof viewsToPdf>[1]> = {}): string {
+  return viewsToPdf([front], { title: 'block.stl', paperSize: 'A3', projection: 'first', unit: 'mm', ...options })
+    .toString('latin1');
+}
+
+/** Numbers of the path operators "x y m x y l S" of a page */
+function segments(file: string): number[][] {
+  return Array.from(file.matchAll(/^([\d.-]+) ([\d.-]+) m ([\d.-]+) ([\d.-]+) l S$/gm), (match) =>
+    match.slice(1).map(Number),
+  );
+}
+
+describe('viewsToPdf', () => {
+  it('writes a PDF whose cross-reference table points at its objects', () => {
+    const file = pdf();
+
+    expect(file.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(file.trimEnd().endsWith('%%EOF')).toBe(true);
+
+    const startxref = Number(/startxref\n(\d+)\n/.exec(file)![1]);
+    expect(file.slice(startxref, startxref + 5)).toBe('xref\n');
+
+    const [, first, count] = /^xref\n(\d+) (\d+)\n/.exec(file.slice(startxref))!.map(Number);
+    const entries = file.slice(startxref).split('\n').slice(3, 2 + count);
+    expect(first).toBe(0);
+    entries.forEach((entry, index) => {
+      const offset = Number(entry.slice(0, 10));
+      expect(file.slice(offset, offset + 12)).toMatch(new RegExp(`^${index + 1} 0 obj\\n`));
+    });
+    expect(file).toMatch(new RegExp(`trailer\\n<< /Size ${count} /Root 1 0 R >>`));
+  });
+
+  it('uses the requested sheet size', () => {
+    const [width, height] = [297, 210].map((mm) => Number((mm * PT_PER_MM).toFixed(3)));
+
+    expect(pdf({ paperSize: 'A4' })).toContain(`/MediaBox [0 0 ${width} ${height}]`);
+  });
+
+  it('draws the view at the requested scale and states it in the title block', () => {
+    const file = pdf({ scale: 0.5 });
+    const [xmin, , xmax] = front.bbox;
+    const lengths = segments(file).map(([x0, y0, x1, y1]) => Math.hypot(x1 - x0, y1 - y0) / PT_PER_MM);
+
+    // The 100 mm long edges of the block are drawn 50 mm long
+    expect(xmax - xmin).toBeGreaterThanOrEqual(100);
+    expect(lengths.filter((length) => Math.abs(length - 50) < 0.01).length).toBeGreaterThanOrEqual(2);
+    expect(file).toContain('(1:2) Tj');
+  });
+
+  it('picks the largest standard scale that fits when none is requested', () => {
+    // With its dimensions the view is about 127 mm wide, too wide for A4 at 2:1
+    expect(pdf({ paperSize: 'A4' })).toContain('(1:1) Tj');
+    expect(pdf({ paperSize: 'A2' })).toContain('(2:1) Tj');
+  });
+
+  it('rejects a scale at which the view does not fit', () => {
+    expect(() => pdf({ paperSize: 'A4', scale: 5 })).toThrow('View "front" does not fit on A4 at 5:1');
+  });
+});
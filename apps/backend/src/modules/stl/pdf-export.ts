@@ -0,0 +1,397 @@
+/**
+ * PDF Export - Writes projection views as a vector PDF drawing, one sheet per view
+ *
+ * Every sheet has a border, a title block and one view drawn at a common scale, so that
+ * distances measured on the printed sheet match the model. The PDF file structure is
+ * written directly: page contents are PDF path and text operators in points, texts use
+ * the built-in Helvetica font.
+ */
+
+import {
+  DRAWING_SCALES,
+  LENGTH_UNIT_LABELS,
+  MILLIMETERS_PER_UNIT,
+  PAPER_DIMENSIONS,
+  PROJECTION_METHOD_LABELS,
+  VIEW_LABELS,
+  type ArcSegment,
+  type CircleShape,
+  type Dimension,
+  type LengthUnit,
+  type LineSegment,
+  type PaperSize,
+  type ProjectionMethod,
+  type ProjectionView,
+  type ViewName,
+} from '@stl2d/contracts';
+
+/** Options for PDF export */
+export interface PdfExportOptions {
+  /** Title shown in the title block, usually the model file name */
+  title: string;
+  paperSize: PaperSize;
+  /** Paper length per model length; the largest standard scale that fits is used when omitted */
+  scale?: number;
+  /** Unit of the view coordinates; views are drawn unscaled to fit when omitted (normalized models) */
+  unit?: LengthUnit;
+  projection: ProjectionMethod;
+  /** Date shown in the title block */
+  date?: Date;
+}
+
+/** Point in sheet coordinates (millimeters from the bottom-left paper corner) */
+interface SheetPoint {
+  x: number;
+  y: number;
+}
+
+/** Maps view coordinates to sheet coordinates */
+type Placement = (x: number, y: number) => SheetPoint;
+
+/** Points per millimeter */
+const PT_PER_MM = 72 / 25.4;
+
+/** Border distance from the paper edge; the left margin leaves room for filing */
+const MARGIN = { left: 20, right: 10, top: 10, bottom: 10 };
+
+/** Title block size and the free space kept around a view */
+const TITLE_BLOCK_WIDTH = 180;
+const TITLE_BLOCK_HEIGHT = 28;
+const VIEW_PADDING = 10;
+
+/** Line widths in millimeters */
+const LINE_WIDTHS = {
+  border: 0.7,
+  visible: 0.5,
+  thin: 0.25,
+  hatch: 0.18,
+};
+
+/** Dash patterns in millimeters */
+const HIDDEN_DASHES = [3, 1.5];
+const CENTER_DASHES = [12, 2, 2, 2];
+
+/** Dimension text height and arrow size in millimeters */
+const TEXT_HEIGHT = 3.5;
+const ARROW_LENGTH = 3;
+const ARROW_WIDTH = 1;
+
+/** Average Helvetica glyph width relative to the font size, used to center texts */
+const GLYPH_WIDTH = 0.556;
+
+function fmt(value: number): string {
+  return String(Number(value.toFixed(3)));
+}
+
+/**
+ * Text as a PDF string literal; minus signs become hyphens and other characters
+ * outside Latin-1 are replaced
+ */
+function pdfString(text: string): string {
+  const latin1 = Array.from(text.replace(/\u2212/g, '-'), (char) =>
+    char.charCodeAt(0) <= 0xff ? char : '?',
+  ).join('');
+  return `(${latin1.replace(/[\\()]/g, (char) => `\\${char}`)})`;
+}
+
+/**
+ * Page content builder; all coordinates are sheet millimeters
+ */
+function createPageContent() {
+  const operators: string[] = [];
+  const pt = (value: number) => fmt(value * PT_PER_MM);
+
+  return {
+    operators,
+    lineStyle(width: number, dashes: number[] = []) {
+      operators.push(`${pt(width)} w [${dashes.map(pt).join(' ')}] 0 d`);
+    },
+    line(a: SheetPoint, b: SheetPoint) {
+      operators.push(`${pt(a.x)} ${pt(a.y)} m ${pt(b.x)} ${pt(b.y)} l S`);
+    },
+    rect(x: number, y: number, width: number, height: number) {
+      operators.push(`${pt(x)} ${pt(y)} ${pt(width)} ${pt(height)} re S`);
+    },
+    /** Counter-clockwise arc as cubic Bézier curves of at most 90° each */
+    arc(center: SheetPoint, radius: number, startAngle: number, endAngle: number) {
+      let sweep = endAngle - startAngle;
+      while (sweep <= 0) sweep += 2 * Math.PI;
+      const count = Math.ceil(sweep / (Math.PI / 2));
+      const step = sweep / count;
+      const k = (4 / 3) * Math.tan(step / 4) * radius;
+      const at = (angle: number) => ({
+        x: center.x + radius * Math.cos(angle),
+        y: center.y + radius * Math.sin(angle),
+      });
+
+      const start = at(startAngle);
+      const path = [`${pt(start.x)} ${pt(start.y)} m`];
+      for (let i = 0; i < count; i++) {
+        const a = startAngle + i * step;
+        const b = a + step;
+        const p0 = at(a);
+        const p3 = at(b);
+        path.push(
+          [
+            pt(p0.x - k * Math.sin(a)),
+            pt(p0.y + k * Math.cos(a)),
+            pt(p3.x + k * Math.sin(b)),
+            pt(p3.y - k * Math.cos(b)),
+            pt(p3.x),
+            pt(p3.y),
+            'c',
+          ].join(' '),
+        );
+      }
+      operators.push(`${path.join(' ')} S`);
+    },
+    triangle(a: SheetPoint, b: SheetPoint, c: SheetPoint) {
+      operators.push(`${pt(a.x)} ${pt(a.y)} m ${pt(b.x)} ${pt(b.y)} l ${pt(c.x)} ${pt(c.y)} l h f`);
+    },
+    /** Text with its anchor at the left or center of the baseline */
+    text(value: string, x: number, y: number, size: number, align: 'left' | 'center' = 'left') {
+      const left = align === 'center' ? x - (value.length * size * GLYPH_WIDTH) / 2 : x;
+      operators.push(`BT /F1 ${pt(size)} Tf ${pt(left)} ${pt(y)} Td ${pdfString(value)} Tj ET`);
+    },
+  };
+}
+
+type PageContent = ReturnType<typeof createPageContent>;
+
+/**
+ * Scale as a ratio such as 1:2 or 5:1
+ */
+function formatScale(scale: number): string {
+  const ratio = (value: number) => String(Number(value.toFixed(2)));
+  return scale >= 1 ? `${ratio(scale)}:1` : `1:${ratio(1 / scale)}`;
+}
+
+/**
+ * Area for the view: inside the border, above the title block
+ */
+function drawingArea([width, height]: [number, number]) {
+  return {
+    x: MARGIN.left + VIEW_PADDING,
+    y: MARGIN.bottom + TITLE_BLOCK_HEIGHT + VIEW_PADDING,
+    width: width - MARGIN.left - MARGIN.right - 2 * VIEW_PADDING,
+    height: height - MARGIN.top - MARGIN.bottom - TITLE_BLOCK_HEIGHT - 2 * VIEW_PADDING,
+  };
+}
+
+/**
+ * Largest standard scale at which all views fit the drawing area
+ */
+function fitScale(views: ProjectionView[], area: { width: number; height: number }, mmPerUnit: number): number {
+  const fits = (scale: number) =>
+    views.every(({ bbox: [xmin, ymin, xmax, ymax] }) => {
+      const k = scale * mmPerUnit;
+      return (xmax - xmin) * k <= area.width && (ymax - ymin) * k <= area.height;
+    });
+
+  const standard = DRAWING_SCALES.find(fits);
+  if (standard !== undefined) return standard;
+
+  // Larger than every standard scale allows: shrink to the exact fit
+  return Math.min(
+    ...views.map(({ bbox: [xmin, ymin, xmax, ymax] }) =>
+      Math.min(area.width / (xmax - xmin || 1), area.height / (ymax - ymin || 1)) / mmPerUnit,
+    ),
+  );
+}
+
+function drawBorder(page: PageContent, [width, height]: [number, number]) {
+  page.lineStyle(LINE_WIDTHS.border);
+  page.rect(
+    MARGIN.left,
+    MARGIN.bottom,
+    width - MARGIN.left - MARGIN.right,
+    height - MARGIN.top - MARGIN.bottom,
+  );
+}
+
+/**
+ * Title block in the bottom-right corner: title on top, sheet properties below
+ */
+function drawTitleBlock(page: PageContent, [width]: [number, number], fields: [string, string][], title: string) {
+  const x = width - MARGIN.right - TITLE_BLOCK_WIDTH;
+  const y = MARGIN.bottom;
+  const rowHeight = TITLE_BLOCK_HEIGHT / 2;
+  const cellWidth = TITLE_BLOCK_WIDTH / fields.length;
+
+  page.lineStyle(LINE_WIDTHS.border);
+  page.rect(x, y, TITLE_BLOCK_WIDTH, TITLE_BLOCK_HEIGHT);
+  page.lineStyle(LINE_WIDTHS.thin);
+  page.line({ x, y: y + rowHeight }, { x: x + TITLE_BLOCK_WIDTH, y: y + rowHeight });
+
+  page.text('TITLE', x + 2, y + TITLE_BLOCK_HEIGHT - 4, 2.5);
+  page.text(title, x + 2, y + rowHeight + 3, 5);
+
+  fields.forEach(([label, value], index) => {
+    const cellX = x + index * cellWidth;
+    if (index > 0) page.line({ x: cellX, y }, { x: cellX, y: y + rowHeight });
+    page.text(label.toUpperCase(), cellX + 2, y + rowHeight - 4, 2.5);
+    page.text(value, cellX + 2, y + 3, 3.5);
+  });
+}
+
+function drawLines(page: PageContent, lines: LineSegment[], place: Placement) {
+  for (const [[x0, y0], [x1, y1]] of lines) page.line(place(x0, y0), place(x1, y1));
+}
+
+function drawCurves(page: PageContent, arcs: ArcSegment[], circles: CircleShape[], place: Placement, k: number) {
+  for (const { center, radius, startAngle, endAngle } of arcs) {
+    page.arc(place(center[0], center[1]), radius * k, startAngle, endAngle);
+  }
+  for (const { center, radius } of circles) {
+    page.arc(place(center[0], center[1]), radius * k, 0, 2 * Math.PI);
+  }
+}
+
+function drawDimension(page: PageContent, dimension: Dimension, place: Placement) {
+  drawLines(page, [...dimension.extensionLines, dimension.dimensionLine], place);
+
+  const [[x0, y0], [x1, y1]] = dimension.dimensionLine;
+  const start = place(x0, y0);
+  const end = place(x1, y1);
+  const length = Math.hypot(end.x - start.x, end.y - start.y);
+  if (length > 0) {
+    const ux = (end.x - start.x) / length;
+    const uy = (end.y - start.y) / length;
+    for (const [tip, direction] of [
+      [start, -1],
+      [end, 1],
+    ] as const) {
+      const bx = tip.x - direction * ux * ARROW_LENGTH;
+      const by = tip.y - direction * uy * ARROW_LENGTH;
+      const half = ARROW_WIDTH / 2;
+      page.triangle(tip, { x: bx - uy * half, y: by + ux * half }, { x: bx + uy * half, y: by - ux * half });
+    }
+  }
+
+  // Text position is the text center; the baseline sits below it
+  const text = place(...dimension.textPosition);
+  page.text(dimension.text, text.x, text.y - TEXT_HEIGHT * 0.35, TEXT_HEIGHT, 'center');
+}
+
+/**
+ * View centered in the drawing area at the given paper length per view unit
+ */
+function drawView(page: PageContent, view: ProjectionView, area: ReturnType<typeof drawingArea>, k: number) {
+  const [xmin, ymin, xmax, ymax] = view.bbox;
+  const cx = area.x + area.width / 2;
+  const cy = area.y + area.height / 2;
+  const place: Placement = (x, y) => ({
+    x: cx + (x - (xmin + xmax) / 2) * k,
+    y: cy + (y - (ymin + ymax) / 2) * k,
+  });
+
+  page.lineStyle(LINE_WIDTHS.thin, HIDDEN_DASHES);
+  drawLines(page, view.hiddenLines, place);
+  drawCurves(page, view.hiddenArcs, view.hiddenCircles, place, k);
+
+  page.lineStyle(LINE_WIDTHS.hatch);
+  drawLines(page, view.hatchLines ?? [], place);
+
+  page.lineStyle(LINE_WIDTHS.thin, CENTER_DASHES);
+  drawLines(page, view.centerLines, place);
+
+  page.lineStyle(LINE_WIDTHS.visible);
+  drawLines(page, view.lines, place);
+  drawCurves(page, view.arcs, view.circles, place, k);
+
+  page.lineStyle(LINE_WIDTHS.thin);
+  for (const dimension of view.dimensions) drawDimension(page, dimension, place);
+}
+
+/**
+ * Assemble PDF objects into a file with a cross-reference table
+ */
+function writePdf(pageContents: string[], [width, height]: [number, number]): Buffer {
+  const pageCount = pageContents.length;
+  // Objects: catalog, page tree, font, then a page and its content stream per sheet
+  const pageId = (index: number) => 4 + index * 2;
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageContents.map((_, i) => `${pageId(i)} 0 R`).join(' ')}] /Count ${pageCount} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+  ];
+
+  pageContents.forEach((content, index) => {
+    objects.push(
+      [
+        '<< /Type /Page /Parent 2 0 R',
+        `/MediaBox [0 0 ${fmt(width * PT_PER_MM)} ${fmt(height * PT_PER_MM)}]`,
+        `/Resources << /Font << /F1 3 0 R >> >> /Contents ${pageId(index) + 1} 0 R >>`,
+      ].join(' '),
+      `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`,
+    );
+  });
+
+  let body = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(Buffer.byteLength(body, 'latin1'));
+    body += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = Buffer.byteLength(body, 'latin1');
+  body += [
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.length + 1} /Root 1 0 R >>`,
+    'startxref',
+    String(xrefOffset),
+    '%%EOF',
+    '',
+  ].join('\n');
+
+  return Buffer.from(body, 'latin1');
+}
+
+/**
+ * Export views as a PDF drawing with one sheet per view.
+ *
+ * @param views - Views to draw, in page order
+ * @param options - Sheet size, scale and title block contents
+ * @returns PDF file content
+ */
+export function viewsToPdf(views: ProjectionView[], options: PdfExportOptions): Buffer {
+  const paper = PAPER_DIMENSIONS[options.paperSize];
+  const area = drawingArea(paper);
+  const mmPerUnit = options.unit ? MILLIMETERS_PER_UNIT[options.unit] : 1;
+  const scale = options.scale ?? fitScale(views, area, mmPerUnit);
+  const k = scale * mmPerUnit;
+
+  for (const { name, bbox: [xmin, ymin, xmax, ymax] } of views) {
+    if ((xmax - xmin) * k > area.width || (ymax - ymin) * k > area.height) {
+      throw new Error(`View "${name}" does not fit on ${options.paperSize} at ${formatScale(scale)}`);
+    }
+  }
+
+  const date = (options.date ?? new Date()).toISOString().slice(0, 10);
+  const pages = views.map((view, index) => {
+    const page = createPageContent();
+    drawBorder(page, paper);
+    drawView(page, view, area, k);
+    drawTitleBlock(
+      page,
+      paper,
+      [
+        ['Date', date],
+        // Normalized models have no physical size
+        ['Scale', options.unit ? formatScale(scale) : 'NTS'],
+        ['Units', options.unit ? LENGTH_UNIT_LABELS[options.unit] : 'Normalized'],
+        ['Projection', PROJECTION_METHOD_LABELS[options.projection]],
+        ['View', VIEW_LABELS[view.name as ViewName] ?? view.name],
+        ['Sheet', `${index + 1} / ${views.length}`],
+      ],
+      options.title,
+    );
+    return page.operators.join('\n');
+  });
+
+  return writePdf(pages, paper);
+}
@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { faceCount, vertexCount } from './mesh';
+import { parsePLY } from './ply-parser';
+
+type Point = [number, number, number];
+
+// A unit square and a point above it, as a quad and two triangles
+const points: Point[] = [
+  [0, 0, 0],
+  [10, 0, 0],
+  [10, 10, 0],
+  [0, 10, 0],
+  [5, 5, 5],
+];
+const faces = [
+  [0, 1, 2, 3],
+  [0, 1, 4],
+  [1, 2, 4],
+];
+
+function header(format: string, lines: string[]): string {
+  return ['ply', `format ${format} 1.0`, 'comment made for the specs', ...lines, 'end_header', ''].join('\n');
+}
+
+/** ASCII PLY with normals and a color per vertex, and an edge element after the faces */
+function asciiPLY(faceLists = faces): Buffer {
+  return Buffer.from(
+    header('ascii', [
+      `element vertex ${points.length}`,
+      'property float x',
+      'property float y',
+      'property float z',
+      'property float nx',
+      'property float ny',
+      'property float nz',
+      'property uchar red',
+      `element face ${faceLists.length}`,
+      'property list uchar int vertex_indices',
+      'element edge 1',
+      'property int vertex1',
+      'property int vertex2',
+    ]) +
+      points.map((point) => `${point.join(' ')} 0 0 1 255`).join('\n') +
+      '\n' +
+      faceLists.map((corners) => `${corners.length} ${corners.join(' ')}`).join('\n') +
+      '\n0 1\n',
+  );
+}
+
+/** Binary PLY with a color per vertex and a signed list length type */
+function binaryPLY(littleEndian: boolean, faceLists = faces): Buffer {
+  const text = header(littleEndian ? 'binary_little_endian' : 'binary_big_endian', [
+    `element vertex ${points.length}`,
+    'property float x',
+    'property float y',
+    'property float z',
+    'property uchar red',
+    `element face ${faceLists.length}`,
+    'property list char uint vertex_indices',
+  ]);
+  const size = points.length * 13 + faceLists.reduce((sum, corners) => sum + 1 + corners.length * 4, 0);
+  const data = new DataView(new ArrayBuffer(size));
+  let offset = 0;
+  for (const point of points) {
+    for (const value of point) {
+      data.setFloat32(offset, value, littleEndian);
+      offset += 4;
+    }
+    data.setUint8(offset++, 200);
+  }
+  for (const corners of faceLists) {
+    data.setInt8(offset++, corners.length);
+    for (const corner of corners) {
+      data.setUint32(offset, corner, littleEndian);
+      offset += 4;
+    }
+  }
+  return Buffer.concat([Buffer.from(text), Buffer.from(data.buffer)]);
+}
+
+describe('parsePLY', () => {
+  it.each([
+    ['ASCII', asciiPLY()],
+    ['little endian', binaryPLY(true)],
+    ['big endian', binaryPLY(false)],
+  ])('reads %s files, skipping extra properties and elements', (_encoding, file) => {
+    const { mesh, warnings } = parsePLY(file);
+
+    // The quad is split into two triangles
+    expect(faceCount(mesh)).toBe(4);
+    expect(vertexCount(mesh)).toBe(5);
+    expect(mesh.bounds).toEqual({ min: { x: 0, y: 0, z: 0 }, max: { x: 10, y: 10, z: 5 } });
+    expect(Array.from(mesh.normals.subarray(0, 6))).toEqual([0, 0, 1, 0, 0, 1]);
+    expect(warnings).toEqual([]);
+  });
+
+  it('rejects faces referencing missing vertices', () => {
+    expect(() => parsePLY(asciiPLY([[0, 1, 5]]))).toThrow('PLY parsing failed: Face 0 references a missing vertex');
+  });
+
+  it('rejects negative list lengths', () => {
+    const file = binaryPLY(true, [[0, 1, 2]]);
+    file.writeInt8(-3, file.length - 13);
+
+    expect(() => parsePLY(file)).toThrow('Invalid list length -3 in face 0');
+  });
+
+  it('rejects element counts the data cannot hold before allocating for them', () => {
+    const ascii = Buffer.from(
+      header('ascii', [
+        'element vertex 2000000000',
+        'property float x',
+        'property float y',
+        'property float z',
+        'element face 1',
+        'property list uchar int vertex_indices',
+      ]) + '0 0 0\n3 0 0 0\n',
+    );
+    const binary = binaryPLY(true);
+    const inflated = Buffer.from(binary.toString('latin1').replace('element face 3', 'element face 999'), 'latin1');
+
+    expect(() => parsePLY(ascii)).toThrow('Header declares 2000000000 vertex elements, more than the 14 bytes');
+    expect(() => parsePLY(inflated)).toThrow('Header declares 999 face elements');
+  });
+
+  it('accepts ASCII data ending without a newline', () => {
+    const file = asciiPLY();
+
+    expect(faceCount(parsePLY(file.subarray(0, file.length - 1)).mesh)).toBe(4);
+  });
+});
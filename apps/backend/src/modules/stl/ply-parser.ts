@@ -0,0 +1,315 @@
+/**
+ * PLY Parser - Reads the geometry of Stanford PLY files
+ *
+ * Supports the ASCII and both binary encodings. Elements and properties are read
+ * as the header declares them, so any extra vertex properties (normals, colors,
+ * scanner confidence) and extra elements are skipped. Only the x, y, z vertex
+ * properties and the vertex index lists of faces are used; polygon faces are
+ * triangulated and face normals are computed from the winding order. Element
+ * counts that the data cannot hold are rejected before anything is allocated for them.
+ */
+
+import type { ParseWarning } from '@stl2d/contracts';
+import { createMeshBuilder, faceCount } from './mesh';
+import { cleanParsedMesh, type ParsedModel } from './parse-warnings';
+import { isBlank, parseNumber } from './text-reader';
+import { triangleNormal, triangulatePolygon } from './triangulation';
+
+const NEWLINE = 0x0a;
+const END_HEADER = Buffer.from('end_header');
+
+type Encoding = 'ascii' | 'binary_little_endian' | 'binary_big_endian';
+
+/** Byte sizes of the scalar types, under both their old and their sized names */
+const SCALAR_SIZES: Record<string, number> = {
+  char: 1,
+  uchar: 1,
+  short: 2,
+  ushort: 2,
+  int: 4,
+  uint: 4,
+  float: 4,
+  double: 8,
+  int8: 1,
+  uint8: 1,
+  int16: 2,
+  uint16: 2,
+  int32: 4,
+  uint32: 4,
+  float32: 4,
+  float64: 8,
+};
+
+interface Property {
+  name: string;
+  type: string;
+  /** Type of the item count, for list properties */
+  countType?: string;
+}
+
+interface Element {
+  name: string;
+  count: number;
+  properties: Property[];
+}
+
+/** Reads the next value of the given scalar type from the data section */
+type ValueReader = (type: string) => number;
+
+function readScalar(view: DataView, offset: number, type: string, littleEndian: boolean): number {
+  switch (type) {
+    case 'char':
+    case 'int8':
+      return view.getInt8(offset);
+    case 'uchar':
+    case 'uint8':
+      return view.getUint8(offset);
+    case 'short':
+    case 'int16':
+      return view.getInt16(offset, littleEndian);
+    case 'ushort':
+    case 'uint16':
+      return view.getUint16(offset, littleEndian);
+    case 'int':
+    case 'int32':
+      return view.getInt32(offset, littleEndian);
+    case 'uint':
+    case 'uint32':
+      return view.getUint32(offset, littleEndian);
+    case 'float':
+    case 'float32':
+      return view.getFloat32(offset, littleEndian);
+    default:
+      return view.getFloat64(offset, littleEndian);
+  }
+}
+
+function checkType(type: string | undefined, line: string): string {
+  if (!type || SCALAR_SIZES[type] === undefined) {
+    throw new Error(`Unknown property type in header line "${line}"`);
+  }
+  return type;
+}
+
+/**
+ * Parse the header, returning the declared encoding, elements and where the data starts
+ */
+function readHeader(buffer: Buffer): { encoding: Encoding; elements: Element[]; dataStart: number } {
+  const marker = buffer.indexOf(END_HEADER);
+  const headerEnd = marker === -1 ? -1 : buffer.indexOf(NEWLINE, marker);
+  if (headerEnd === -1) {
+    throw new Error('Missing end_header');
+  }
+
+  const lines = buffer.toString('latin1', 0, headerEnd).split('\n');
+  if (lines[0].trim() !== 'ply') {
+    throw new Error('Missing ply signature');
+  }
+
+  let encoding: Encoding | null = null;
+  const elements: Element[] = [];
+  for (const line of lines.slice(1).map((text) => text.trim())) {
+    const [keyword, ...fields] = line.split(/\s+/);
+    switch (keyword) {
+      case 'format':
+        if (fields[0] !== 'ascii' && fields[0] !== 'binary_little_endian' && fields[0] !== 'binary_big_endian') {
+          throw new Error(`Unsupported format "${fields[0]}"`);
+        }
+        encoding = fields[0];
+        break;
+      case 'element': {
+        const count = Number(fields[1]);
+        if (!fields[0] || !Number.isInteger(count) || count < 0) {
+          throw new Error(`Invalid header line "${line}"`);
+        }
+        elements.push({ name: fields[0], count, properties: [] });
+        break;
+      }
+      case 'property': {
+        const element = elements[elements.length - 1];
+        if (!element) {
+          throw new Error(`Property before any element in header line "${line}"`);
+        }
+        element.properties.push(
+          fields[0] === 'list'
+            ? { countType: checkType(fields[1], line), type: checkType(fields[2], line), name: fields[3] }
+            : { type: checkType(fields[0], line), name: fields[1] },
+        );
+        break;
+      }
+    }
+  }
+
+  if (!encoding) {
+    throw new Error('Missing format line');
+  }
+  return { encoding, elements, dataStart: headerEnd + 1 };
+}
+
+/**
+ * Fewest bytes a record of the element takes: its scalars and list lengths in binary
+ * files, a digit and a separator per value in ASCII files, with lists left empty
+ */
+function minimumRecordSize(element: Element, encoding: Encoding): number {
+  if (encoding === 'ascii') return element.properties.length * 2;
+  return element.properties.reduce((size, property) => size + SCALAR_SIZES[property.countType ?? property.type], 0);
+}
+
+/**
+ * Reject element counts that need more data than the file holds. The last ASCII
+ * value may go without a separator.
+ */
+function checkElementCounts(elements: Element[], encoding: Encoding, dataLength: number): void {
+  const available = encoding === 'ascii' ? dataLength + 1 : dataLength;
+  let needed = 0;
+  for (const element of elements) {
+    needed += element.count * minimumRecordSize(element, encoding);
+    if (needed > available) {
+      throw new Error(
+        `Header declares ${element.count} ${element.name} elements, more than the ${dataLength} bytes of data can hold`,
+      );
+    }
+  }
+}
+
+/**
+ * Reader of whitespace-separated values, which may span lines
+ */
+function asciiReader(buffer: Buffer, start: number): ValueReader {
+  let index = start;
+  return () => {
+    while (index < buffer.length && (isBlank(buffer[index]) || buffer[index] === NEWLINE)) index++;
+    const tokenStart = index;
+    while (index < buffer.length && !isBlank(buffer[index]) && buffer[index] !== NEWLINE) index++;
+    if (tokenStart === index) {
+      throw new Error('Unexpected end of data');
+    }
+    const value = parseNumber(buffer, tokenStart, index);
+    if (Number.isNaN(value)) {
+      throw new Error(`Invalid value "${buffer.toString('latin1', tokenStart, index)}"`);
+    }
+    return value;
+  };
+}
+
+function binaryReader(buffer: Buffer, start: number, littleEndian: boolean): ValueReader {
+  const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  let offset = start;
+  return (type) => {
+    const size = SCALAR_SIZES[type];
+    if (offset + size > buffer.length) {
+      throw new Error('Unexpected end of data');
+    }
+    const value = readScalar(view, offset, type, littleEndian);
+    offset += size;
+    return value;
+  };
+}
+
+/**
+ * Parse a PLY file in any of its encodings
+ */
+export function parsePLY(buffer: Buffer): ParsedModel {
+  try {
+    const { encoding, elements, dataStart } = readHeader(buffer);
+    checkElementCounts(elements, encoding, buffer.length - dataStart);
+    const read =
+      encoding === 'ascii'
+        ? asciiReader(buffer, dataStart)
+        : binaryReader(buffer, dataStart, encoding === 'binary_little_endian');
+
+    const vertexElement = elements.find((element) => element.name === 'vertex');
+    const faceElement = elements.find((element) => element.name === 'face');
+    if (!vertexElement || !faceElement) {
+      throw new Error('Vertex and face elements are required');
+    }
+
+    const axes = ['x', 'y', 'z'].map((axis) => vertexElement.properties.findIndex((p) => p.name === axis));
+    if (axes.some((index) => index === -1 || vertexElement.properties[index].countType)) {
+      throw new Error('Vertices need x, y and z properties');
+    }
+    const cornersProperty = faceElement.properties.findIndex(
+      (p) => p.countType && (p.name === 'vertex_indices' || p.name === 'vertex_index'),
+    );
+    if (cornersProperty === -1) {
+      throw new Error('Faces need a vertex_indices list');
+    }
+
+    const coordinates = new Float64Array(vertexElement.count * 3);
+    // Corners of all faces in order, and the number of corners of each face
+    const faceCorners: number[] = [];
+    const faceSizes: number[] = [];
+
+    // Elements follow each other in header order, every property of an instance in turn
+    for (const element of elements) {
+      // Records without properties take no data, however many are declared
+      if (element.properties.length === 0) continue;
+      for (let instance = 0; instance < element.count; instance++) {
+        element.properties.forEach((property, index) => {
+          if (!property.countType) {
+            const value = read(property.type);
+            if (element === vertexElement) {
+              const axis = axes.indexOf(index);
+              if (axis !== -1) coordinates[instance * 3 + axis] = value;
+            }
+            return;
+          }
+
+          const count = read(property.countType);
+          if (!Number.isInteger(count) || count < 0) {
+            throw new Error(`Invalid list length ${count} in ${element.name} ${instance}`);
+          }
+          const isCorners = element === faceElement && index === cornersProperty;
+          for (let item = 0; item < count; item++) {
+            const value = read(property.type);
+            if (isCorners) faceCorners.push(value);
+          }
+          if (isCorners) faceSizes.push(count);
+        });
+      }
+    }
+
+    const builder = createMeshBuilder(faceElement.count);
+    const meshVertices = new Int32Array(vertexElement.count).fill(-1);
+    const toMeshVertex = (vertex: number) => {
+      if (meshVertices[vertex] === -1) {
+        const offset = vertex * 3;
+        meshVertices[vertex] = builder.addVertex(coordinates[offset], coordinates[offset + 1], coordinates[offset + 2]);
+      }
+      return meshVertices[vertex];
+    };
+
+    const addTriangle = (a: number, b: number, c: number) => {
+      const normal = triangleNormal(coordinates, a, b, c);
+      builder.addFace(toMeshVertex(a), toMeshVertex(b), toMeshVertex(c), normal);
+    };
+
+    for (let face = 0, start = 0; face < faceSizes.length; start += faceSizes[face], face++) {
+      const corners = faceCorners.slice(start, start + faceSizes[face]);
+      if (corners.length < 3) {
+        throw new Error(`Face ${face} has fewer than 3 vertices`);
+      }
+      if (!corners.every((vertex) => Number.isInteger(vertex) && vertex >= 0 && vertex < vertexElement.count)) {
+        throw new Error(`Face ${face} references a missing vertex`);
+      }
+
+      if (corners.length === 3) {
+        addTriangle(corners[0], corners[1], corners[2]);
+      } else {
+        for (const [a, b, c] of triangulatePolygon(coordinates, corners)) {
+          addTriangle(a, b, c);
+        }
+      }
+    }
+
+    const warnings: ParseWarning[] = [];
+    const mesh = cleanParsedMesh(builder.build(), warnings);
+    if (faceCount(mesh) === 0) {
+      throw new Error('No valid faces in PLY');
+    }
+
+    return { mesh, warnings };
+  } catch (error) {
+    throw new Error(`PLY parsing failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
@@ -0,0 +1,240 @@
+/**
+ * Processing - Turns uploaded files into stored models and loads them back for further views
+ */
+
+import { nanoid } from 'nanoid';
+import {
+  MAX_FILE_SIZE,
+  VIEW_NAMES,
+  type JobStage,
+  type LengthUnit,
+  type ModelFormat,
+  type ModelSummary,
+  type ProcessingResult,
+  type UploadStlOptions,
+  type Vector3Tuple,
+  type ViewName,
+} from '@stl2d/contracts';
+import { shareFeatures, type MeshFeatures, type ProjectionOptions, type ProjectionStage } from './projection-engine';
+import { faceCount, shareMesh, type Mesh, type Vector3 } from './mesh';
+import { runInPool } from './worker-pool';
+import { loadModel, saveModel, type StoredModel } from './model-store';
+import { getCachedResult, resultCacheKey, setCachedResult, type CachedResult } from './result-cache';
+import { detectModelFormat } from './model-parser';
+
+/**
+ * Pick projection options from upload options or a stored model
+ */
+export function toProjectionOptions(options: Pick<ModelSummary, 'creaseAngle' | 'arcTolerance'>): ProjectionOptions {
+  return {
+    creaseAngle: options.creaseAngle,
+    arcTolerance: options.arcTolerance,
+  };
+}
+
+/**
+ * Convert a vector to its JSON tuple form
+ */
+function toTuple(v: Vector3): Vector3Tuple {
+  return [v.x, v.y, v.z];
+}
+
+/** Progress update of processUpload */
+export interface ProcessingUpdate {
+  stage: JobStage;
+  /** Overall progress from 0 to 1 */
+  progress: number;
+}
+
+/** Share of a view's work done when it reaches each step; its edges are found before it starts */
+const STAGE_PROGRESS: Record<ProjectionStage, number> = {
+  edges: 0,
+  projecting: 0,
+  'post-processing': 0.6,
+};
+
+/** Share of the overall progress taken by parsing */
+const PARSING_SHARE = 0.1;
+
+/** Share of the overall progress taken by finding the edges and cylinders of the mesh */
+const EDGES_SHARE = 0.2;
+
+/**
+ * Parse a file on the worker pool, also finding the features of the mesh when given
+ * projection options to find them for
+ */
+function parseInPool(
+  file: Buffer,
+  format: ModelFormat,
+  unit: LengthUnit,
+  normalize: boolean,
+  { analyze, signal, onProgress }: { analyze?: ProjectionOptions; signal?: AbortSignal; onProgress?: () => void } = {},
+) {
+  // Copied into a buffer of its own, which can be moved to the worker
+  const bytes = new Uint8Array(file);
+  return runInPool(
+    { type: 'parse', file: bytes, format, unit, normalize, analyze },
+    { transfer: [bytes.buffer], signal, onProgress },
+  );
+}
+
+/**
+ * Generate the standard views in parallel, one worker task per view. The tasks read
+ * the mesh and its features from one copy in shared memory. The reported stage is the
+ * one of the least advanced view.
+ */
+function projectInPool(
+  mesh: Mesh,
+  features: MeshFeatures,
+  options: ProjectionOptions,
+  report: (update: ProcessingUpdate) => void,
+  signal?: AbortSignal,
+) {
+  const done = new Map<ViewName, number>();
+  const stages = new Map<ViewName, ProjectionStage>();
+
+  const update = () => {
+    const pending = VIEW_NAMES.filter((view) => !done.has(view)).map((view) => stages.get(view) ?? 'projecting');
+    const stage = pending.reduce<ProjectionStage>(
+      (least, current) => (STAGE_PROGRESS[current] < STAGE_PROGRESS[least] ? current : least),
+      'post-processing',
+    );
+    const viewProgress = VIEW_NAMES.reduce(
+      (sum, view) => sum + (done.get(view) ?? STAGE_PROGRESS[stages.get(view) ?? 'projecting']),
+      0,
+    );
+    const viewsStart = PARSING_SHARE + EDGES_SHARE;
+    report({ stage, progress: viewsStart + ((1 - viewsStart) * viewProgress) / VIEW_NAMES.length });
+  };
+
+  const shared = { mesh: shareMesh(mesh), features: shareFeatures(features) };
+
+  // A failed view stops the others
+  const failure = new AbortController();
+  const taskSignal = signal ? AbortSignal.any([signal, failure.signal]) : failure.signal;
+
+  return Promise.all(
+    VIEW_NAMES.map(async (view) => {
+      try {
+        const result = await runInPool(
+          { type: 'view', mesh: shared.mesh, view, options, features: shared.features },
+          {
+            signal: taskSignal,
+            onProgress: (stage) => {
+              stages.set(view, stage);
+              update();
+            },
+          },
+        );
+        done.set(view, 1);
+        update();
+        return result;
+      } catch (error) {
+        failure.abort(error);
+        throw error;
+      }
+    }),
+  );
+}
+
+/**
+ * Parse a file and generate the standard views on the worker pool
+ */
+async function generateResult(
+  file: Buffer,
+  format: ModelFormat,
+  options: UploadStlOptions,
+  report: (update: ProcessingUpdate) => void,
+  signal?: AbortSignal,
+): Promise<CachedResult> {
+  report({ stage: 'parsing', progress: 0 });
+  const projectionOptions = toProjectionOptions(options);
+  const { mesh, bounds, warnings, features } = await parseInPool(file, format, options.unit, options.normalize, {
+    analyze: projectionOptions,
+    signal,
+    onProgress: () => report({ stage: 'edges', progress: PARSING_SHARE }),
+  });
+  const views = await projectInPool(mesh, features!, projectionOptions, report, signal);
+
+  return {
+    views,
+    bounds: { min: toTuple(bounds.min), max: toTuple(bounds.max) },
+    triangleCount: faceCount(mesh),
+    warnings,
+  };
+}
+
+/**
+ * Parse an uploaded file, generate the standard views and store the model. Parsing
+ * and projection run on the worker pool; aborting the signal stops them.
+ */
+export async function processUpload(
+  file: Buffer,
+  options: UploadStlOptions,
+  report: (update: ProcessingUpdate) => void = () => {},
+  signal?: AbortSignal,
+): Promise<ProcessingResult> {
+  if (file.length > MAX_FILE_SIZE) {
+    throw new Error(`File size exceeds ${MAX_FILE_SIZE / 1024 / 1024}MB limit`);
+  }
+
+  const format = detectModelFormat(file, options.fileName);
+
+  // Identical files processed with the same options are served from the cache
+  const cacheKey = resultCacheKey(file, { ...options, format });
+  const cached = getCachedResult(cacheKey);
+  const result = cached ?? (await generateResult(file, format, options, report, signal));
+
+  // Last chance to stop before the model is stored
+  signal?.throwIfAborted();
+  if (!cached) setCachedResult(cacheKey, result);
+
+  const summary: ModelSummary = {
+    modelId: nanoid(),
+    fileName: options.fileName,
+    unit: options.unit,
+    normalized: options.normalize,
+    bounds: result.bounds,
+    creaseAngle: options.creaseAngle,
+    arcTolerance: options.arcTolerance,
+    triangleCount: result.triangleCount,
+    fileSize: file.length,
+    createdAt: new Date().toISOString(),
+    warnings: result.warnings,
+  };
+
+  // Keep the upload and its views so the model can be reopened later
+  await saveModel({ summary, views: result.views, file });
+
+  return {
+    success: true,
+    modelId: summary.modelId,
+    fileName: summary.fileName,
+    unit: summary.unit,
+    normalized: summary.normalized,
+    bounds: summary.bounds,
+    views: result.views,
+    warnings: result.warnings,
+    cached: cached !== undefined,
+  };
+}
+
+/**
+ * Load a stored model or fail with a not found error
+ */
+export async function loadStoredModel(modelId: string): Promise<StoredModel> {
+  const model = await loadModel(modelId);
+  if (!model) {
+    throw new Error(`Model ${modelId} not found`);
+  }
+  return model;
+}
+
+/**
+ * Parse a stored model's file again on the worker pool, normalized like at upload time
+ */
+export async function loadStoredMesh(modelId: string): Promise<{ mesh: Mesh; summary: ModelSummary }> {
+  const { summary, file } = await loadStoredModel(modelId);
+  const { mesh } = await parseInPool(file, detectModelFormat(file, summary.fileName), summary.unit, summary.normalized);
+  return { mesh, summary };
+}
@@ -0,0 +1,71 @@
+import { VIEW_NAMES } from '@stl2d/contracts';
+import { describe, expect, it } from 'vitest';
+import { box, cylinderY, toMesh } from '@/test/meshes';
+import { shareMesh } from './mesh';
+import { analyzeMesh, generateProjection, generateProjections, shareFeatures } from './projection-engine';
+
+// A plate with a round boss, giving both straight edges and a cylinder
+const mesh = toMesh([...box([0, 0, 0], [30, 2, 20]), ...cylinderY(5, 2, 10, 48, 15, 10)]);
+
+describe('analyzeMesh', () => {
+  it('finds the cylinders of the mesh', () => {
+    const { cylinders } = analyzeMesh(mesh);
+
+    expect(cylinders).toHaveLength(1);
+    expect(cylinders[0].radius).toBeCloseTo(5);
+  });
+
+  it('packs every edge with the faces next to it', () => {
+    const { edges } = analyzeMesh(mesh);
+
+    expect(edges.faceStarts).toHaveLength(edges.bodies.length + 1);
+    expect(edges.vertices).toHaveLength(edges.bodies.length * 2);
+    expect(edges.faceStarts.at(-1)).toBe(edges.faces.length);
+  });
+});
+
+describe('generateProjection', () => {
+  it('gives the same views from features found beforehand', () => {
+    const features = analyzeMesh(mesh);
+
+    for (const view of VIEW_NAMES) {
+      expect(generateProjection(mesh, view, {}, undefined, features)).toEqual(generateProjection(mesh, view));
+    }
+  });
+
+  it('reads a mesh and its features from shared memory', () => {
+    const shared = shareMesh(mesh);
+    const features = shareFeatures(analyzeMesh(mesh));
+
+    expect(shared.positions.buffer).toBeInstanceOf(SharedArrayBuffer);
+    expect(features.edges.faces.buffer).toBeInstanceOf(SharedArrayBuffer);
+    expect(generateProjection(shared, 'top', {}, undefined, features)).toEqual(
+      generateProjections(mesh).find(({ name }) => name === 'top'),
+    );
+  });
+
+  it('skips the edges step when given the features', () => {
+    const steps: string[] = [];
+    generateProjection(mesh, 'front', {}, (stage) => steps.push(stage), analyzeMesh(mesh));
+
+    expect(steps).toEqual(['projecting', 'post-processing']);
+  });
+});
+
+describe('generateProjections', () => {
+  it('does not draw hidden lines over visible lines', () => {
+    // A block with a taller block of another body behind its left end
+    const views = generateProjections(toMesh(box([0, 0, 0], [30, 10, 10]), box([0, 0, 10], [10, 20, 20])));
+    const onLine = ([x, y]: number[], [[x0, y0], [x1, y1]]: number[][]) =>
+      Math.abs((x1 - x0) * (y - y0) - (y1 - y0) * (x - x0)) < 1e-6 * Math.hypot(x1 - x0, y1 - y0) &&
+      (x - x0) * (x - x1) + (y - y0) * (y - y1) <= 1e-12;
+
+    expect(views.some(({ hiddenLines }) => hiddenLines.length > 0)).toBe(true);
+    for (const { lines, hiddenLines } of views) {
+      for (const [p0, p1] of hiddenLines) {
+        const middle = [(p0[0] + p1[0]) / 2, (p0[1] + p1[1]) / 2];
+        expect(lines.some((line) => onLine(middle, line))).toBe(false);
+      }
+    }
+  });
+});
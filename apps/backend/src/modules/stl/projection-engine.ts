@@ -2,14 +2,73 @@
  * Projection Engine - Generates orthographic projections with hidden line removal
  */
 
-import type { ProjectionView, ViewName } from '@stl2d/contracts';
-import type { Mesh, Vector3, Face } from './stl-parser';
+import {
+  DEFAULT_CREASE_ANGLE,
+  type Dimension,
+  type HatchOptions,
+  type LineSegment,
+  type ProjectionView,
+  type SectionPlane,
+  type ViewCamera,
+  type ViewName,
+} from '@stl2d/contracts';
+import { faceCount, getFaceNormal, getVertex, shareArray, vertexCount, type Mesh, type Vector3 } from './mesh';
+import {
+  removeHiddenLines,
+  type ProjectedEdge,
+  type ProjectedPoint,
+  type ProjectedTriangle,
+} from './hidden-line-removal';
+import { fitArcs } from './arc-fitting';
+import { buildPolylines } from './contours';
+import { generateDimensions } from './dimensions';
+import { detectCylinders, type Cylinder } from './cylinders';
+import { cutMesh, hatchRegion, splitByRegion, toPlane, type Plane } from './section';
 
+/**
+ * Version of the generated views; bump it whenever a change alters the output,
+ * so that results cached by an older version are no longer served
+ */
+export const ENGINE_VERSION = 4;
+
+/** Mesh edge between two vertex indices, with the indices of the faces sharing it */
 interface Edge {
-  v0: Vector3;
-  v1: Vector3;
-  faces: Face[];
-  isVisible: boolean;
+  a: number;
+  b: number;
+  faces: number[];
+  body: number;
+}
+
+/** Mesh edges in flat arrays, so that they can be moved to and shared between worker threads */
+interface PackedEdges {
+  /** Vertex index pairs */
+  vertices: Uint32Array;
+  /** Start of each edge's faces in `faces`, followed by the end of the last edge's faces */
+  faceStarts: Uint32Array;
+  faces: Uint32Array;
+  bodies: Uint32Array;
+}
+
+/** Edges and cylinders of a mesh, found once and used by all of its views */
+export interface MeshFeatures {
+  edges: PackedEdges;
+  cylinders: Cylinder[];
+}
+
+/** Options controlling which edges are drawn */
+export interface ProjectionOptions {
+  /** Minimum angle (degrees) between neighbouring face normals for an edge to be drawn */
+  creaseAngle?: number;
+  /** Maximum deviation (model units) when replacing segment chains with arcs and circles */
+  arcTolerance?: number;
+}
+
+/** Projection options with defaults applied */
+interface ResolvedOptions {
+  creaseAngle: number;
+  arcTolerance: number;
+  /** Geometric tolerance in model units */
+  epsilon: number;
 }
 
 interface Point2D {
@@ -22,101 +81,250 @@ interface Line2D {
   p1: Point2D;
 }
 
+/** Line drawn for an edge of one body of the mesh */
+interface BodyLine extends Line2D {
+  body: number;
+}
+
+/** Orthonormal view frame: screen axes plus the direction towards the viewer */
+interface ViewBasis {
+  right: Vector3;
+  up: Vector3;
+  toViewer: Vector3;
+}
+
+/**
+ * View frames for the six standard projections
+ */
+const STANDARD_VIEW_BASES: Record<ViewName, ViewBasis> = {
+  // Looking along -Z axis
+  front: { right: { x: 1, y: 0, z: 0 }, up: { x: 0, y: 1, z: 0 }, toViewer: { x: 0, y: 0, z: -1 } },
+  // Looking along +Z axis
+  back: { right: { x: -1, y: 0, z: 0 }, up: { x: 0, y: 1, z: 0 }, toViewer: { x: 0, y: 0, z: 1 } },
+  // Looking along +X axis
+  left: { right: { x: 0, y: 0, z: -1 }, up: { x: 0, y: 1, z: 0 }, toViewer: { x: 1, y: 0, z: 0 } },
+  // Looking along -X axis
+  right: { right: { x: 0, y: 0, z: 1 }, up: { x: 0, y: 1, z: 0 }, toViewer: { x: -1, y: 0, z: 0 } },
+  // Looking along -Y axis
+  top: { right: { x: 1, y: 0, z: 0 }, up: { x: 0, y: 0, z: -1 }, toViewer: { x: 0, y: -1, z: 0 } },
+  // Looking along +Y axis
+  bottom: { right: { x: 1, y: 0, z: 0 }, up: { x: 0, y: 0, z: 1 }, toViewer: { x: 0, y: 1, z: 0 } },
+};
+
+function dot(a: Vector3, b: Vector3): number {
+  return a.x * b.x + a.y * b.y + a.z * b.z;
+}
+
+function cross(a: Vector3, b: Vector3): Vector3 {
+  return {
+    x: a.y * b.z - a.z * b.y,
+    y: a.z * b.x - a.x * b.z,
+    z: a.x * b.y - a.y * b.x,
+  };
+}
+
+function normalize(v: Vector3): Vector3 | null {
+  const length = Math.sqrt(dot(v, v));
+  if (length < 1e-12) return null;
+  return { x: v.x / length, y: v.y / length, z: v.z / length };
+}
+
 /**
- * Project 3D point to 2D based on view direction
+ * Build a view frame for an arbitrary camera.
+ * Axes follow the same convention as the standard views, so a camera looking along +Z
+ * with +Y up reproduces the front view.
  */
-function project3DTo2D(point: Vector3, viewDirection: ViewName): Point2D {
-  switch (viewDirection) {
-    case 'front': // Looking along -Z axis
-      return { x: point.x, y: point.y };
-    case 'back': // Looking along +Z axis
-      return { x: -point.x, y: point.y };
-    case 'left': // Looking along +X axis
-      return { x: -point.z, y: point.y };
-    case 'right': // Looking along -X axis
-      return { x: point.z, y: point.y };
-    case 'top': // Looking along -Y axis
-      return { x: point.x, y: -point.z };
-    case 'bottom': // Looking along +Y axis
-      return { x: point.x, y: point.z };
+function createViewBasis(camera: ViewCamera): ViewBasis {
+  const [dx, dy, dz] = camera.direction;
+  const [ux, uy, uz] = camera.up;
+
+  const direction = normalize({ x: dx, y: dy, z: dz });
+  if (!direction) {
+    throw new Error('View direction must not be zero');
+  }
+
+  const right = normalize(cross({ x: ux, y: uy, z: uz }, direction));
+  if (!right) {
+    throw new Error('Up vector must not be zero or parallel to the view direction');
   }
+
+  return {
+    right,
+    up: cross(direction, right),
+    toViewer: { x: -direction.x, y: -direction.y, z: -direction.z },
+  };
 }
 
 /**
- * Get view direction vector for each projection
+ * Project 3D point to 2D and keep its depth along the view direction
  */
-function getViewDirection(view: string): Vector3 {
-  const directions: Record<string, Vector3> = {
-    front: { x: 0, y: 0, z: -1 },
-    back: { x: 0, y: 0, z: 1 },
-    left: { x: 1, y: 0, z: 0 },
-    right: { x: -1, y: 0, z: 0 },
-    top: { x: 0, y: -1, z: 0 },
-    bottom: { x: 0, y: 1, z: 0 },
+function projectWithDepth(point: Vector3, basis: ViewBasis): ProjectedPoint {
+  return {
+    x: dot(point, basis.right),
+    y: dot(point, basis.up),
+    depth: dot(point, basis.toViewer),
   };
-  return directions[view] || { x: 0, y: 0, z: -1 };
 }
 
 /**
- * Determine if a face is front-facing relative to view direction
+ * Geometric tolerance relative to the model size, so that results do not depend on the model's units
  */
-function isFrontFacing(face: Face, viewDirection: Vector3): boolean {
-  const normal = face.normal;
-  const dotProduct = normal.x * viewDirection.x + normal.y * viewDirection.y + normal.z * viewDirection.z;
-  return dotProduct > 0;
+function getModelEpsilon(mesh: Mesh): number {
+  const { min, max } = mesh.bounds;
+  const size = Math.max(max.x - min.x, max.y - min.y, max.z - min.z);
+  return (size || 1) * 1e-6;
 }
 
 /**
- * Extract edges from mesh
+ * Apply defaults to projection options; the arc tolerance scales with the model size
  */
-function extractEdges(mesh: Mesh): Map<string, Edge> {
-  const edgeMap = new Map<string, Edge>();
+function resolveOptions(mesh: Mesh, options: ProjectionOptions): ResolvedOptions {
+  const epsilon = getModelEpsilon(mesh);
+  return {
+    creaseAngle: options.creaseAngle ?? DEFAULT_CREASE_ANGLE,
+    arcTolerance: options.arcTolerance ?? epsilon * 100,
+    epsilon,
+  };
+}
 
-  for (const face of mesh.faces) {
-    const v0 = mesh.vertices[face.vertices[0]];
-    const v1 = mesh.vertices[face.vertices[1]];
-    const v2 = mesh.vertices[face.vertices[2]];
+/**
+ * Determine if a face is front-facing relative to view direction
+ */
+function isFrontFacing(mesh: Mesh, face: number, viewDirection: Vector3): boolean {
+  return dot(getFaceNormal(mesh, face), viewDirection) > 0;
+}
 
-    const edges: [Vector3, Vector3][] = [
-      [v0, v1],
-      [v1, v2],
-      [v2, v0],
-    ];
+/**
+ * Check whether the faces of a shared edge meet at a sharp angle.
+ * Tessellation edges on smooth surfaces stay below the threshold.
+ */
+function isCreaseEdge(mesh: Mesh, edge: Edge, creaseAngle: number): boolean {
+  if (edge.faces.length !== 2) return false;
+
+  const n0 = getFaceNormal(mesh, edge.faces[0]);
+  const n1 = getFaceNormal(mesh, edge.faces[1]);
+  const length0 = Math.sqrt(n0.x * n0.x + n0.y * n0.y + n0.z * n0.z);
+  const length1 = Math.sqrt(n1.x * n1.x + n1.y * n1.y + n1.z * n1.z);
 
-    for (const [va, vb] of edges) {
-      // Create a canonical key for the edge (order-independent)
-      const key1 = `${va.x},${va.y},${va.z}|${vb.x},${vb.y},${vb.z}`;
-      const key2 = `${vb.x},${vb.y},${vb.z}|${va.x},${va.y},${va.z}`;
+  if (length0 === 0 || length1 === 0) return false;
 
-      const key = key1 < key2 ? key1 : key2;
+  const cosine = (n0.x * n1.x + n0.y * n1.y + n0.z * n1.z) / (length0 * length1);
+  const angle = (Math.acos(Math.max(-1, Math.min(1, cosine))) * 180) / Math.PI;
+  return angle > creaseAngle;
+}
 
-      if (edgeMap.has(key)) {
-        edgeMap.get(key)!.faces.push(face);
+/**
+ * Extract edges from mesh.
+ * Vertices are welded by the parser, so an edge is identified by its pair of vertex indices.
+ * Each body has edges of its own, so bodies touching each other do not share edges.
+ */
+function extractEdges(mesh: Mesh): Edge[] {
+  const edgeMaps = mesh.bodies.map(() => new Map<number, Edge>());
+  const { indices, faceBodies } = mesh;
+  const count = vertexCount(mesh);
+
+  for (let face = 0; face < indices.length / 3; face++) {
+    const body = faceBodies[face];
+    const edgeMap = edgeMaps[body];
+    for (let i = 0; i < 3; i++) {
+      const a = indices[face * 3 + i];
+      const b = indices[face * 3 + ((i + 1) % 3)];
+
+      // Canonical key for the edge (order-independent)
+      const key = a < b ? a * count + b : b * count + a;
+
+      const edge = edgeMap.get(key);
+      if (edge) {
+        edge.faces.push(face);
       } else {
-        edgeMap.set(key, {
-          v0: va,
-          v1: vb,
-          faces: [face],
-          isVisible: false,
-        });
+        edgeMap.set(key, { a, b, faces: [face], body });
       }
     }
   }
 
-  return edgeMap;
+  return edgeMaps.flatMap((edgeMap) => Array.from(edgeMap.values()));
+}
+
+function packEdges(edges: Edge[]): PackedEdges {
+  const vertices = new Uint32Array(edges.length * 2);
+  const faceStarts = new Uint32Array(edges.length + 1);
+  const bodies = new Uint32Array(edges.length);
+  edges.forEach((edge, i) => {
+    vertices[i * 2] = edge.a;
+    vertices[i * 2 + 1] = edge.b;
+    faceStarts[i + 1] = faceStarts[i] + edge.faces.length;
+    bodies[i] = edge.body;
+  });
+
+  const faces = new Uint32Array(faceStarts[edges.length]);
+  edges.forEach((edge, i) => faces.set(edge.faces, faceStarts[i]));
+  return { vertices, faceStarts, faces, bodies };
+}
+
+function unpackEdges({ vertices, faceStarts, faces, bodies }: PackedEdges): Edge[] {
+  return Array.from(bodies, (body, i) => ({
+    a: vertices[i * 2],
+    b: vertices[i * 2 + 1],
+    faces: Array.from(faces.subarray(faceStarts[i], faceStarts[i + 1])),
+    body,
+  }));
+}
+
+/**
+ * Find the edges and cylinders of a mesh, which do not depend on the view
+ */
+export function analyzeMesh(mesh: Mesh, options: ProjectionOptions = {}): MeshFeatures {
+  const resolved = resolveOptions(mesh, options);
+  return {
+    edges: packEdges(extractEdges(mesh)),
+    cylinders: detectCylinders(mesh, resolved.arcTolerance),
+  };
 }
 
 /**
- * Determine visible edges for a given view (CAD style)
- * Only shows silhouette edges and boundary edges, not internal edges
+ * Buffers of mesh features to list as transferables; transferring detaches them on the sending side
  */
-function getVisibleEdges(mesh: Mesh, viewDirection: ViewName): Line2D[] {
-  const viewDir = getViewDirection(viewDirection);
-  const edgeMap = extractEdges(mesh);
-  const visibleLines: Line2D[] = [];
+export function featuresTransferList({ edges }: MeshFeatures): ArrayBuffer[] {
+  return [edges.vertices.buffer, edges.faceStarts.buffer, edges.faces.buffer, edges.bodies.buffer] as ArrayBuffer[];
+}
 
-  for (const edge of Array.from(edgeMap.values())) {
-    const frontFacingCount = edge.faces.filter((f: Face) => isFrontFacing(f, viewDir)).length;
+/**
+ * Copy of mesh features in shared memory, which any number of worker tasks read without copying
+ */
+export function shareFeatures({ edges, cylinders }: MeshFeatures): MeshFeatures {
+  return {
+    edges: {
+      vertices: shareArray(edges.vertices),
+      faceStarts: shareArray(edges.faceStarts),
+      faces: shareArray(edges.faces),
+      bodies: shareArray(edges.bodies),
+    },
+    cylinders,
+  };
+}
+
+/**
+ * Determine visible and hidden edges for a given view (CAD style)
+ * Uses silhouette, boundary and crease edges, not smooth internal edges.
+ * Parts of those edges covered by other faces are returned as hidden lines.
+ */
+function getViewEdges(
+  mesh: Mesh,
+  edges: Edge[],
+  basis: ViewBasis,
+  creaseAngle: number,
+): { visible: BodyLine[]; hidden: BodyLine[] } {
+  const viewDir = basis.toViewer;
+  const candidateEdges: ProjectedEdge[] = [];
+
+  // Every vertex is shared by several edges and faces, so project each one once
+  const projected: ProjectedPoint[] = [];
+  for (let i = 0; i < vertexCount(mesh); i++) {
+    projected.push(projectWithDepth(getVertex(mesh, i), basis));
+  }
+
+  for (const edge of edges) {
+    const frontFacingCount = edge.faces.filter((f) => isFrontFacing(mesh, f, viewDir)).length;
     const backFacingCount = edge.faces.length - frontFacingCount;
 
     let isVisible = false;
@@ -125,30 +333,54 @@ function getVisibleEdges(mesh: Mesh, viewDirection: ViewName): Line2D[] {
       // Boundary edge - visible only if front-facing
       isVisible = frontFacingCount === 1;
     } else if (edge.faces.length === 2) {
-      // Shared edge - visible only if it's a silhouette (one front, one back)
-      // Do NOT show edges between two front-facing faces (internal edges)
-      isVisible = frontFacingCount === 1 && backFacingCount === 1;
+      // Shared edge - visible if it's a silhouette (one front, one back)
+      // or a crease where the faces meet at a sharp angle
+      // Do NOT show edges between smoothly joined faces (tessellation edges)
+      isVisible = (frontFacingCount === 1 && backFacingCount === 1) || isCreaseEdge(mesh, edge, creaseAngle);
     }
     // Edges with more than 2 faces are not shown (non-manifold, should be rare)
 
     if (isVisible) {
-      const p0 = project3DTo2D(edge.v0, viewDirection);
-      const p1 = project3DTo2D(edge.v1, viewDirection);
-      visibleLines.push({ p0, p1 });
+      candidateEdges.push({
+        p0: projected[edge.a],
+        p1: projected[edge.b],
+        faces: edge.faces,
+        body: edge.body,
+      });
     }
   }
 
-  return visibleLines;
+  const { indices } = mesh;
+  const triangles: ProjectedTriangle[] = [];
+  for (let face = 0; face < faceCount(mesh); face++) {
+    triangles.push({
+      a: projected[indices[face * 3]],
+      b: projected[indices[face * 3 + 1]],
+      c: projected[indices[face * 3 + 2]],
+      face,
+    });
+  }
+
+  return removeHiddenLines(candidateEdges, triangles, getModelEpsilon(mesh));
 }
 
 /**
  * Merge collinear segments
+ * Segments are grouped by their supporting line (direction and offset),
+ * then overlapping or touching segments on the same line are joined.
  */
 function mergeCollinearSegments(lines: Line2D[], epsilon: number = 1e-6): Line2D[] {
   if (lines.length === 0) return [];
 
-  // Group lines by direction
-  const grouped = new Map<string, Line2D[]>();
+  interface Span {
+    start: number;
+    end: number;
+    startPoint: Point2D;
+    endPoint: Point2D;
+  }
+
+  // Group lines by supporting line
+  const grouped = new Map<string, Span[]>();
 
   for (const line of lines) {
     const dx = line.p1.x - line.p0.x;
@@ -157,88 +389,214 @@ function mergeCollinearSegments(lines: Line2D[], epsilon: number = 1e-6): Line2D
 
     if (length < epsilon) continue; // Skip degenerate lines
 
-    // Normalize direction
-    const dirX = dx / length;
-    const dirY = dy / length;
+    // Normalize direction so that opposite segments share a group
+    let dirX = dx / length;
+    let dirY = dy / length;
+    if (dirX < -1e-6 || (Math.abs(dirX) <= 1e-6 && dirY < 0)) {
+      dirX = -dirX;
+      dirY = -dirY;
+    }
+
+    // Signed distance of the supporting line from the origin
+    const offset = dirX * line.p0.y - dirY * line.p0.x;
 
-    // Create key for direction (rounded to avoid floating point issues)
-    const key = `${Math.round(dirX * 1e6)},${Math.round(dirY * 1e6)}`;
+    // Create key for the line (rounded to avoid floating point issues)
+    const key = `${Math.round(dirX * 1e6)},${Math.round(dirY * 1e6)},${Math.round(offset / (epsilon * 10))}`;
+
+    const s0 = line.p0.x * dirX + line.p0.y * dirY;
+    const s1 = line.p1.x * dirX + line.p1.y * dirY;
+    const span: Span =
+      s0 <= s1
+        ? { start: s0, end: s1, startPoint: line.p0, endPoint: line.p1 }
+        : { start: s1, end: s0, startPoint: line.p1, endPoint: line.p0 };
 
     if (!grouped.has(key)) {
       grouped.set(key, []);
     }
-    grouped.get(key)!.push(line);
+    grouped.get(key)!.push(span);
   }
 
   const merged: Line2D[] = [];
 
-  for (const lineGroup of Array.from(grouped.values())) {
-    if (lineGroup.length === 0) continue;
-
-    // Sort lines along their direction
-    const sorted = lineGroup.sort((a: Line2D, b: Line2D) => {
-      const projA = a.p0.x + a.p0.y;
-      const projB = b.p0.x + b.p0.y;
-      return projA - projB;
-    });
+  for (const spans of Array.from(grouped.values())) {
+    // Sort spans along their direction
+    spans.sort((a, b) => a.start - b.start);
 
-    let currentStart = sorted[0].p0;
-    let currentEnd = sorted[0].p1;
+    let current = { ...spans[0] };
 
-    for (let i = 1; i < sorted.length; i++) {
-      const line = sorted[i];
+    for (let i = 1; i < spans.length; i++) {
+      const span = spans[i];
 
-      // Check if line is collinear and adjacent
-      const dist = pointToLineDistance(line.p0, currentEnd, line.p1);
-
-      if (dist < epsilon) {
-        // Extend current line
-        const d1 = distance(currentEnd, line.p0);
-        const d2 = distance(currentEnd, line.p1);
-        currentEnd = d2 > d1 ? line.p1 : line.p0;
+      if (span.start <= current.end + epsilon) {
+        // Overlapping or adjacent - extend current line
+        if (span.end > current.end) {
+          current.end = span.end;
+          current.endPoint = span.endPoint;
+        }
       } else {
         // Start new line
-        merged.push({ p0: currentStart, p1: currentEnd });
-        currentStart = line.p0;
-        currentEnd = line.p1;
+        merged.push({ p0: current.startPoint, p1: current.endPoint });
+        current = { ...span };
       }
     }
 
-    merged.push({ p0: currentStart, p1: currentEnd });
+    merged.push({ p0: current.startPoint, p1: current.endPoint });
   }
 
   return merged;
 }
 
+/** Segments bucketed by bounding box, for finding the ones near another segment */
+interface SegmentGrid {
+  /** Segments whose bounding boxes come within epsilon of the line's bounding box (each once) */
+  near(line: Line2D): Line2D[];
+}
+
 /**
- * Calculate distance between two points
+ * Uniform grid over segment bounding boxes
  */
-function distance(p1: Point2D, p2: Point2D): number {
-  const dx = p2.x - p1.x;
-  const dy = p2.y - p1.y;
-  return Math.sqrt(dx * dx + dy * dy);
+function createSegmentGrid(segments: Line2D[], epsilon: number): SegmentGrid {
+  if (segments.length === 0) return { near: () => [] };
+
+  const boxes = segments.map(({ p0, p1 }) => [
+    Math.min(p0.x, p1.x),
+    Math.min(p0.y, p1.y),
+    Math.max(p0.x, p1.x),
+    Math.max(p0.y, p1.y),
+  ]);
+  let minX = Infinity,
+    minY = Infinity,
+    maxX = -Infinity,
+    maxY = -Infinity;
+  for (const box of boxes) {
+    minX = Math.min(minX, box[0]);
+    minY = Math.min(minY, box[1]);
+    maxX = Math.max(maxX, box[2]);
+    maxY = Math.max(maxY, box[3]);
+  }
+
+  // Aim for roughly one segment per cell, capped to keep memory bounded
+  const divisions = Math.max(1, Math.min(256, Math.ceil(Math.sqrt(segments.length))));
+  const cellSize = Math.max(maxX - minX, maxY - minY, epsilon) / divisions;
+  const columns = Math.max(1, Math.ceil((maxX - minX) / cellSize));
+  const rows = Math.max(1, Math.ceil((maxY - minY) / cellSize));
+  const cells: number[][] = Array.from({ length: columns * rows }, () => []);
+
+  const forEachCell = (box: number[], callback: (cell: number) => void) => {
+    const column = (x: number) => Math.max(0, Math.min(columns - 1, Math.floor((x - minX) / cellSize)));
+    const row = (y: number) => Math.max(0, Math.min(rows - 1, Math.floor((y - minY) / cellSize)));
+    for (let r = row(box[1]); r <= row(box[3]); r++) {
+      for (let c = column(box[0]); c <= column(box[2]); c++) callback(r * columns + c);
+    }
+  };
+
+  boxes.forEach((box, index) => forEachCell(box, (cell) => cells[cell].push(index)));
+
+  // Query number of the last query that returned each segment, to skip duplicates
+  const stamps = new Array(segments.length).fill(0);
+  let stamp = 0;
+
+  return {
+    near({ p0, p1 }) {
+      stamp++;
+      const found: Line2D[] = [];
+      const box = [
+        Math.min(p0.x, p1.x) - epsilon,
+        Math.min(p0.y, p1.y) - epsilon,
+        Math.max(p0.x, p1.x) + epsilon,
+        Math.max(p0.y, p1.y) + epsilon,
+      ];
+      forEachCell(box, (cell) => {
+        for (const index of cells[cell]) {
+          if (stamps[index] !== stamp) {
+            stamps[index] = stamp;
+            found.push(segments[index]);
+          }
+        }
+      });
+      return found;
+    },
+  };
 }
 
 /**
- * Calculate distance from point to line segment
+ * Remove the parts of lines that lie on top of covering lines.
+ * Used to keep hidden lines from being drawn over coincident visible lines.
  */
-function pointToLineDistance(p: Point2D, lineStart: Point2D, lineEnd: Point2D): number {
-  const dx = lineEnd.x - lineStart.x;
-  const dy = lineEnd.y - lineStart.y;
-  const lengthSq = dx * dx + dy * dy;
+function subtractOverlappingSegments(lines: Line2D[], cover: SegmentGrid, epsilon: number = 1e-6): Line2D[] {
+  const result: Line2D[] = [];
 
-  if (lengthSq === 0) return distance(p, lineStart);
+  for (const line of lines) {
+    const dx = line.p1.x - line.p0.x;
+    const dy = line.p1.y - line.p0.y;
+    const lengthSq = dx * dx + dy * dy;
+    if (lengthSq === 0) continue;
+
+    // Collect parametric intervals of the line covered by collinear cover segments.
+    // Only cover segments near the line can overlap it.
+    const covered: [number, number][] = [];
+    for (const other of cover.near(line)) {
+      if (pointToInfiniteLineDistance(other.p0, line) > epsilon) continue;
+      if (pointToInfiniteLineDistance(other.p1, line) > epsilon) continue;
+
+      const t0 = ((other.p0.x - line.p0.x) * dx + (other.p0.y - line.p0.y) * dy) / lengthSq;
+      const t1 = ((other.p1.x - line.p0.x) * dx + (other.p1.y - line.p0.y) * dy) / lengthSq;
+      const start = Math.max(0, Math.min(t0, t1));
+      const end = Math.min(1, Math.max(t0, t1));
+      if (end > start) covered.push([start, end]);
+    }
 
-  let t = ((p.x - lineStart.x) * dx + (p.y - lineStart.y) * dy) / lengthSq;
-  t = Math.max(0, Math.min(1, t));
+    covered.sort((a, b) => a[0] - b[0]);
+
+    const gap = epsilon / Math.sqrt(lengthSq);
+    let cursor = 0;
+    for (const [start, end] of covered) {
+      if (start - cursor > gap) {
+        result.push({
+          p0: { x: line.p0.x + cursor * dx, y: line.p0.y + cursor * dy },
+          p1: { x: line.p0.x + start * dx, y: line.p0.y + start * dy },
+        });
+      }
+      cursor = Math.max(cursor, end);
+    }
+    if (1 - cursor > gap) {
+      result.push({
+        p0: cursor === 0 ? line.p0 : { x: line.p0.x + cursor * dx, y: line.p0.y + cursor * dy },
+        p1: line.p1,
+      });
+    }
+  }
 
-  const closestX = lineStart.x + t * dx;
-  const closestY = lineStart.y + t * dy;
+  return result;
+}
 
-  const distX = p.x - closestX;
-  const distY = p.y - closestY;
+/**
+ * Calculate distance from point to the infinite line through a segment
+ */
+function pointToInfiniteLineDistance(p: Point2D, line: Line2D): number {
+  const dx = line.p1.x - line.p0.x;
+  const dy = line.p1.y - line.p0.y;
+  const length = Math.sqrt(dx * dx + dy * dy);
 
-  return Math.sqrt(distX * distX + distY * distY);
+  if (length === 0) return distance(p, line.p0);
+
+  return Math.abs(dx * (p.y - line.p0.y) - dy * (p.x - line.p0.x)) / length;
+}
+
+/**
+ * Calculate distance between two points
+ */
+function distance(p1: Point2D, p2: Point2D): number {
+  const dx = p2.x - p1.x;
+  const dy = p2.y - p1.y;
+  return Math.sqrt(dx * dx + dy * dy);
+}
+
+/**
+ * Number of decimals that keeps coordinates accurate to the given tolerance
+ */
+function getRoundingDecimals(epsilon: number): number {
+  return Math.max(0, Math.ceil(-Math.log10(epsilon)));
 }
 
 /**
@@ -259,6 +617,16 @@ function roundCoordinates(lines: Line2D[], decimals: number = 6): Line2D[] {
   }));
 }
 
+/**
+ * Convert lines to array format for JSON
+ */
+function toLineSegments(lines: Line2D[]): LineSegment[] {
+  return lines.map((line) => [
+    [line.p0.x, line.p0.y],
+    [line.p1.x, line.p1.y],
+  ]);
+}
+
 /**
  * Calculate bounding box of 2D lines
  */
@@ -286,35 +654,305 @@ function calculateBbox(lines: Line2D[]): [number, number, number, number] {
   return [minX - padX, minY - padY, maxX + padX, maxY + padY];
 }
 
+/** Cosine of the largest angle between a cylinder axis and the view direction for a center mark */
+const AXIS_ALIGNMENT = Math.cos((1 * Math.PI) / 180);
+
+/** How far center marks and centerlines extend past the feature, relative to its radius */
+const CENTER_LINE_EXTENSION = 0.25;
+
 /**
- * Generate all 6 orthographic projections
+ * Center marks for cylinders seen along their axis and centerlines for cylinders seen
+ * from the side; cylinders seen at other angles get none
+ */
+function getCenterLines(cylinders: Cylinder[], basis: ViewBasis): Line2D[] {
+  const lines: Line2D[] = [];
+
+  for (const { origin, axis, radius, length } of cylinders) {
+    const center = projectWithDepth(origin, basis);
+    const along = Math.abs(dot(axis, basis.toViewer));
+    const extension = radius * CENTER_LINE_EXTENSION;
+
+    if (along >= AXIS_ALIGNMENT) {
+      const size = radius + extension;
+      lines.push(
+        { p0: { x: center.x - size, y: center.y }, p1: { x: center.x + size, y: center.y } },
+        { p0: { x: center.x, y: center.y - size }, p1: { x: center.x, y: center.y + size } },
+      );
+    } else if (along <= Math.sqrt(1 - AXIS_ALIGNMENT * AXIS_ALIGNMENT)) {
+      const dx = dot(axis, basis.right);
+      const dy = dot(axis, basis.up);
+      lines.push({
+        p0: { x: center.x - dx * extension, y: center.y - dy * extension },
+        p1: { x: center.x + dx * (length + extension), y: center.y + dy * (length + extension) },
+      });
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Clip cylinders to the material kept behind a cutting plane
+ */
+function clipCylinders(cylinders: Cylinder[], plane: Plane, epsilon: number): Cylinder[] {
+  const result: Cylinder[] = [];
+
+  for (const cylinder of cylinders) {
+    const { origin, axis, length } = cylinder;
+    // Signed distance from the plane (positive = removed) along the axis: d0 + rate * t
+    const { point, normal } = plane;
+    const d0 = dot({ x: origin.x - point.x, y: origin.y - point.y, z: origin.z - point.z }, normal);
+    const rate = dot(axis, normal);
+
+    let start = 0;
+    let end = length;
+    if (Math.abs(rate) < 1e-12) {
+      if (d0 > epsilon) continue;
+    } else if (rate > 0) {
+      end = Math.min(end, (epsilon - d0) / rate);
+    } else {
+      start = Math.max(start, (epsilon - d0) / rate);
+    }
+    if (end - start <= epsilon) continue;
+
+    result.push({
+      ...cylinder,
+      origin: { x: origin.x + axis.x * start, y: origin.y + axis.y * start, z: origin.z + axis.z * start },
+      length: end - start,
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Segments spanned by dimension annotations, with each label as a single point
  */
-export function generateProjections(mesh: Mesh): ProjectionView[] {
-  const views: ViewName[] = ['front', 'back', 'left', 'right', 'top', 'bottom'];
+function dimensionExtents(dimensions: Dimension[]): Line2D[] {
+  const toLine = ([p0, p1]: LineSegment): Line2D => ({ p0: { x: p0[0], y: p0[1] }, p1: { x: p1[0], y: p1[1] } });
+
+  return dimensions.flatMap((dimension) => {
+    const [x, y] = dimension.textPosition;
+    return [
+      toLine(dimension.dimensionLine),
+      ...dimension.extensionLines.map(toLine),
+      { p0: { x, y }, p1: { x, y } },
+    ];
+  });
+}
 
-  const projections: ProjectionView[] = [];
+/**
+ * Split lines into one list per body
+ */
+function groupByBody(lines: BodyLine[], bodyCount: number): Line2D[][] {
+  const groups: Line2D[][] = Array.from({ length: bodyCount }, () => []);
+  for (const line of lines) groups[line.body].push(line);
+  return groups;
+}
 
-  for (const view of views) {
-    let lines = getVisibleEdges(mesh, view);
+/**
+ * Body index of every item of lists concatenated body by body
+ */
+function bodyIndices(lists: unknown[][]): number[] {
+  return lists.flatMap((list, body) => list.map(() => body));
+}
 
-    // Post-processing
-    lines = roundCoordinates(lines);
-    lines = mergeCollinearSegments(lines);
+/**
+ * Clean up raw visible and hidden lines and assemble the view. Each body's lines
+ * are merged and fitted with curves separately, so lines of touching bodies stay apart.
+ */
+function buildView(
+  name: string,
+  visible: BodyLine[],
+  hidden: BodyLine[],
+  centers: Line2D[],
+  bodies: string[],
+  options: ResolvedOptions,
+): ProjectionView {
+  const { epsilon, arcTolerance } = options;
+  const decimals = getRoundingDecimals(epsilon);
+  const clean = (lines: Line2D[]) => mergeCollinearSegments(roundCoordinates(lines, decimals), epsilon);
+
+  const visibleByBody = groupByBody(visible, bodies.length).map(clean);
+  const lines = visibleByBody.flat();
+  const cover = createSegmentGrid(lines, epsilon);
+  const hiddenByBody = groupByBody(hidden, bodies.length).map((bodyLines) =>
+    subtractOverlappingSegments(clean(bodyLines), cover, epsilon),
+  );
+  const hiddenLines = hiddenByBody.flat();
+  const centerLines = clean(centers);
+
+  // Chain the visible segments before curves replace them
+  const polylines = buildPolylines(lines, epsilon);
+
+  // Replace tessellated curves with arcs and circles
+  const visibleCurves = visibleByBody.map((bodyLines) => fitArcs(bodyLines, arcTolerance));
+  const hiddenCurves = hiddenByBody.map((bodyLines) => fitArcs(bodyLines, arcTolerance));
+  const circles = visibleCurves.flatMap((curves) => curves.circles);
+
+  // The bounding box also covers the dimensions so that they fit in the viewer
+  const dimensions = generateDimensions([...lines, ...hiddenLines], circles, arcTolerance);
+  const bbox = calculateBbox([...lines, ...hiddenLines, ...centerLines, ...dimensionExtents(dimensions)]);
+
+  const view: ProjectionView = {
+    name,
+    lines: toLineSegments(visibleCurves.flatMap((curves) => curves.lines)),
+    hiddenLines: toLineSegments(hiddenCurves.flatMap((curves) => curves.lines)),
+    arcs: visibleCurves.flatMap((curves) => curves.arcs),
+    circles,
+    hiddenArcs: hiddenCurves.flatMap((curves) => curves.arcs),
+    hiddenCircles: hiddenCurves.flatMap((curves) => curves.circles),
+    centerLines: toLineSegments(centerLines),
+    polylines,
+    dimensions,
+    bbox,
+  };
 
-    const bbox = calculateBbox(lines);
+  if (bodies.length > 1) {
+    view.bodies = {
+      names: bodies,
+      lines: bodyIndices(visibleCurves.map((curves) => curves.lines)),
+      hiddenLines: bodyIndices(hiddenCurves.map((curves) => curves.lines)),
+      arcs: bodyIndices(visibleCurves.map((curves) => curves.arcs)),
+      circles: bodyIndices(visibleCurves.map((curves) => curves.circles)),
+      hiddenArcs: bodyIndices(hiddenCurves.map((curves) => curves.arcs)),
+      hiddenCircles: bodyIndices(hiddenCurves.map((curves) => curves.circles)),
+    };
+  }
 
-    // Convert to array format for JSON
-    const linesArray = lines.map((line) => [
-      [line.p0.x, line.p0.y],
-      [line.p1.x, line.p1.y],
-    ] as [[number, number], [number, number]]);
+  return view;
+}
 
-    projections.push({
-      name: view,
-      lines: linesArray,
-      bbox,
-    });
+/**
+ * Generate a single projection view for a view frame
+ */
+function projectView(
+  mesh: Mesh,
+  meshEdges: Edge[],
+  cylinders: Cylinder[],
+  name: string,
+  basis: ViewBasis,
+  options: ResolvedOptions,
+): ProjectionView {
+  const edges = getViewEdges(mesh, meshEdges, basis, options.creaseAngle);
+  return buildView(name, edges.visible, edges.hidden, getCenterLines(cylinders, basis), mesh.bodies, options);
+}
+
+/** Standard views in generation order */
+const STANDARD_VIEWS: ViewName[] = ['front', 'back', 'left', 'right', 'top', 'bottom'];
+
+/** Step of generating a single view, announced before it runs */
+export type ProjectionStage = 'edges' | 'projecting' | 'post-processing';
+
+/**
+ * Generate all 6 orthographic projections
+ */
+export function generateProjections(mesh: Mesh, options: ProjectionOptions = {}): ProjectionView[] {
+  const resolved = resolveOptions(mesh, options);
+  const meshEdges = extractEdges(mesh);
+  const cylinders = detectCylinders(mesh, resolved.arcTolerance);
+
+  return STANDARD_VIEWS.map((view) =>
+    projectView(mesh, meshEdges, cylinders, view, STANDARD_VIEW_BASES[view], resolved),
+  );
+}
+
+/**
+ * Generate a single orthographic projection, announcing each step to onStep
+ *
+ * @param features - Edges and cylinders from analyzeMesh with the same options, found here when omitted
+ */
+export function generateProjection(
+  mesh: Mesh,
+  view: ViewName,
+  options: ProjectionOptions = {},
+  onStep: (stage: ProjectionStage) => void = () => {},
+  features?: MeshFeatures,
+): ProjectionView {
+  const resolved = resolveOptions(mesh, options);
+  if (!features) onStep('edges');
+  const { edges: packedEdges, cylinders } = features ?? analyzeMesh(mesh, options);
+  const meshEdges = unpackEdges(packedEdges);
+
+  onStep('projecting');
+  const basis = STANDARD_VIEW_BASES[view];
+  const edges = getViewEdges(mesh, meshEdges, basis, resolved.creaseAngle);
+
+  onStep('post-processing');
+  return buildView(view, edges.visible, edges.hidden, getCenterLines(cylinders, basis), mesh.bodies, resolved);
+}
+
+/**
+ * Generate a projection along an arbitrary direction (isometric, dimetric, trimetric, custom)
+ */
+export function generateCustomProjection(
+  mesh: Mesh,
+  name: string,
+  camera: ViewCamera,
+  options: ProjectionOptions = {},
+): ProjectionView {
+  const resolved = resolveOptions(mesh, options);
+  const cylinders = detectCylinders(mesh, resolved.arcTolerance);
+  return projectView(mesh, extractEdges(mesh), cylinders, name, createViewBasis(camera), resolved);
+}
+
+/**
+ * Generate a section view: the model is cut by the plane, the material in front of it
+ * is removed and the remaining half is viewed along the plane normal with the cut region hatched
+ */
+export function generateSectionProjection(
+  mesh: Mesh,
+  name: string,
+  section: SectionPlane,
+  hatch: HatchOptions,
+  options: ProjectionOptions = {},
+): ProjectionView {
+  const resolved = resolveOptions(mesh, options);
+  const { epsilon } = resolved;
+  const plane = toPlane(section);
+
+  const cut = cutMesh(mesh, plane, epsilon);
+  if (faceCount(cut.mesh) === 0) {
+    throw new Error('Cutting plane removes the whole model');
   }
 
-  return projections;
+  // Look at the cut face from the removed side, keeping the standard views' up axis
+  const { normal } = plane;
+  const up: [number, number, number] = Math.abs(normal.y) > 0.99 ? [0, 0, Math.sign(normal.y)] : [0, 1, 0];
+  const basis = createViewBasis({ direction: [-normal.x, -normal.y, -normal.z], up });
+
+  const edges = getViewEdges(cut.mesh, extractEdges(cut.mesh), basis, resolved.creaseAngle);
+
+  const loops2D = cut.loops.map((loop) => loop.map((point) => projectWithDepth(point, basis)));
+  const closedLoops = loops2D.filter((_, index) => cut.closed[index]);
+
+  // The cut face is the closest surface, so anything projecting into it lies behind it
+  const { inside, outside } = splitByRegion(edges.visible, closedLoops, epsilon);
+
+  const outline: BodyLine[] = [];
+  loops2D.forEach((loop, index) => {
+    const count = cut.closed[index] ? loop.length : loop.length - 1;
+    for (let i = 0; i < count; i++) {
+      outline.push({ p0: loop[i], p1: loop[(i + 1) % loop.length], body: cut.loopBodies[index] });
+    }
+  });
+
+  // Cylinders are found on the whole model, since the cut may leave only part of their surface
+  const cylinders = clipCylinders(detectCylinders(mesh, resolved.arcTolerance), plane, epsilon);
+  const centers = getCenterLines(cylinders, basis);
+
+  const view = buildView(
+    name,
+    [...outside, ...outline],
+    [...edges.hidden, ...inside],
+    centers,
+    cut.mesh.bodies,
+    resolved,
+  );
+  const hatchLines = hatchRegion(closedLoops, hatch.angle, hatch.spacing);
+
+  return {
+    ...view,
+    hatchLines: toLineSegments(roundCoordinates(hatchLines, getRoundingDecimals(epsilon))),
+  };
 }
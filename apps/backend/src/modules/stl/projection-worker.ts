@@ -0,0 +1,134 @@
+/**
+ * Projection Worker - Parses meshes and generates views inside a worker thread
+ *
+ * Runs one task at a time as instructed by the worker pool. Meshes are made of
+ * typed arrays and travel as transferables, or in shared memory when several tasks
+ * read the same mesh; views are plain objects and are copied back.
+ */
+
+import { parentPort } from 'node:worker_threads';
+import type {
+  HatchOptions,
+  LengthUnit,
+  ModelFormat,
+  ParseWarning,
+  ProjectionView,
+  SectionPlane,
+  ViewCamera,
+  ViewName,
+} from '@stl2d/contracts';
+import { parseModel } from './model-parser';
+import { meshTransferList, normalizeMesh, type Mesh } from './mesh';
+import {
+  analyzeMesh,
+  featuresTransferList,
+  generateProjection,
+  generateCustomProjection,
+  generateSectionProjection,
+  type MeshFeatures,
+  type ProjectionOptions,
+  type ProjectionStage,
+} from './projection-engine';
+
+/** Work the pool can hand to a worker */
+export type WorkerTask =
+  | {
+      type: 'parse';
+      file: Uint8Array;
+      format: ModelFormat;
+      unit: LengthUnit;
+      normalize: boolean;
+      /** Also find the edges and cylinders of the mesh for views with these options */
+      analyze?: ProjectionOptions;
+    }
+  | { type: 'view'; mesh: Mesh; view: ViewName; options: ProjectionOptions; features?: MeshFeatures }
+  | { type: 'custom'; mesh: Mesh; name: string; camera: ViewCamera; options: ProjectionOptions }
+  | {
+      type: 'section';
+      mesh: Mesh;
+      name: string;
+      section: SectionPlane;
+      hatch: HatchOptions;
+      options: ProjectionOptions;
+    };
+
+/** Result of each task type */
+export interface WorkerResults {
+  /**
+   * Parsed (and optionally normalized) mesh with the bounds of the file as uploaded, the parse
+   * warnings and, when asked for, the features of the mesh
+   */
+  parse: { mesh: Mesh; bounds: Mesh['bounds']; warnings: ParseWarning[]; features?: MeshFeatures };
+  view: ProjectionView;
+  custom: ProjectionView;
+  section: ProjectionView;
+}
+
+/** Messages posted back to the pool */
+export type WorkerMessage =
+  | { type: 'progress'; stage: ProjectionStage }
+  | { type: 'result'; result: WorkerResults[keyof WorkerResults] }
+  | { type: 'error'; message: string };
+
+function post(message: WorkerMessage, transfer: ArrayBuffer[] = []): void {
+  parentPort!.postMessage(message, transfer);
+}
+
+function runTask(task: WorkerTask): void {
+  switch (task.type) {
+    case 'parse': {
+      const file = Buffer.from(task.file.buffer, task.file.byteOffset, task.file.byteLength);
+      const { mesh: parsed, warnings } = parseModel(file, task.format, task.unit);
+      const mesh = task.normalize ? normalizeMesh(parsed) : parsed;
+      if (!task.analyze) {
+        post({ type: 'result', result: { mesh, bounds: parsed.bounds, warnings } }, meshTransferList(mesh));
+        return;
+      }
+
+      post({ type: 'progress', stage: 'edges' });
+      const features = analyzeMesh(mesh, task.analyze);
+      post({ type: 'result', result: { mesh, bounds: parsed.bounds, warnings, features } }, [
+        ...meshTransferList(mesh),
+        ...featuresTransferList(features),
+      ]);
+      return;
+    }
+    case 'view': {
+      const result = generateProjection(
+        task.mesh,
+        task.view,
+        task.options,
+        (stage) => post({ type: 'progress', stage }),
+        task.features,
+      );
+      post({ type: 'result', result });
+      return;
+    }
+    case 'custom':
+      post({
+        type: 'result',
+        result: generateCustomProjection(task.mesh, task.name, task.camera, task.options),
+      });
+      return;
+    case 'section':
+      post({
+        type: 'result',
+        result: generateSectionProjection(
+          task.mesh,
+          task.name,
+          task.section,
+          task.hatch,
+          task.options,
+        ),
+      });
+      return;
+  }
+}
+
+parentPort?.on('message', (task: WorkerTask) => {
+  try {
+    runTask(task);
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+});
@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ENGINE_VERSION } from './projection-engine';
+import {
+  clearResultCache,
+  getCachedResult,
+  getResultCacheStats,
+  resultCacheKey,
+  setCachedResult,
+  type CacheKeyOptions,
+  type CachedResult,
+} from './result-cache';
+
+const file = Buffer.from('solid cube');
+const options: CacheKeyOptions = { format: 'stl', unit: 'mm', normalize: false };
+
+const result: CachedResult = {
+  views: [],
+  bounds: { min: [0, 0, 0], max: [1, 1, 1] },
+  triangleCount: 12,
+  warnings: [],
+};
+
+/** Cache module as built against another engine version */
+async function importWithEngineVersion(version: number): Promise<typeof import('./result-cache')> {
+  vi.resetModules();
+  vi.doMock('./projection-engine', () => ({ ENGINE_VERSION: version }));
+  return import('./result-cache');
+}
+
+beforeEach(() => {
+  clearResultCache();
+});
+
+afterEach(() => {
+  vi.doUnmock('./projection-engine');
+});
+
+describe('resultCacheKey', () => {
+  it('changes with the engine version', async () => {
+    const current = resultCacheKey(file, options);
+    const same = await importWithEngineVersion(ENGINE_VERSION);
+    const next = await importWithEngineVersion(ENGINE_VERSION + 1);
+
+    expect(same.resultCacheKey(file, options)).toBe(current);
+    expect(next.resultCacheKey(file, options)).not.toBe(current);
+  });
+
+  it('changes with the options that alter the views', () => {
+    const key = resultCacheKey(file, options);
+
+    expect(resultCacheKey(file, { ...options, normalize: true })).not.toBe(key);
+    expect(resultCacheKey(file, { ...options, creaseAngle: 5 })).not.toBe(key);
+    expect(resultCacheKey(Buffer.from('solid box'), options)).not.toBe(key);
+  });
+
+  it('ignores the unit of formats without one', () => {
+    expect(resultCacheKey(file, { ...options, unit: 'inch' })).toBe(resultCacheKey(file, options));
+    expect(resultCacheKey(file, { ...options, format: '3mf', unit: 'inch' })).not.toBe(
+      resultCacheKey(file, { ...options, format: '3mf' }),
+    );
+  });
+});
+
+describe('result cache', () => {
+  it('serves cached results and reports the engine version', () => {
+    const key = resultCacheKey(file, options);
+    const before = getResultCacheStats();
+
+    expect(getCachedResult(key)).toBeUndefined();
+    setCachedResult(key, result);
+    expect(getCachedResult(key)).toBe(result);
+
+    expect(getResultCacheStats()).toMatchObject({
+      entries: 1,
+      engineVersion: ENGINE_VERSION,
+      hits: before.hits + 1,
+      misses: before.misses + 1,
+    });
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Result Cache - Reuses the views of files that were processed before
+ *
+ * Results are keyed by a hash of the file contents, the options that affect the
+ * views and the engine version, so a new engine version never serves results of
+ * an older one. The cache is held in memory, bounded by the size of the cached
+ * views, and evicts the least recently used results first.
+ *
+ * Configuration:
+ * - RESULT_CACHE_SIZE_MB: size bound of the cached views (default: 256; 0 disables the cache)
+ */
+
+import { createHash } from 'node:crypto';
+import {
+  DEFAULT_CREASE_ANGLE,
+  type LengthUnit,
+  type ModelBounds,
+  type ModelFormat,
+  type ParseWarning,
+  type ProjectionView,
+  type ResultCacheStats,
+} from '@stl2d/contracts';
+import { ENGINE_VERSION } from './projection-engine';
+
+/** Processing result as kept in the cache */
+export interface CachedResult {
+  views: ProjectionView[];
+  /** Bounds of the file as uploaded */
+  bounds: ModelBounds;
+  triangleCount: number;
+  warnings: ParseWarning[];
+}
+
+/** Options that change the generated views */
+export interface CacheKeyOptions {
+  format: ModelFormat;
+  unit: LengthUnit;
+  normalize: boolean;
+  creaseAngle?: number;
+  arcTolerance?: number;
+}
+
+interface CacheEntry {
+  result: CachedResult;
+  /** Approximate memory footprint in bytes */
+  size: number;
+}
+
+function readMegabytes(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  const megabytes = value !== undefined && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+  return megabytes * 1024 * 1024;
+}
+
+const MAX_SIZE = readMegabytes(process.env.RESULT_CACHE_SIZE_MB, 256);
+
+// A Map iterates in insertion order, so re-inserting on access keeps the least recently used entry first
+const entries = new Map<string, CacheEntry>();
+let totalSize = 0;
+const counters = { hits: 0, misses: 0, evictions: 0 };
+
+/**
+ * Cache key of a file processed with the given options
+ */
+export function resultCacheKey(file: Buffer, options: CacheKeyOptions): string {
+  const settings = {
+    engine: ENGINE_VERSION,
+    format: options.format,
+    // Only 3MF files declare a unit their coordinates are converted from
+    unit: options.format === '3mf' ? options.unit : null,
+    normalize: options.normalize,
+    creaseAngle: options.creaseAngle ?? DEFAULT_CREASE_ANGLE,
+    arcTolerance: options.arcTolerance ?? null,
+  };
+  return createHash('sha256').update(JSON.stringify(settings)).update(file).digest('hex');
+}
+
+/**
+ * Cached result for a key, marking it as recently used
+ */
+export function getCachedResult(key: string): CachedResult | undefined {
+  const entry = entries.get(key);
+  if (!entry) {
+    counters.misses++;
+    return undefined;
+  }
+
+  counters.hits++;
+  entries.delete(key);
+  entries.set(key, entry);
+  return entry.result;
+}
+
+/**
+ * Cache a result, evicting least recently used results beyond the size bound
+ */
+export function setCachedResult(key: string, result: CachedResult): void {
+  // Views dominate the footprint; their JSON length is a fair estimate
+  const size = JSON.stringify(result.views).length;
+  if (size > MAX_SIZE) return;
+
+  const previous = entries.get(key);
+  if (previous) {
+    entries.delete(key);
+    totalSize -= previous.size;
+  }
+
+  entries.set(key, { result, size });
+  totalSize += size;
+
+  for (const [oldestKey, oldest] of entries) {
+    if (totalSize <= MAX_SIZE) break;
+    entries.delete(oldestKey);
+    totalSize -= oldest.size;
+    counters.evictions++;
+  }
+}
+
+/**
+ * Drop all cached results
+ */
+export function clearResultCache(): void {
+  entries.clear();
+  totalSize = 0;
+}
+
+/**
+ * Current cache state for health reporting
+ */
+export function getResultCacheStats(): ResultCacheStats {
+  return {
+    entries: entries.size,
+    size: totalSize,
+    maxSize: MAX_SIZE,
+    engineVersion: ENGINE_VERSION,
+    ...counters,
+  };
+}
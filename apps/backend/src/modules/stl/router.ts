@@ -2,41 +2,167 @@
  * tRPC Router for STL processing and projection generation
  */
 
-import { nanoid } from 'nanoid';
-import { uploadStlSchema, MAX_FILE_SIZE } from '@stl2d/contracts';
+import {
+  projectViewSchema,
+  projectSectionSchema,
+  exportDxfSchema,
+  exportPdfSchema,
+  modelIdSchema,
+  jobIdSchema,
+  type ProjectionView,
+  type SavedModel,
+  type ViewName,
+} from '@stl2d/contracts';
 import { publicProcedure, router } from '@/core';
-import { parseSTL } from './stl-parser';
-import { generateProjections } from './projection-engine';
+import { viewToDxf } from './dxf-export';
+import { viewsToPdf } from './pdf-export';
+import { deleteModel, listModels } from './model-store';
+import { cancelJob, getJob, watchJob } from './jobs';
+import { runInPool } from './worker-pool';
+import { meshTransferList } from './mesh';
+import { loadStoredMesh, loadStoredModel, toProjectionOptions } from './processing';
+
+/**
+ * Stored standard view by name
+ */
+function findView(views: ProjectionView[], name: ViewName): ProjectionView {
+  const view = views.find((candidate) => candidate.name === name);
+  if (!view) {
+    throw new Error(`View ${name} not found`);
+  }
+  return view;
+}
+
+/**
+ * File name of an export, derived from the uploaded file name
+ */
+function exportFileName(fileName: string, suffix: string, extension: string): string {
+  const baseName = fileName.replace(/\.[^.]+$/, '') || 'drawing';
+  return `${baseName}-${suffix}.${extension}`;
+}
 
 export const stlRouter = router({
-  uploadAndProcess: publicProcedure
-    .input(uploadStlSchema)
+  projectView: publicProcedure
+    .input(projectViewSchema)
+    .mutation(async ({ input }) => {
+      try {
+        const { mesh, summary } = await loadStoredMesh(input.modelId);
+
+        // Generate a single view along the requested direction
+        return await runInPool(
+          {
+            type: 'custom',
+            mesh,
+            name: input.name,
+            camera: { direction: input.direction, up: input.up },
+            options: toProjectionOptions(summary),
+          },
+          { transfer: meshTransferList(mesh) },
+        );
+      } catch (error) {
+        throw new Error(
+          `Projection failed: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }),
+
+  projectSection: publicProcedure
+    .input(projectSectionSchema)
+    .mutation(async ({ input }) => {
+      try {
+        const { mesh, summary } = await loadStoredMesh(input.modelId);
+
+        // Cut the model and view the remaining half with the cut region hatched
+        return await runInPool(
+          {
+            type: 'section',
+            mesh,
+            name: input.name,
+            section: input.plane,
+            hatch: { angle: input.hatchAngle, spacing: input.hatchSpacing },
+            options: toProjectionOptions(summary),
+          },
+          { transfer: meshTransferList(mesh) },
+        );
+      } catch (error) {
+        throw new Error(
+          `Section failed: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }),
+
+  exportDxf: publicProcedure
+    .input(exportDxfSchema)
     .mutation(async ({ input }) => {
       try {
-        // Validate file size
-        const buffer = Buffer.from(input.fileData, 'base64');
-        if (buffer.length > MAX_FILE_SIZE) {
-          throw new Error(`File size exceeds ${MAX_FILE_SIZE / 1024 / 1024}MB limit`);
-        }
+        // Standard views were generated at upload time
+        const { summary, views } = await loadStoredModel(input.modelId);
+        const view = findView(views, input.view);
 
-        // Parse STL
-        const mesh = parseSTL(buffer);
+        // Normalized coordinates have no physical unit
+        return {
+          fileName: exportFileName(summary.fileName, input.view, 'dxf'),
+          content: viewToDxf(view, { unit: summary.normalized ? undefined : summary.unit }),
+        };
+      } catch (error) {
+        throw new Error(
+          `DXF export failed: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }),
 
-        // Generate projections
-        const views = generateProjections(mesh);
+  exportPdf: publicProcedure
+    .input(exportPdfSchema)
+    .mutation(async ({ input }) => {
+      try {
+        const { summary, views } = await loadStoredModel(input.modelId);
 
-        // Generate unique model ID
-        const modelId = nanoid();
+        const pdf = viewsToPdf(input.views.map((name) => findView(views, name)), {
+          title: summary.fileName,
+          paperSize: input.paperSize,
+          scale: input.scale,
+          unit: summary.normalized ? undefined : summary.unit,
+          projection: input.projection,
+        });
 
         return {
-          success: true,
-          modelId,
-          views,
+          fileName: exportFileName(summary.fileName, 'drawing', 'pdf'),
+          fileData: pdf.toString('base64'),
         };
       } catch (error) {
         throw new Error(
-          `Processing failed: ${error instanceof Error ? error.message : String(error)}`,
+          `PDF export failed: ${error instanceof Error ? error.message : String(error)}`,
         );
       }
     }),
+
+  getJob: publicProcedure.input(jobIdSchema).query(({ input }) => getJob(input.jobId)),
+
+  onJobProgress: publicProcedure
+    .input(jobIdSchema)
+    .subscription(async function* ({ input, signal }) {
+      yield* watchJob(input.jobId, signal);
+    }),
+
+  cancelJob: publicProcedure
+    .input(jobIdSchema)
+    .mutation(({ input }) => ({ cancelled: cancelJob(input.jobId) })),
+
+  getModel: publicProcedure
+    .input(modelIdSchema)
+    .query(async ({ input }): Promise<SavedModel> => {
+      const { summary, views } = await loadStoredModel(input.modelId);
+      return { ...summary, views };
+    }),
+
+  listModels: publicProcedure.query(() => listModels()),
+
+  deleteModel: publicProcedure
+    .input(modelIdSchema)
+    .mutation(async ({ input }) => {
+      if (!(await deleteModel(input.modelId))) {
+        throw new Error(`Model ${input.modelId} not found`);
+      }
+      return { success: true } as const;
+    }),
 });
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { box, toMesh } from '@/test/meshes';
+import { cutMesh, hatchRegion, toPlane } from './section';
+import { generateSectionProjection } from './projection-engine';
+
+const square = [
+  [
+    { x: 0, y: 0 },
+    { x: 20, y: 0 },
+    { x: 20, y: 20 },
+    { x: 0, y: 20 },
+  ],
+];
+
+describe('cutMesh', () => {
+  it('keeps the material behind the plane and closes its cross-section into one loop', () => {
+    const mesh = toMesh(box([0, 0, 0], [20, 10, 4]));
+    const cut = cutMesh(mesh, toPlane({ axis: 'z', offset: 2 }), 1e-6);
+
+    expect(cut.closed).toEqual([true]);
+    expect(cut.loops[0].every((point) => Math.abs(point.z - 2) < 1e-6)).toBe(true);
+    const keptZ = Array.from(cut.mesh.indices, (vertex) => cut.mesh.positions[vertex * 3 + 2]);
+    expect(Math.max(...keptZ)).toBeCloseTo(2);
+  });
+});
+
+describe('hatchRegion', () => {
+  it('spaces hatch lines as requested', () => {
+    const lines = hatchRegion(square, 0, 2);
+
+    expect(lines).toHaveLength(10);
+    expect(lines.every((line) => line.p0.y === line.p1.y && Math.abs(line.p1.x - line.p0.x) === 20)).toBe(true);
+  });
+
+  it('leaves holes unhatched', () => {
+    const hole = [
+      { x: 5, y: 5 },
+      { x: 15, y: 5 },
+      { x: 15, y: 15 },
+      { x: 5, y: 15 },
+    ];
+    const row = hatchRegion([...square, hole], 0, 2).filter((line) => line.p0.y === 10);
+
+    expect(row).toHaveLength(2);
+  });
+
+  it('caps the number of lines for a tiny spacing', () => {
+    const lines = hatchRegion(square, 45, 0.0005);
+
+    expect(lines.length).toBeGreaterThan(100);
+    expect(lines.length).toBeLessThanOrEqual(1000);
+  });
+});
+
+describe('generateSectionProjection', () => {
+  it('keeps the hatching of a tiny spacing bounded', () => {
+    const mesh = toMesh(box([0, 0, 0], [20, 20, 20]));
+    const view = generateSectionProjection(mesh, 'section', { axis: 'z', offset: 10 }, { angle: 45, spacing: 1e-6 });
+
+    expect(view.hatchLines!.length).toBeLessThanOrEqual(1000);
+  });
+});
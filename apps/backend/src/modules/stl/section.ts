@@ -0,0 +1,424 @@
+/**
+ * Section - Cuts a mesh with a plane and builds the cross-section region
+ *
+ * The mesh is clipped so that only the material behind the plane remains,
+ * the cut segments are chained into loops, and the loops are used in 2D
+ * to classify edges and to hatch the cut region.
+ */
+
+import type { SectionPlane } from '@stl2d/contracts';
+import { calculateBounds, faceCount, getVertex, vertexCount, type Mesh, type Vector3 } from './mesh';
+
+/** Plane in normal form: points p with (p - point) · normal = 0 */
+export interface Plane {
+  point: Vector3;
+  /** Unit normal pointing towards the removed material */
+  normal: Vector3;
+}
+
+/** Result of cutting a mesh with a plane */
+export interface SectionResult {
+  /** Remaining material behind the plane, with the bodies of the cut mesh */
+  mesh: Mesh;
+  /** Cross-section polylines on the plane; closed loops repeat no vertex */
+  loops: Vector3[][];
+  /** Whether the polyline at the same index is closed */
+  closed: boolean[];
+  /** Body of the polyline at the same index */
+  loopBodies: number[];
+}
+
+interface Point2D {
+  x: number;
+  y: number;
+}
+
+interface Segment2D {
+  p0: Point2D;
+  p1: Point2D;
+}
+
+const AXIS_NORMALS: Record<'x' | 'y' | 'z', Vector3> = {
+  x: { x: 1, y: 0, z: 0 },
+  y: { x: 0, y: 1, z: 0 },
+  z: { x: 0, y: 0, z: 1 },
+};
+
+/** Most hatch rows across a region, so that a tiny spacing cannot flood the view with lines */
+const MAX_HATCH_ROWS = 1000;
+
+/**
+ * Convert a section plane request into normal form
+ */
+export function toPlane(section: SectionPlane): Plane {
+  if ('axis' in section) {
+    const normal = AXIS_NORMALS[section.axis];
+    return {
+      point: { x: normal.x * section.offset, y: normal.y * section.offset, z: normal.z * section.offset },
+      normal,
+    };
+  }
+
+  const [nx, ny, nz] = section.normal;
+  const length = Math.sqrt(nx * nx + ny * ny + nz * nz);
+  if (length < 1e-12) {
+    throw new Error('Section plane normal must not be zero');
+  }
+
+  const [px, py, pz] = section.point;
+  return {
+    point: { x: px, y: py, z: pz },
+    normal: { x: nx / length, y: ny / length, z: nz / length },
+  };
+}
+
+/**
+ * Clip the mesh against the plane and collect the cross-section loops.
+ *
+ * @param mesh - Mesh to cut
+ * @param plane - Cutting plane
+ * @param epsilon - Distance below which a vertex counts as lying on the plane
+ */
+export function cutMesh(mesh: Mesh, plane: Plane, epsilon: number): SectionResult {
+  const { point, normal } = plane;
+  const count = vertexCount(mesh);
+  const vertices: Vector3[] = [];
+  const distances: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const v = getVertex(mesh, i);
+    vertices.push(v);
+    distances.push((v.x - point.x) * normal.x + (v.y - point.y) * normal.y + (v.z - point.z) * normal.z);
+  }
+  const isRemoved = (index: number) => distances[index] > epsilon;
+
+  const indices: number[] = [];
+  const normals: number[] = [];
+  const faceBodies: number[] = [];
+  // Cut segments of each body, chained separately so that every loop belongs to one body
+  const cutSegments: [number, number][][] = mesh.bodies.map(() => []);
+
+  // Intersection vertex per crossing edge, shared by both faces of the edge
+  const cutVertices = new Map<number, number>();
+  const cutVertex = (kept: number, removed: number): number => {
+    // Kept vertices on the plane are the intersection themselves
+    if (distances[kept] >= -epsilon) return kept;
+
+    const key = kept * count + removed;
+    const existing = cutVertices.get(key);
+    if (existing !== undefined) return existing;
+
+    const a = vertices[kept];
+    const b = vertices[removed];
+    const t = distances[kept] / (distances[kept] - distances[removed]);
+    const index = vertices.length;
+    vertices.push({ x: a.x + t * (b.x - a.x), y: a.y + t * (b.y - a.y), z: a.z + t * (b.z - a.z) });
+    cutVertices.set(key, index);
+    return index;
+  };
+
+  for (let face = 0; face < faceCount(mesh); face++) {
+    const i0 = mesh.indices[face * 3];
+    const i1 = mesh.indices[face * 3 + 1];
+    const i2 = mesh.indices[face * 3 + 2];
+    const faceNormal = mesh.normals.subarray(face * 3, face * 3 + 3);
+    const body = mesh.faceBodies[face];
+    const addFace = (a: number, b: number, c: number) => {
+      indices.push(a, b, c);
+      normals.push(...faceNormal);
+      faceBodies.push(body);
+    };
+
+    const removed = [isRemoved(i0), isRemoved(i1), isRemoved(i2)];
+    const removedCount = removed.filter(Boolean).length;
+
+    if (removedCount === 0) {
+      addFace(i0, i1, i2);
+      continue;
+    }
+    if (removedCount === 3) continue;
+
+    // Rotate so that the odd vertex (the only kept or the only removed one) comes first,
+    // preserving the winding order
+    const order = [i0, i1, i2];
+    const oddIsKept = removedCount === 2;
+    const oddPosition = removed.findIndex((r) => r !== oddIsKept);
+    const [a, b, c] = [order[oddPosition], order[(oddPosition + 1) % 3], order[(oddPosition + 2) % 3]];
+
+    if (oddIsKept) {
+      // One vertex kept: a single smaller triangle remains
+      const ab = cutVertex(a, b);
+      const ac = cutVertex(a, c);
+      if (ab !== a || ac !== a) {
+        addFace(a, ab, ac);
+      }
+      if (ab !== ac) cutSegments[body].push([ab, ac]);
+    } else {
+      // One vertex removed: a quad remains, split into two triangles
+      const ba = cutVertex(b, a);
+      const ca = cutVertex(c, a);
+      addFace(b, c, ca);
+      if (ba !== b) {
+        addFace(b, ca, ba);
+      }
+      if (ba !== ca) cutSegments[body].push([ca, ba]);
+    }
+  }
+
+  const loops: number[][] = [];
+  const closed: boolean[] = [];
+  const loopBodies: number[] = [];
+  cutSegments.forEach((segments, body) => {
+    const chained = chainSegments(segments);
+    loops.push(...chained.loops);
+    closed.push(...chained.closed);
+    loopBodies.push(...chained.loops.map(() => body));
+  });
+
+  const positions = new Float32Array(vertices.length * 3);
+  positions.set(mesh.positions);
+  for (let i = count; i < vertices.length; i++) {
+    positions[i * 3] = vertices[i].x;
+    positions[i * 3 + 1] = vertices[i].y;
+    positions[i * 3 + 2] = vertices[i].z;
+  }
+
+  return {
+    mesh: {
+      positions,
+      indices: Uint32Array.from(indices),
+      normals: Float32Array.from(normals),
+      faceBodies: Uint32Array.from(faceBodies),
+      bodies: mesh.bodies,
+      bounds: calculateBounds(positions),
+    },
+    loops: loops.map((loop) => loop.map((index) => vertices[index])),
+    closed,
+    loopBodies,
+  };
+}
+
+/**
+ * Chain segments given as vertex index pairs into polylines
+ */
+function chainSegments(segments: [number, number][]): { loops: number[][]; closed: boolean[] } {
+  const adjacency = new Map<number, number[]>();
+  segments.forEach(([a, b], index) => {
+    if (!adjacency.has(a)) adjacency.set(a, []);
+    if (!adjacency.has(b)) adjacency.set(b, []);
+    adjacency.get(a)!.push(index);
+    adjacency.get(b)!.push(index);
+  });
+
+  const used = new Array(segments.length).fill(false);
+  const loops: number[][] = [];
+  const closed: boolean[] = [];
+
+  const walk = (start: number, segmentIndex: number): number[] => {
+    const chain = [start];
+    let current = start;
+    let next: number | undefined = segmentIndex;
+
+    while (next !== undefined) {
+      used[next] = true;
+      const [a, b] = segments[next];
+      current = a === current ? b : a;
+      chain.push(current);
+      next = adjacency.get(current)!.find((candidate) => !used[candidate]);
+    }
+
+    return chain;
+  };
+
+  // Open chains first, starting from their ends
+  for (const [vertex, incident] of Array.from(adjacency.entries())) {
+    if (incident.length % 2 === 1) {
+      const first = incident.find((candidate) => !used[candidate]);
+      if (first !== undefined) {
+        loops.push(walk(vertex, first));
+        closed.push(false);
+      }
+    }
+  }
+
+  // Remaining segments form closed loops
+  segments.forEach(([a], index) => {
+    if (used[index]) return;
+    const chain = walk(a, index);
+    chain.pop();
+    loops.push(chain);
+    closed.push(true);
+  });
+
+  return { loops, closed };
+}
+
+/**
+ * Even-odd point in polygon test over all loops
+ */
+function isInsideRegion(point: Point2D, loops: Point2D[][]): boolean {
+  let inside = false;
+
+  for (const loop of loops) {
+    for (let i = 0, j = loop.length - 1; i < loop.length; j = i++) {
+      const a = loop[i];
+      const b = loop[j];
+      if (a.y > point.y !== b.y > point.y) {
+        const x = a.x + ((point.y - a.y) * (b.x - a.x)) / (b.y - a.y);
+        if (point.x < x) inside = !inside;
+      }
+    }
+  }
+
+  return inside;
+}
+
+/**
+ * Distance from a point to the nearest loop border
+ */
+function distanceToRegionBorder(point: Point2D, loops: Point2D[][]): number {
+  let best = Infinity;
+
+  for (const loop of loops) {
+    for (let i = 0, j = loop.length - 1; i < loop.length; j = i++) {
+      const a = loop[j];
+      const b = loop[i];
+      const dx = b.x - a.x;
+      const dy = b.y - a.y;
+      const lengthSq = dx * dx + dy * dy;
+      const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSq));
+      best = Math.min(best, Math.hypot(point.x - (a.x + t * dx), point.y - (a.y + t * dy)));
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Split segments into the parts inside and outside the cut region.
+ * Parts running along the region border count as outside. Pieces keep the
+ * other properties of the segment they were cut from.
+ *
+ * @param segments - Segments to classify
+ * @param loops - Closed region loops in 2D
+ * @param epsilon - Border tolerance
+ */
+export function splitByRegion<T extends Segment2D>(
+  segments: T[],
+  loops: Point2D[][],
+  epsilon: number,
+): { inside: T[]; outside: T[] } {
+  const inside: T[] = [];
+  const outside: T[] = [];
+
+  for (const segment of segments) {
+    const { p0, p1 } = segment;
+    const dx = p1.x - p0.x;
+    const dy = p1.y - p0.y;
+
+    // Parameters where the segment crosses a loop border
+    const params = [0, 1];
+    for (const loop of loops) {
+      for (let i = 0, j = loop.length - 1; i < loop.length; j = i++) {
+        const a = loop[j];
+        const ex = loop[i].x - a.x;
+        const ey = loop[i].y - a.y;
+        const denominator = dx * ey - dy * ex;
+        if (Math.abs(denominator) < 1e-15) continue;
+
+        const t = ((a.x - p0.x) * ey - (a.y - p0.y) * ex) / denominator;
+        const u = ((a.x - p0.x) * dy - (a.y - p0.y) * dx) / denominator;
+        if (t > 0 && t < 1 && u >= 0 && u <= 1) params.push(t);
+      }
+    }
+    params.sort((a, b) => a - b);
+
+    for (let i = 0; i < params.length - 1; i++) {
+      const t0 = params[i];
+      const t1 = params[i + 1];
+      if (t1 - t0 < 1e-12) continue;
+
+      const piece = {
+        ...segment,
+        p0: { x: p0.x + t0 * dx, y: p0.y + t0 * dy },
+        p1: { x: p0.x + t1 * dx, y: p0.y + t1 * dy },
+      };
+      const middle = { x: p0.x + ((t0 + t1) / 2) * dx, y: p0.y + ((t0 + t1) / 2) * dy };
+
+      if (distanceToRegionBorder(middle, loops) > epsilon && isInsideRegion(middle, loops)) {
+        inside.push(piece);
+      } else {
+        outside.push(piece);
+      }
+    }
+  }
+
+  return { inside, outside };
+}
+
+/**
+ * Fill the cut region with parallel hatch lines (even-odd rule).
+ *
+ * @param loops - Closed region loops in 2D
+ * @param angle - Hatch angle in degrees
+ * @param spacing - Distance between hatch lines; derived from the region size when omitted,
+ *   and widened when the region would get more than MAX_HATCH_ROWS rows
+ */
+export function hatchRegion(loops: Point2D[][], angle: number, spacing?: number): Segment2D[] {
+  if (loops.length === 0) return [];
+
+  const radians = (angle * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+
+  // Rotate the region so that hatch lines become horizontal
+  const rotated = loops.map((loop) =>
+    loop.map((p) => ({ x: p.x * cos + p.y * sin, y: -p.x * sin + p.y * cos })),
+  );
+
+  let minY = Infinity;
+  let maxY = -Infinity;
+  let minX = Infinity;
+  let maxX = -Infinity;
+  for (const loop of rotated) {
+    for (const p of loop) {
+      minX = Math.min(minX, p.x);
+      maxX = Math.max(maxX, p.x);
+      minY = Math.min(minY, p.y);
+      maxY = Math.max(maxY, p.y);
+    }
+  }
+
+  const step = Math.max(spacing ?? Math.max(maxX - minX, maxY - minY) / 40, (maxY - minY) / MAX_HATCH_ROWS);
+  if (!(step > 0)) return [];
+
+  const hatch: Segment2D[] = [];
+
+  // Align scan lines to multiples of the spacing so neighbouring regions line up
+  for (let k = Math.ceil(minY / step); k * step <= maxY; k++) {
+    const y = k * step;
+    const crossings: number[] = [];
+
+    for (const loop of rotated) {
+      for (let i = 0, j = loop.length - 1; i < loop.length; j = i++) {
+        const a = loop[j];
+        const b = loop[i];
+        if (a.y > y !== b.y > y) {
+          crossings.push(a.x + ((y - a.y) * (b.x - a.x)) / (b.y - a.y));
+        }
+      }
+    }
+    crossings.sort((a, b) => a - b);
+
+    for (let i = 0; i + 1 < crossings.length; i += 2) {
+      const x0 = crossings[i];
+      const x1 = crossings[i + 1];
+      if (x1 - x0 <= 0) continue;
+      hatch.push({
+        p0: { x: x0 * cos - y * sin, y: x0 * sin + y * cos },
+        p1: { x: x1 * cos - y * sin, y: x1 * sin + y * cos },
+      });
+    }
+  }
+
+  return hatch;
+}
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import type { ParseWarning } from '@stl2d/contracts';
+import { box, toAsciiSTL, toBinarySTL, type Triangle } from '@/test/meshes';
+import { faceCount } from './mesh';
+import { parseSTL } from './stl-parser';
+
+const cube = box([0, 0, 0], [10, 10, 10]);
+
+/** Offset of a triangle's record in a binary STL file */
+function record(triangle: number): number {
+  return 84 + triangle * 50;
+}
+
+/** Code and count of each warning */
+function summary(warnings: ParseWarning[]): [string, number][] {
+  return warnings.map(({ code, count }) => [code, count]);
+}
+
+describe('parseSTL', () => {
+  describe('ASCII files', () => {
+    it('makes a body of every solid', () => {
+      const file = toAsciiSTL({ base: box([0, 0, 0], [10, 10, 2]), boss: box([2, 2, 2], [8, 8, 6]) });
+      const { mesh, warnings } = parseSTL(file);
+
+      expect(mesh.bodies).toEqual(['base', 'boss']);
+      expect(faceCount(mesh)).toBe(24);
+      expect(warnings).toEqual([]);
+    });
+
+    it('gives facets without a normal a zero normal instead of the previous one', () => {
+      // Only the first facet keeps its normal, which points against the top faces
+      let first = true;
+      const text = toAsciiSTL({ block: box([0, 0, 0], [10, 10, 2]) })
+        .toString()
+        .replace(/facet normal .*/g, (line) => (first ? ((first = false), line) : 'facet'));
+      const { mesh, warnings } = parseSTL(Buffer.from(text));
+
+      expect(Array.from(mesh.normals.subarray(3).filter((value) => value !== 0))).toEqual([]);
+      expect(warnings).toEqual([]);
+    });
+  });
+
+  describe('binary files', () => {
+    it('reads a binary file whose header starts with "solid"', () => {
+      const { mesh, warnings } = parseSTL(toBinarySTL(cube, 'solid cube exported as binary'));
+
+      expect(faceCount(mesh)).toBe(12);
+      expect(warnings).toEqual([]);
+    });
+
+    it('reads the triangles present when the header declares more', () => {
+      const file = toBinarySTL(cube).subarray(0, record(11) + 20);
+      const { mesh, warnings } = parseSTL(file);
+
+      expect(faceCount(mesh)).toBe(11);
+      expect(summary(warnings)).toEqual([
+        ['triangle-count-mismatch', 1],
+        ['trailing-bytes', 20],
+      ]);
+    });
+
+    it('ignores bytes after the last triangle', () => {
+      const file = Buffer.concat([toBinarySTL(cube), Buffer.alloc(7)]);
+      const { mesh, warnings } = parseSTL(file);
+
+      expect(faceCount(mesh)).toBe(12);
+      expect(summary(warnings)).toEqual([['trailing-bytes', 7]]);
+    });
+  });
+
+  describe('warnings', () => {
+    it('drops faces with NaN coordinates', () => {
+      const file = toBinarySTL(cube);
+      file.writeFloatLE(NaN, record(3) + 12);
+      file.writeFloatLE(Infinity, record(7) + 40);
+      const { mesh, warnings } = parseSTL(file);
+
+      expect(faceCount(mesh)).toBe(10);
+      expect(summary(warnings)).toEqual([['invalid-coordinates', 2]]);
+      expect(mesh.bounds.max).toEqual({ x: 10, y: 10, z: 10 });
+    });
+
+    it('counts normals pointing against the winding order', () => {
+      const file = toBinarySTL(cube);
+      for (let triangle = 0; triangle < 12; triangle++) {
+        for (let axis = 0; axis < 3; axis++) {
+          const offset = record(triangle) + axis * 4;
+          file.writeFloatLE(-file.readFloatLE(offset), offset);
+        }
+      }
+
+      expect(summary(parseSTL(file).warnings)).toEqual([['normal-mismatch', 12]]);
+    });
+
+    it('does not count zero normals as mismatches', () => {
+      const file = toBinarySTL(cube);
+      for (let triangle = 0; triangle < 12; triangle++) file.fill(0, record(triangle), record(triangle) + 12);
+
+      expect(parseSTL(file).warnings).toEqual([]);
+    });
+
+    it('drops degenerate faces', () => {
+      const sliver: Triangle = [
+        [0, 0, 0],
+        [5, 0, 0],
+        [10, 0, 0],
+      ];
+      const { mesh, warnings } = parseSTL(toBinarySTL([...cube, sliver]));
+
+      expect(faceCount(mesh)).toBe(12);
+      expect(summary(warnings)).toEqual([['degenerate-faces', 1]]);
+    });
+
+    it('fails when no face is left', () => {
+      const file = toBinarySTL(cube);
+      for (let triangle = 0; triangle < 12; triangle++) file.writeFloatLE(NaN, record(triangle) + 12);
+
+      expect(() => parseSTL(file)).toThrow('STL parsing failed: No valid faces in STL');
+    });
+  });
+});
@@ -1,305 +1,152 @@
 /**
  * STL Parser - Handles both ASCII and Binary STL formats
- * Returns normalized mesh with vertices and faces
+ * Returns the mesh in the file's own coordinates; normalization is optional.
+ * Every `solid` block of an ASCII file becomes a body named after the solid.
  */
 
-export interface Vector3 {
-  x: number;
-  y: number;
-  z: number;
-}
+import type { ParseWarning } from '@stl2d/contracts';
+import { createMeshBuilder, faceCount, type Mesh, type Vector3 } from './mesh';
+import { addWarning, cleanParsedMesh, counted, type ParsedModel } from './parse-warnings';
+import { forEachLine, hasKeyword, readTriple, skipBlanks, tokenEnd } from './text-reader';
 
-export interface Face {
-  vertices: [number, number, number]; // indices into vertices array
-  normal: Vector3;
-}
+const VERTEX = Buffer.from('vertex');
+const FACET = Buffer.from('facet');
+const NORMAL = Buffer.from('normal');
+const SOLID = Buffer.from('solid');
 
-export interface Mesh {
-  vertices: Vector3[];
-  faces: Face[];
-  bounds: {
-    min: Vector3;
-    max: Vector3;
-  };
-}
+const BINARY_HEADER_SIZE = 84;
+const BINARY_RECORD_SIZE = 50;
+/** Bytes inspected when telling ASCII from binary files */
+const SNIFF_LENGTH = 4096;
 
 /**
- * Check if buffer is ASCII STL by looking for "solid" keyword
+ * Check if buffer is ASCII STL
+ *
+ * Many binary exporters start the 80-byte header with "solid" too, so the keyword
+ * alone decides nothing. A file whose size matches its declared triangle count
+ * exactly is binary; otherwise its start must read as ASCII STL text.
  */
 function isAsciiSTL(buffer: Buffer): boolean {
-  const header = buffer.toString('utf8', 0, Math.min(5, buffer.length)).toLowerCase();
-  return header.includes('solid');
-}
-
-/**
- * Parse ASCII STL format
- */
-function parseAsciiSTL(content: string): Mesh {
-  const vertices: Vector3[] = [];
-  const faces: Face[] = [];
-  const vertexMap = new Map<string, number>();
-
-  // Regex patterns
-  const vertexPattern = /vertex\s+([-+]?[0-9]*\.?[0-9]+([eE][-+]?[0-9]+)?)\s+([-+]?[0-9]*\.?[0-9]+([eE][-+]?[0-9]+)?)\s+([-+]?[0-9]*\.?[0-9]+([eE][-+]?[0-9]+)?)/g;
-  const normalPattern = /facet\s+normal\s+([-+]?[0-9]*\.?[0-9]+([eE][-+]?[0-9]+)?)\s+([-+]?[0-9]*\.?[0-9]+([eE][-+]?[0-9]+)?)\s+([-+]?[0-9]*\.?[0-9]+([eE][-+]?[0-9]+)?)/g;
-
-  const vertexMatches = Array.from(content.matchAll(vertexPattern));
-  const normalMatches = Array.from(content.matchAll(normalPattern));
-
-  if (vertexMatches.length === 0) {
-    throw new Error('No vertices found in ASCII STL');
-  }
-
-  let faceIndex = 0;
-  let vertexInFace = 0;
-  let currentFaceVertices: [number, number, number] | null = null;
-  let currentNormal: Vector3 = { x: 0, y: 0, z: 0 };
-
-  for (let i = 0; i < vertexMatches.length; i++) {
-    const match = vertexMatches[i];
-    const x = parseFloat(match[1]);
-    const y = parseFloat(match[3]);
-    const z = parseFloat(match[5]);
-
-    const key = `${x},${y},${z}`;
-    let vertexIdx: number;
-
-    if (vertexMap.has(key)) {
-      vertexIdx = vertexMap.get(key)!;
-    } else {
-      vertexIdx = vertices.length;
-      vertices.push({ x, y, z });
-      vertexMap.set(key, vertexIdx);
-    }
-
-    if (vertexInFace === 0) {
-      currentFaceVertices = [vertexIdx, 0, 0];
-      if (faceIndex < normalMatches.length) {
-        const normalMatch = normalMatches[faceIndex];
-        currentNormal = {
-          x: parseFloat(normalMatch[1]),
-          y: parseFloat(normalMatch[3]),
-          z: parseFloat(normalMatch[5]),
-        };
-      }
-    } else if (vertexInFace === 1) {
-      currentFaceVertices![1] = vertexIdx;
-    } else if (vertexInFace === 2) {
-      currentFaceVertices![2] = vertexIdx;
-      faces.push({
-        vertices: currentFaceVertices!,
-        normal: currentNormal,
-      });
-      faceIndex++;
-      vertexInFace = -1;
-    }
-    vertexInFace++;
+  if (
+    buffer.length >= BINARY_HEADER_SIZE &&
+    buffer.length === BINARY_HEADER_SIZE + buffer.readUInt32LE(80) * BINARY_RECORD_SIZE
+  ) {
+    return false;
   }
 
-  return {
-    vertices,
-    faces,
-    bounds: calculateBounds(vertices),
-  };
+  const start = buffer.toString('latin1', 0, Math.min(SNIFF_LENGTH, buffer.length));
+  return /^\s*solid\b/i.test(start) && !/[\x00-\x08\x0e-\x1f]/.test(start) && /\b(facet|endsolid)\b/i.test(start);
 }
 
 /**
- * Parse Binary STL format
+ * Parse ASCII STL format line by line, straight from the bytes without decoding the file
  */
-function parseBinarySTL(buffer: Buffer): Mesh {
-  if (buffer.length < 84) {
-    throw new Error('Binary STL file too small');
-  }
-
-  const vertices: Vector3[] = [];
-  const faces: Face[] = [];
-  const vertexMap = new Map<string, number>();
-
-  // Skip 80-byte header
-  let offset = 80;
-
-  // Read number of triangles (4 bytes, little-endian)
-  const numTriangles = buffer.readUInt32LE(offset);
-  offset += 4;
-
-  const expectedLength = 80 + 4 + numTriangles * 50;
-  if (buffer.length < expectedLength) {
-    throw new Error(`Binary STL truncated: expected ${expectedLength} bytes, got ${buffer.length}`);
-  }
-
-  for (let i = 0; i < numTriangles; i++) {
-    // Read normal (3 floats, 12 bytes)
-    const nx = buffer.readFloatLE(offset);
-    const ny = buffer.readFloatLE(offset + 4);
-    const nz = buffer.readFloatLE(offset + 8);
-    offset += 12;
-
-    const normal: Vector3 = { x: nx, y: ny, z: nz };
-
-    // Read 3 vertices (3 * 3 floats = 36 bytes)
-    const faceVertices: [number, number, number] = [0, 0, 0];
-
-    for (let j = 0; j < 3; j++) {
-      const x = buffer.readFloatLE(offset);
-      const y = buffer.readFloatLE(offset + 4);
-      const z = buffer.readFloatLE(offset + 8);
-      offset += 12;
-
-      const key = `${x},${y},${z}`;
-      let vertexIdx: number;
-
-      if (vertexMap.has(key)) {
-        vertexIdx = vertexMap.get(key)!;
-      } else {
-        vertexIdx = vertices.length;
-        vertices.push({ x, y, z });
-        vertexMap.set(key, vertexIdx);
+function parseAsciiSTL(buffer: Buffer): Mesh {
+  // Roughly 7 lines of 30 bytes per facet
+  const builder = createMeshBuilder(Math.ceil(buffer.length / 200));
+  let normal: Vector3 = { x: 0, y: 0, z: 0 };
+  const face: number[] = [];
+  let vertexTotal = 0;
+
+  forEachLine(buffer, (index, end) => {
+    if (hasKeyword(buffer, index, end, VERTEX)) {
+      const { x, y, z } = readTriple(buffer, index + VERTEX.length, end);
+      face.push(builder.addVertex(x, y, z));
+      vertexTotal++;
+      if (face.length === 3) {
+        builder.addFace(face[0], face[1], face[2], normal);
+        face.length = 0;
+      }
+    } else if (hasKeyword(buffer, index, end, FACET)) {
+      // A facet without a normal gets a zero normal, not the one of the facet before
+      const next = skipBlanks(buffer, index + FACET.length, end);
+      normal = hasKeyword(buffer, next, end, NORMAL)
+        ? readTriple(buffer, next + NORMAL.length, end)
+        : { x: 0, y: 0, z: 0 };
+    } else if (buffer[index] === SOLID[0]) {
+      // The name, if any, runs to the end of the line
+      const nameStart = tokenEnd(buffer, index, end);
+      if (buffer.subarray(index, nameStart).equals(SOLID)) {
+        builder.startBody(buffer.toString('utf8', skipBlanks(buffer, nameStart, end), end).trim());
       }
-
-      faceVertices[j] = vertexIdx;
     }
+  });
 
-    // Skip attribute byte count (2 bytes)
-    offset += 2;
-
-    faces.push({
-      vertices: faceVertices,
-      normal,
-    });
+  if (vertexTotal === 0) {
+    throw new Error('No vertices found in ASCII STL');
   }
 
-  return {
-    vertices,
-    faces,
-    bounds: calculateBounds(vertices),
-  };
+  return builder.build();
 }
 
 /**
- * Calculate bounding box of mesh
+ * Parse Binary STL format
+ *
+ * A triangle count that disagrees with the file size is reported rather than
+ * rejected: as many whole records as the file holds are read, up to the count.
  */
-function calculateBounds(vertices: Vector3[]) {
-  if (vertices.length === 0) {
-    return {
-      min: { x: 0, y: 0, z: 0 },
-      max: { x: 0, y: 0, z: 0 },
-    };
-  }
-
-  let minX = vertices[0].x,
-    minY = vertices[0].y,
-    minZ = vertices[0].z;
-  let maxX = minX,
-    maxY = minY,
-    maxZ = minZ;
-
-  for (let i = 1; i < vertices.length; i++) {
-    const v = vertices[i];
-    if (v.x < minX) minX = v.x;
-    if (v.x > maxX) maxX = v.x;
-    if (v.y < minY) minY = v.y;
-    if (v.y > maxY) maxY = v.y;
-    if (v.z < minZ) minZ = v.z;
-    if (v.z > maxZ) maxZ = v.z;
+function parseBinarySTL(buffer: Buffer, warnings: ParseWarning[]): Mesh {
+  if (buffer.length < BINARY_HEADER_SIZE) {
+    throw new Error('Binary STL file too small');
   }
 
-  return {
-    min: { x: minX, y: minY, z: minZ },
-    max: { x: maxX, y: maxY, z: maxZ },
-  };
-}
-
-/**
- * Remove degenerate triangles (area < epsilon)
- */
-function removeDegenerate(mesh: Mesh, epsilon: number = 1e-10): Mesh {
-  const validFaces = mesh.faces.filter((face) => {
-    const v0 = mesh.vertices[face.vertices[0]];
-    const v1 = mesh.vertices[face.vertices[1]];
-    const v2 = mesh.vertices[face.vertices[2]];
-
-    // Calculate triangle area using cross product
-    const e1 = { x: v1.x - v0.x, y: v1.y - v0.y, z: v1.z - v0.z };
-    const e2 = { x: v2.x - v0.x, y: v2.y - v0.y, z: v2.z - v0.z };
+  // Skip 80-byte header, then read number of triangles (4 bytes, little-endian)
+  const declaredTriangles = buffer.readUInt32LE(80);
+  const storedTriangles = Math.floor((buffer.length - BINARY_HEADER_SIZE) / BINARY_RECORD_SIZE);
+  const numTriangles = Math.min(declaredTriangles, storedTriangles);
 
-    const cross = {
-      x: e1.y * e2.z - e1.z * e2.y,
-      y: e1.z * e2.x - e1.x * e2.z,
-      z: e1.x * e2.y - e1.y * e2.x,
+  addWarning(
+    warnings,
+    'triangle-count-mismatch',
+    declaredTriangles - numTriangles,
+    `Header declares ${counted(declaredTriangles, 'triangle')} but the file holds only ${storedTriangles}`,
+  );
+  const trailingBytes = buffer.length - BINARY_HEADER_SIZE - numTriangles * BINARY_RECORD_SIZE;
+  addWarning(warnings, 'trailing-bytes', trailingBytes, `Ignored ${counted(trailingBytes, 'byte')} after the last triangle`);
+
+  const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  const builder = createMeshBuilder(numTriangles);
+  const face = [0, 0, 0];
+
+  for (let i = 0, offset = BINARY_HEADER_SIZE; i < numTriangles; i++, offset += BINARY_RECORD_SIZE) {
+    // Normal (3 floats), then 3 vertices (3 * 3 floats), then a 2-byte attribute count
+    const normal: Vector3 = {
+      x: view.getFloat32(offset, true),
+      y: view.getFloat32(offset + 4, true),
+      z: view.getFloat32(offset + 8, true),
     };
 
-    const area = Math.sqrt(cross.x * cross.x + cross.y * cross.y + cross.z * cross.z);
-    return area > epsilon;
-  });
-
-  return {
-    vertices: mesh.vertices,
-    faces: validFaces,
-    bounds: mesh.bounds,
-  };
-}
-
-/**
- * Normalize mesh: center at origin and scale to unit cube
- */
-function normalizeMesh(mesh: Mesh): Mesh {
-  const bounds = mesh.bounds;
-  const size = Math.max(
-    bounds.max.x - bounds.min.x,
-    bounds.max.y - bounds.min.y,
-    bounds.max.z - bounds.min.z,
-  );
+    for (let j = 0; j < 3; j++) {
+      const vertexOffset = offset + 12 + j * 12;
+      face[j] = builder.addVertex(
+        view.getFloat32(vertexOffset, true),
+        view.getFloat32(vertexOffset + 4, true),
+        view.getFloat32(vertexOffset + 8, true),
+      );
+    }
 
-  if (size === 0) {
-    throw new Error('Mesh has zero size');
+    builder.addFace(face[0], face[1], face[2], normal);
   }
 
-  const center = {
-    x: (bounds.min.x + bounds.max.x) / 2,
-    y: (bounds.min.y + bounds.max.y) / 2,
-    z: (bounds.min.z + bounds.max.z) / 2,
-  };
-
-  const scale = 1 / size;
-
-  const normalizedVertices = mesh.vertices.map((v) => ({
-    x: (v.x - center.x) * scale,
-    y: (v.y - center.y) * scale,
-    z: (v.z - center.z) * scale,
-  }));
-
-  return {
-    vertices: normalizedVertices,
-    faces: mesh.faces,
-    bounds: calculateBounds(normalizedVertices),
-  };
+  return builder.build();
 }
 
 /**
  * Main parsing function
  */
-export function parseSTL(buffer: Buffer): Mesh {
+export function parseSTL(buffer: Buffer): ParsedModel {
   try {
-    let mesh: Mesh;
-
-    if (isAsciiSTL(buffer)) {
-      const content = buffer.toString('utf8');
-      mesh = parseAsciiSTL(content);
-    } else {
-      mesh = parseBinarySTL(buffer);
-    }
+    const warnings: ParseWarning[] = [];
+    const parsed = isAsciiSTL(buffer) ? parseAsciiSTL(buffer) : parseBinarySTL(buffer, warnings);
 
-    // Clean up degenerate triangles
-    mesh = removeDegenerate(mesh);
+    // Drop unprojectable triangles and check the stored normals
+    const mesh = cleanParsedMesh(parsed, warnings, true);
 
-    if (mesh.faces.length === 0) {
+    if (faceCount(mesh) === 0) {
       throw new Error('No valid faces in STL');
     }
 
-    // Normalize mesh
-    mesh = normalizeMesh(mesh);
-
-    return mesh;
+    return { mesh, warnings };
   } catch (error) {
     throw new Error(`STL parsing failed: ${error instanceof Error ? error.message : String(error)}`);
   }
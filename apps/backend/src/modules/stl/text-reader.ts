@@ -0,0 +1,124 @@
+/**
+ * Text Reader - Byte-level helpers for line-based text formats (ASCII STL, OBJ)
+ *
+ * Files are read straight from their bytes, line by line, without decoding them
+ * into strings, which keeps large files cheap to parse.
+ */
+
+import type { Vector3 } from './mesh';
+
+const NEWLINE = 0x0a;
+const HASH = 0x23;
+
+/** Powers of ten that are exact doubles */
+const EXACT_POWERS_OF_TEN = Array.from({ length: 23 }, (_, exponent) => Number(`1e${exponent}`));
+
+export function isBlank(byte: number): boolean {
+  // Space, tab and the carriage return of CRLF line endings
+  return byte === 0x20 || byte === 0x09 || byte === 0x0d;
+}
+
+export function skipBlanks(buffer: Buffer, index: number, end: number): number {
+  while (index < end && isBlank(buffer[index])) index++;
+  return index;
+}
+
+/**
+ * End of the token starting at index
+ */
+export function tokenEnd(buffer: Buffer, index: number, end: number): number {
+  while (index < end && !isBlank(buffer[index])) index++;
+  return index;
+}
+
+/**
+ * Whether the token at index starts a comment running to the end of the line
+ */
+export function isComment(buffer: Buffer, index: number): boolean {
+  return buffer[index] === HASH;
+}
+
+/**
+ * Call visit with the bounds of every line, leading blanks skipped
+ *
+ * @param visit - Receives the first non-blank byte, the line end and the 1-based line number
+ */
+export function forEachLine(buffer: Buffer, visit: (start: number, end: number, line: number) => void): void {
+  let line = 0;
+  for (let lineStart = 0; lineStart < buffer.length; ) {
+    let lineEnd = buffer.indexOf(NEWLINE, lineStart);
+    if (lineEnd === -1) lineEnd = buffer.length;
+    visit(skipBlanks(buffer, lineStart, lineEnd), lineEnd, ++line);
+    lineStart = lineEnd + 1;
+  }
+}
+
+/**
+ * Whether the line continues with the given keyword, followed by a blank or the end of the line
+ */
+export function hasKeyword(buffer: Buffer, index: number, end: number, keyword: Buffer): boolean {
+  const next = index + keyword.length;
+  if (next > end || (next < end && !isBlank(buffer[next]))) return false;
+  for (let i = 0; i < keyword.length; i++) {
+    if (buffer[index + i] !== keyword[i]) return false;
+  }
+  return true;
+}
+
+/**
+ * Parse a decimal number from bytes. Numbers with at most 15 digits and a small
+ * exponent are computed with a single exact operation, which rounds exactly like
+ * parseFloat; anything else is left to parseFloat.
+ */
+export function parseNumber(buffer: Buffer, start: number, end: number): number {
+  let index = start;
+  const negative = buffer[index] === 0x2d;
+  if (negative || buffer[index] === 0x2b) index++;
+
+  let mantissa = 0;
+  let digits = 0;
+  let scale = 0;
+  for (; index < end && buffer[index] >= 0x30 && buffer[index] <= 0x39; index++, digits++) {
+    mantissa = mantissa * 10 + buffer[index] - 0x30;
+  }
+  if (buffer[index] === 0x2e) {
+    for (index++; index < end && buffer[index] >= 0x30 && buffer[index] <= 0x39; index++, digits++, scale++) {
+      mantissa = mantissa * 10 + buffer[index] - 0x30;
+    }
+  }
+
+  let exponent = 0;
+  if (digits > 0 && (buffer[index] === 0x65 || buffer[index] === 0x45)) {
+    index++;
+    const negativeExponent = buffer[index] === 0x2d;
+    if (negativeExponent || buffer[index] === 0x2b) index++;
+    const exponentStart = index;
+    for (; index < end && buffer[index] >= 0x30 && buffer[index] <= 0x39 && exponent < 1000; index++) {
+      exponent = exponent * 10 + buffer[index] - 0x30;
+    }
+    if (index === exponentStart) index = -1;
+    if (negativeExponent) exponent = -exponent;
+  }
+
+  const power = exponent - scale;
+  if (index !== end || digits === 0 || digits > 15 || power < -22 || power > 22) {
+    return parseFloat(buffer.toString('latin1', start, end));
+  }
+
+  const value = power < 0 ? mantissa / EXACT_POWERS_OF_TEN[-power] : mantissa * EXACT_POWERS_OF_TEN[power];
+  return negative ? -value : value;
+}
+
+/**
+ * The three numbers following the keyword(s) of a line
+ */
+export function readTriple(buffer: Buffer, index: number, end: number): Vector3 {
+  const values = [0, 0, 0];
+  for (let i = 0; i < 3; i++) {
+    index = skipBlanks(buffer, index, end);
+    const tokenStart = index;
+    index = tokenEnd(buffer, index, end);
+    values[i] = parseNumber(buffer, tokenStart, index);
+  }
+  return { x: values[0], y: values[1], z: values[2] };
+}
@@ -0,0 +1,131 @@
+/**
+ * Triangulation - Splits the polygon faces of imported meshes into triangles
+ *
+ * Polygons are projected onto the plane they lie in and split by ear clipping,
+ * which also handles concave outlines. Triangles keep the polygon's winding order.
+ * Vertices are given as indices into flat x, y, z coordinate arrays.
+ */
+
+import type { Vector3 } from './mesh';
+
+/**
+ * Normal of a polygon by Newell's method; its length is twice the polygon area
+ */
+export function polygonNormal(coordinates: ArrayLike<number>, corners: number[]): Vector3 {
+  const normal = { x: 0, y: 0, z: 0 };
+  for (let i = 0; i < corners.length; i++) {
+    const a = corners[i] * 3;
+    const b = corners[(i + 1) % corners.length] * 3;
+    normal.x += (coordinates[a + 1] - coordinates[b + 1]) * (coordinates[a + 2] + coordinates[b + 2]);
+    normal.y += (coordinates[a + 2] - coordinates[b + 2]) * (coordinates[a] + coordinates[b]);
+    normal.z += (coordinates[a] - coordinates[b]) * (coordinates[a + 1] + coordinates[b + 1]);
+  }
+  return normal;
+}
+
+/**
+ * Unit normal of a triangle from its winding order, or zero for a degenerate triangle
+ */
+export function triangleNormal(coordinates: ArrayLike<number>, a: number, b: number, c: number): Vector3 {
+  const ux = coordinates[b * 3] - coordinates[a * 3];
+  const uy = coordinates[b * 3 + 1] - coordinates[a * 3 + 1];
+  const uz = coordinates[b * 3 + 2] - coordinates[a * 3 + 2];
+  const vx = coordinates[c * 3] - coordinates[a * 3];
+  const vy = coordinates[c * 3 + 1] - coordinates[a * 3 + 1];
+  const vz = coordinates[c * 3 + 2] - coordinates[a * 3 + 2];
+  const nx = uy * vz - uz * vy;
+  const ny = uz * vx - ux * vz;
+  const nz = ux * vy - uy * vx;
+  const length = Math.sqrt(nx * nx + ny * ny + nz * nz) || 1;
+  return { x: nx / length, y: ny / length, z: nz / length };
+}
+
+/**
+ * Positive if the triangle winds the same way as the given normal
+ */
+function turnsAlong(coordinates: ArrayLike<number>, a: number, b: number, c: number, normal: Vector3): number {
+  const ux = coordinates[b * 3] - coordinates[a * 3];
+  const uy = coordinates[b * 3 + 1] - coordinates[a * 3 + 1];
+  const uz = coordinates[b * 3 + 2] - coordinates[a * 3 + 2];
+  const vx = coordinates[c * 3] - coordinates[a * 3];
+  const vy = coordinates[c * 3 + 1] - coordinates[a * 3 + 1];
+  const vz = coordinates[c * 3 + 2] - coordinates[a * 3 + 2];
+  return (uy * vz - uz * vy) * normal.x + (uz * vx - ux * vz) * normal.y + (ux * vy - uy * vx) * normal.z;
+}
+
+/**
+ * Split a polygon into triangles
+ *
+ * @param coordinates - Flat x, y, z coordinates of all vertices
+ * @param corners - Vertex indices of the polygon corners in order
+ * @returns Triangles as vertex index triples
+ */
+export function triangulatePolygon(coordinates: ArrayLike<number>, corners: number[]): [number, number, number][] {
+  if (corners.length === 3) return [[corners[0], corners[1], corners[2]]];
+
+  const normal = polygonNormal(coordinates, corners);
+
+  // Quads, by far the most common polygons, split along whichever diagonal lies inside
+  if (corners.length === 4) {
+    const [a, b, c, d] = corners;
+    return turnsAlong(coordinates, a, b, c, normal) > 0 && turnsAlong(coordinates, a, c, d, normal) > 0
+      ? [
+          [a, b, c],
+          [a, c, d],
+        ]
+      : [
+          [b, c, d],
+          [b, d, a],
+        ];
+  }
+
+  // Drop the dominant axis of the normal, orienting the 2D outline counterclockwise
+  const ax = Math.abs(normal.x);
+  const ay = Math.abs(normal.y);
+  const az = Math.abs(normal.z);
+  const [u, v, sign] = az >= ax && az >= ay ? [0, 1, normal.z] : ax >= ay ? [1, 2, normal.x] : [2, 0, normal.y];
+  const xs = corners.map((corner) => coordinates[corner * 3 + u]);
+  const ys = corners.map((corner) => (sign >= 0 ? 1 : -1) * coordinates[corner * 3 + v]);
+
+  const cross = (o: number, a: number, b: number) =>
+    (xs[a] - xs[o]) * (ys[b] - ys[o]) - (ys[a] - ys[o]) * (xs[b] - xs[o]);
+
+  const isInside = (p: number, a: number, b: number, c: number) =>
+    cross(a, b, p) >= 0 && cross(b, c, p) >= 0 && cross(c, a, p) >= 0;
+
+  // Positions in corners still to be clipped
+  const remaining = corners.map((_, index) => index);
+  const triangles: [number, number, number][] = [];
+  const emit = (a: number, b: number, c: number) => triangles.push([corners[a], corners[b], corners[c]]);
+
+  while (remaining.length > 3) {
+    let clipped = false;
+    for (let i = 0; i < remaining.length; i++) {
+      const prev = remaining[(i + remaining.length - 1) % remaining.length];
+      const current = remaining[i];
+      const next = remaining[(i + 1) % remaining.length];
+
+      // An ear is a convex corner whose triangle contains no other corner
+      if (cross(prev, current, next) <= 0) continue;
+      if (remaining.some((p) => p !== prev && p !== current && p !== next && isInside(p, prev, current, next))) {
+        continue;
+      }
+
+      emit(prev, current, next);
+      remaining.splice(i, 1);
+      clipped = true;
+      break;
+    }
+
+    // Self-intersecting or collinear outlines have no ear left; fan out the rest
+    if (!clipped) {
+      for (let i = 1; i < remaining.length - 1; i++) {
+        emit(remaining[0], remaining[i], remaining[i + 1]);
+      }
+      return triangles;
+    }
+  }
+
+  emit(remaining[0], remaining[1], remaining[2]);
+  return triangles;
+}
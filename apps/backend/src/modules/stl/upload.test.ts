@@ -0,0 +1,87 @@
+import { request, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import express from 'express';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { box, toBinarySTL } from '@/test/meshes';
+import { startJob } from './jobs';
+import { uploadRouter } from './upload';
+
+vi.mock('@stl2d/contracts', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@stl2d/contracts')>()),
+  MAX_FILE_SIZE: 4096,
+}));
+
+vi.mock('./jobs', () => ({
+  startJob: vi.fn((_file: Buffer, options: { fileName: string }) => ({
+    jobId: 'job-1',
+    fileName: options.fileName,
+    status: 'running',
+    stage: 'queued',
+    progress: 0,
+  })),
+}));
+
+let server: Server;
+let port: number;
+
+beforeAll(async () => {
+  const app = express();
+  app.use('/upload', uploadRouter);
+  server = app.listen(0);
+  await new Promise((resolve) => server.once('listening', resolve));
+  port = (server.address() as AddressInfo).port;
+});
+
+afterAll(() => new Promise((resolve) => server.close(resolve)));
+
+beforeEach(() => {
+  vi.mocked(startJob).mockClear();
+});
+
+/** Post the body in chunks without a declared length, the way a stream arrives */
+function upload(query: string, body: Buffer): Promise<{ status: number; body: Record<string, unknown> }> {
+  return new Promise((resolve, reject) => {
+    const req = request({ port, method: 'POST', path: `/upload?${query}` }, (res) => {
+      const chunks: Buffer[] = [];
+      res.on('data', (chunk: Buffer) => chunks.push(chunk));
+      res.on('end', () => resolve({ status: res.statusCode!, body: JSON.parse(Buffer.concat(chunks).toString()) }));
+    });
+    // The server may drop the connection after rejecting an oversized body
+    req.on('error', (error) => (req.writableEnded ? undefined : reject(error)));
+    for (let start = 0; start < body.length; start += 1024) {
+      req.write(body.subarray(start, start + 1024));
+    }
+    req.end();
+  });
+}
+
+describe('upload endpoint', () => {
+  const cube = toBinarySTL(box([0, 0, 0], [10, 10, 10]));
+
+  it('starts a job for a model file and answers with its first progress event', async () => {
+    const { status, body } = await upload('fileName=cube.stl&unit=mm', cube);
+
+    expect(status).toBe(202);
+    expect(body).toMatchObject({ jobId: 'job-1', status: 'running' });
+    expect(vi.mocked(startJob).mock.calls[0][0].equals(cube)).toBe(true);
+  });
+
+  it('rejects a body growing past the size limit', async () => {
+    const { status, body } = await upload('fileName=big.stl', Buffer.alloc(5000));
+
+    expect(status).toBe(413);
+    expect(body.error).toMatch(/exceeds/);
+    expect(startJob).not.toHaveBeenCalled();
+  });
+
+  it('rejects empty uploads and unsupported files', async () => {
+    expect((await upload('fileName=cube.stl', Buffer.alloc(0))).status).toBe(400);
+    expect((await upload('fileName=notes.txt', Buffer.from('hello'))).status).toBe(415);
+  });
+
+  it('rejects invalid options before reading the body', async () => {
+    const { status } = await upload('unit=mm', cube);
+
+    expect(status).toBe(400);
+  });
+});
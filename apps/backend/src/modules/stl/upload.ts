@@ -0,0 +1,93 @@
+/**
+ * Binary upload endpoint
+ *
+ * The model file is sent as the raw request body and its options as query parameters,
+ * avoiding the size and memory overhead of base64 inside JSON. The body is read as a
+ * stream and rejected as soon as it exceeds the size limit; a client aborting the
+ * request stops the upload. The chunks are then collected into one buffer rather than
+ * fed to the parser as they arrive: format detection, the content hash of the result
+ * cache, the parsers on the worker pool and the model store all work on the whole file.
+ * Processing runs as a background job, whose initial progress event is the response.
+ */
+
+import { Router, type Request, type Response } from 'express';
+import { MAX_FILE_SIZE, uploadStlSchema } from '@stl2d/contracts';
+import { startJob } from './jobs';
+import { findModelFormat, UNSUPPORTED_FORMAT_MESSAGE } from './model-parser';
+
+/** Error with the HTTP status to answer with */
+class UploadError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+  }
+}
+
+const SIZE_LIMIT_MESSAGE = `File size exceeds ${MAX_FILE_SIZE / 1024 / 1024}MB limit`;
+
+/**
+ * Collect the request body into one buffer, failing early when it grows past the limit
+ */
+function readBody(req: Request, limit: number): Promise<Buffer> {
+  const declared = Number(req.headers['content-length']);
+  if (declared > limit) {
+    return Promise.reject(new UploadError(SIZE_LIMIT_MESSAGE, 413));
+  }
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        // Stop reading; the connection is closed once the error is answered
+        req.pause();
+        reject(new UploadError(SIZE_LIMIT_MESSAGE, 413));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks, size)));
+    req.on('close', () => {
+      if (!req.complete) reject(new UploadError('Upload aborted', 499));
+    });
+    req.on('error', reject);
+  });
+}
+
+export const uploadRouter = Router();
+
+uploadRouter.post('/', async (req: Request, res: Response) => {
+  const options = uploadStlSchema.safeParse(req.query);
+  if (!options.success) {
+    req.resume();
+    const issues = options.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`);
+    res.status(400).json({ error: issues.join('; ') });
+    return;
+  }
+
+  try {
+    const file = await readBody(req, MAX_FILE_SIZE);
+    if (file.length === 0) {
+      throw new UploadError('Empty upload', 400);
+    }
+    if (!findModelFormat(file, options.data.fileName)) {
+      throw new UploadError(UNSUPPORTED_FORMAT_MESSAGE, 415);
+    }
+    res.status(202).json(startJob(file, options.data));
+  } catch (error) {
+    // The client is gone after an abort, so there is nobody to answer
+    if (req.destroyed && error instanceof UploadError && error.status === 499) return;
+
+    const status = error instanceof UploadError ? error.status : 500;
+    const message = error instanceof Error ? error.message : String(error);
+    if (!res.headersSent) {
+      // A body left unread cannot be followed by another request on the same connection
+      if (!req.complete) res.set('Connection', 'close');
+      res.status(status).json({ error: `Upload failed: ${message}` });
+    }
+  }
+});
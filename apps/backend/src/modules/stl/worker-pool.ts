@@ -0,0 +1,205 @@
+/**
+ * Worker Pool - Runs parsing and projection tasks on worker threads
+ *
+ * Keeps CPU-heavy geometry work off the event loop, so other requests stay
+ * responsive while models are processed. Tasks wait in a queue until a worker is
+ * free. A task that exceeds the timeout or is aborted has its worker terminated
+ * and replaced, since synchronous work cannot be interrupted otherwise.
+ *
+ * Configuration:
+ * - WORKER_POOL_SIZE: number of workers (default: available cores minus one, at least one)
+ * - WORKER_TASK_TIMEOUT_MS: time limit per task (default: 5 minutes)
+ */
+
+import { availableParallelism } from 'node:os';
+import { Worker } from 'node:worker_threads';
+import type { WorkerPoolStats } from '@stl2d/contracts';
+import type { ProjectionStage } from './projection-engine';
+import type { WorkerMessage, WorkerResults, WorkerTask } from './projection-worker';
+
+interface TaskOptions {
+  /** Buffers of the task to move to the worker instead of copying */
+  transfer?: ArrayBuffer[];
+  signal?: AbortSignal;
+  onProgress?: (stage: ProjectionStage) => void;
+}
+
+interface PendingTask {
+  task: WorkerTask;
+  options: TaskOptions;
+  resolve: (result: unknown) => void;
+  reject: (error: unknown) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  current: PendingTask | null;
+  timer?: NodeJS.Timeout;
+}
+
+function readPositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+const POOL_SIZE = readPositiveInt(process.env.WORKER_POOL_SIZE, Math.max(1, availableParallelism() - 1));
+
+const TASK_TIMEOUT = readPositiveInt(process.env.WORKER_TASK_TIMEOUT_MS, 5 * 60 * 1000);
+
+const workers: PoolWorker[] = [];
+const queue: PendingTask[] = [];
+const counters = { completed: 0, failed: 0, timedOut: 0 };
+
+/**
+ * Start a worker thread. Under tsx the TypeScript source is loaded through tsx's
+ * loader, which worker threads do not inherit.
+ */
+function spawnWorker(): Worker {
+  if (import.meta.url.endsWith('.ts')) {
+    const url = new URL('./projection-worker.ts', import.meta.url).href;
+    return new Worker(
+      `import('tsx/esm/api').then(({ register }) => { register(); return import(${JSON.stringify(url)}); })`,
+      { eval: true },
+    );
+  }
+  return new Worker(new URL('./projection-worker.js', import.meta.url));
+}
+
+function addWorker(): void {
+  const entry: PoolWorker = { worker: spawnWorker(), current: null };
+
+  entry.worker.on('message', (message: WorkerMessage) => {
+    const task = entry.current;
+    if (!task) return;
+
+    if (message.type === 'progress') {
+      task.options.onProgress?.(message.stage);
+      return;
+    }
+
+    release(entry);
+    if (message.type === 'result') {
+      counters.completed++;
+      task.resolve(message.result);
+    } else {
+      counters.failed++;
+      task.reject(new Error(message.message));
+    }
+    dispatch();
+  });
+
+  const crash = (error: Error) => {
+    const task = entry.current;
+    removeWorker(entry);
+    if (task) {
+      counters.failed++;
+      task.reject(error);
+    }
+    dispatch();
+  };
+  entry.worker.on('error', crash);
+  entry.worker.on('exit', (code) => crash(new Error(`Worker stopped with exit code ${code}`)));
+
+  // Idle workers must not keep the process alive; only effective after adding the listeners
+  entry.worker.unref();
+  workers.push(entry);
+}
+
+/** Mark a worker as idle */
+function release(entry: PoolWorker): void {
+  clearTimeout(entry.timer);
+  entry.current = null;
+  entry.worker.unref();
+}
+
+/**
+ * Terminate a worker, e.g. one stuck in a timed out or aborted task; a fresh one is
+ * started once there is work for it
+ */
+function removeWorker(entry: PoolWorker): void {
+  release(entry);
+  workers.splice(workers.indexOf(entry), 1);
+  entry.worker.removeAllListeners();
+  // Errors during termination are of no interest anymore
+  entry.worker.on('error', () => {});
+  void entry.worker.terminate();
+}
+
+/** Hand queued tasks to idle workers, starting workers as needed */
+function dispatch(): void {
+  if (queue.length === 0) return;
+  while (workers.length < POOL_SIZE) addWorker();
+
+  for (const entry of workers) {
+    if (queue.length === 0) return;
+    if (entry.current) continue;
+
+    const task = queue.shift()!;
+    entry.current = task;
+    entry.worker.ref();
+    entry.timer = setTimeout(() => {
+      counters.timedOut++;
+      removeWorker(entry);
+      task.reject(new Error(`Task timed out after ${TASK_TIMEOUT / 1000}s`));
+      dispatch();
+    }, TASK_TIMEOUT);
+    entry.worker.postMessage(task.task, task.options.transfer ?? []);
+  }
+}
+
+/**
+ * Run a task on the next free worker
+ *
+ * Aborting the signal removes a queued task or stops the worker running it.
+ */
+export function runInPool<K extends WorkerTask['type']>(
+  task: Extract<WorkerTask, { type: K }>,
+  options: TaskOptions = {},
+): Promise<WorkerResults[K]> {
+  const { signal } = options;
+  if (signal?.aborted) return Promise.reject(signal.reason);
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      const queued = queue.indexOf(pending);
+      if (queued >= 0) {
+        queue.splice(queued, 1);
+      } else {
+        const entry = workers.find((candidate) => candidate.current === pending);
+        if (entry) removeWorker(entry);
+      }
+      reject(signal!.reason);
+      dispatch();
+    };
+
+    const pending: PendingTask = {
+      task,
+      options,
+      resolve: (result) => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(result as WorkerResults[K]);
+      },
+      reject: (error) => {
+        signal?.removeEventListener('abort', onAbort);
+        reject(error);
+      },
+    };
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    queue.push(pending);
+    dispatch();
+  });
+}
+
+/**
+ * Current pool state for health reporting
+ */
+export function getPoolStats(): WorkerPoolStats {
+  return {
+    size: POOL_SIZE,
+    busy: workers.filter((entry) => entry.current).length,
+    queued: queue.length,
+    ...counters,
+    taskTimeout: TASK_TIMEOUT,
+  };
+}
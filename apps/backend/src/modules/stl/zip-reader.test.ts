@@ -0,0 +1,43 @@
+import { describe, expect, it, vi } from 'vitest';
+import { toZip } from '@/test/zip';
+import { openZip } from './zip-reader';
+
+// Entries may inflate to four times this
+vi.mock('@stl2d/contracts', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@stl2d/contracts')>()),
+  MAX_FILE_SIZE: 4096,
+}));
+
+const model = '<model unit="millimeter"><resources/></model>'.repeat(20);
+
+describe('openZip', () => {
+  it.each(['stored', 'deflated'] as const)('reads %s entries', (method) => {
+    const archive = openZip(toZip({ '_rels/.rels': '<Relationships/>', '3D/3dmodel.model': model }, method));
+
+    expect(archive.names).toEqual(['_rels/.rels', '3D/3dmodel.model']);
+    expect(archive.read('3D/3dmodel.model')?.toString()).toBe(model);
+  });
+
+  it('matches entry names case-insensitively and without a leading slash', () => {
+    const archive = openZip(toZip({ '/3D/3DModel.model': model }));
+
+    expect(archive.names).toEqual(['3D/3DModel.model']);
+    expect(archive.read('/3d/3dmodel.model')?.toString()).toBe(model);
+    expect(archive.read('3D/missing.model')).toBeNull();
+  });
+
+  it('stops entries that inflate past the size bound', () => {
+    const bomb = toZip({ 'bomb.bin': Buffer.alloc(100_000) });
+    // Declare a harmless size, so that only inflating reveals the real one
+    const understated = Buffer.from(bomb);
+    understated.writeUInt32LE(10, understated.length - 22 - 46 - 'bomb.bin'.length + 24);
+
+    expect(bomb.length).toBeLessThan(1000);
+    expect(() => openZip(bomb).read('bomb.bin')).toThrow('Zip entry bomb.bin exceeds');
+    expect(() => openZip(understated).read('bomb.bin')).toThrow('Zip entry bomb.bin exceeds');
+  });
+
+  it('rejects files that are not zip archives', () => {
+    expect(() => openZip(Buffer.from('solid cube\nendsolid cube\n'))).toThrow('Not a zip archive');
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Zip Reader - Extracts entries from zip archives, such as the OPC packages of 3MF files
+ *
+ * Entries are located through the central directory and inflated on demand.
+ * Stored and deflated entries are supported; ZIP64 archives and encryption are not.
+ */
+
+import { inflateRawSync } from 'node:zlib';
+import { MAX_FILE_SIZE } from '@stl2d/contracts';
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+/** Leading bytes of every zip archive */
+export const ZIP_SIGNATURE = Buffer.from([0x50, 0x4b, 0x03, 0x04]);
+
+/**
+ * Largest size an entry may inflate to, guarding against zip bombs. XML takes a few
+ * times the bytes of binary STL, so this still fits a mesh as large as an STL upload may be.
+ */
+const MAX_ENTRY_SIZE = 4 * MAX_FILE_SIZE;
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  size: number;
+  localHeaderOffset: number;
+}
+
+/** Opened zip archive */
+export interface ZipArchive {
+  /** Entry names as stored, without a leading slash */
+  names: string[];
+  /** Contents of an entry, matched case-insensitively, or null if there is none */
+  read(name: string): Buffer | null;
+}
+
+function tooLarge(name: string): Error {
+  return new Error(`Zip entry ${name} exceeds ${MAX_ENTRY_SIZE / 1024 / 1024}MB when inflated`);
+}
+
+/**
+ * Find the end of central directory record, which is followed by at most a 64 KB comment
+ */
+function findEndOfCentralDirectory(buffer: Buffer): number {
+  const earliest = Math.max(0, buffer.length - 22 - 0xffff);
+  for (let offset = buffer.length - 22; offset >= earliest; offset--) {
+    if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+  throw new Error('Not a zip archive');
+}
+
+/**
+ * Open a zip archive held in memory
+ */
+export function openZip(buffer: Buffer): ZipArchive {
+  const end = findEndOfCentralDirectory(buffer);
+  const count = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+  if (count === 0xffff || offset === 0xffffffff) {
+    throw new Error('ZIP64 archives are not supported');
+  }
+
+  const entries = new Map<string, ZipEntry & { name: string }>();
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error('Corrupt zip central directory');
+    }
+    if (buffer.readUInt16LE(offset + 8) & 0x1) {
+      throw new Error('Encrypted zip entries are not supported');
+    }
+
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength).replace(/^\//, '');
+    entries.set(name.toLowerCase(), {
+      name,
+      method: buffer.readUInt16LE(offset + 10),
+      compressedSize: buffer.readUInt32LE(offset + 20),
+      size: buffer.readUInt32LE(offset + 24),
+      localHeaderOffset: buffer.readUInt32LE(offset + 42),
+    });
+    offset += 46 + nameLength + buffer.readUInt16LE(offset + 30) + buffer.readUInt16LE(offset + 32);
+  }
+
+  return {
+    names: Array.from(entries.values(), (entry) => entry.name),
+    read(name) {
+      const entry = entries.get(name.replace(/^\//, '').toLowerCase());
+      if (!entry) return null;
+
+      const header = entry.localHeaderOffset;
+      if (header + 30 > buffer.length || buffer.readUInt32LE(header) !== LOCAL_FILE_HEADER) {
+        throw new Error(`Corrupt zip entry ${entry.name}`);
+      }
+      const start = header + 30 + buffer.readUInt16LE(header + 26) + buffer.readUInt16LE(header + 28);
+      const data = buffer.subarray(start, start + entry.compressedSize);
+      if (data.length < entry.compressedSize) {
+        throw new Error(`Zip entry ${entry.name} is truncated`);
+      }
+
+      switch (entry.method) {
+        case 0:
+          return data;
+        case 8:
+          if (entry.size > MAX_ENTRY_SIZE) {
+            throw tooLarge(entry.name);
+          }
+          try {
+            return inflateRawSync(data, { maxOutputLength: MAX_ENTRY_SIZE });
+          } catch (error) {
+            // The declared size may understate what the entry inflates to
+            if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+              throw tooLarge(entry.name);
+            }
+            throw error;
+          }
+        default:
+          throw new Error(`Zip entry ${entry.name} uses unsupported compression method ${entry.method}`);
+      }
+    },
+  };
+}
@@ -3,10 +3,13 @@
  */
 
 import { router, publicProcedure } from '@/core';
+import { getPoolStats, getResultCacheStats } from '@/modules/stl';
 
 export const systemRouter = router({
   health: publicProcedure.query(() => ({
     status: 'ok',
     timestamp: new Date().toISOString(),
+    workers: getPoolStats(),
+    resultCache: getResultCacheStats(),
   })),
 });
@@ -0,0 +1,103 @@
+/**
+ * Test meshes - Small solids built from triangle lists, as meshes or encoded model files
+ */
+
+import { createMeshBuilder, type Mesh } from '@/modules/stl/mesh';
+
+export type Point = [number, number, number];
+export type Triangle = [Point, Point, Point];
+
+/** Unit normal of a triangle from its winding order */
+export function windingNormal([a, b, c]: Triangle): Point {
+  const u = [b[0] - a[0], b[1] - a[1], b[2] - a[2]];
+  const v = [c[0] - a[0], c[1] - a[1], c[2] - a[2]];
+  const n: Point = [u[1] * v[2] - u[2] * v[1], u[2] * v[0] - u[0] * v[2], u[0] * v[1] - u[1] * v[0]];
+  const length = Math.hypot(...n) || 1;
+  return [n[0] / length, n[1] / length, n[2] / length];
+}
+
+/** Axis-aligned box with outward winding */
+export function box(min: Point, max: Point): Triangle[] {
+  const [x0, y0, z0] = min;
+  const [x1, y1, z1] = max;
+  const corners: Point[] = [
+    [x0, y0, z0],
+    [x1, y0, z0],
+    [x1, y1, z0],
+    [x0, y1, z0],
+    [x0, y0, z1],
+    [x1, y0, z1],
+    [x1, y1, z1],
+    [x0, y1, z1],
+  ];
+  const quads = [
+    [0, 3, 2, 1],
+    [4, 5, 6, 7],
+    [0, 1, 5, 4],
+    [2, 3, 7, 6],
+    [1, 2, 6, 5],
+    [0, 4, 7, 3],
+  ];
+  return quads.flatMap(([a, b, c, d]) => [
+    [corners[a], corners[b], corners[c]] as Triangle,
+    [corners[a], corners[c], corners[d]] as Triangle,
+  ]);
+}
+
+/** Closed cylinder along Y with outward winding */
+export function cylinderY(radius: number, y0: number, y1: number, segments: number, cx = 0, cz = 0): Triangle[] {
+  const at = (i: number, y: number): Point => {
+    const angle = (2 * Math.PI * (i % segments)) / segments;
+    return [cx + radius * Math.cos(angle), y, cz + radius * Math.sin(angle)];
+  };
+  const triangles: Triangle[] = [];
+  for (let i = 0; i < segments; i++) {
+    const a0 = at(i, y0);
+    const a1 = at(i + 1, y0);
+    const b0 = at(i, y1);
+    const b1 = at(i + 1, y1);
+    triangles.push([a0, b0, b1], [a0, b1, a1], [[cx, y1, cz], b1, b0], [[cx, y0, cz], a0, a1]);
+  }
+  return triangles;
+}
+
+/** Mesh of the triangles, one body per triangle list */
+export function toMesh(...bodies: Triangle[][]): Mesh {
+  const builder = createMeshBuilder();
+  bodies.forEach((triangles, body) => {
+    if (bodies.length > 1) builder.startBody(`body${body + 1}`);
+    for (const triangle of triangles) {
+      const [nx, ny, nz] = windingNormal(triangle);
+      const [a, b, c] = triangle.map(([x, y, z]) => builder.addVertex(x, y, z));
+      builder.addFace(a, b, c, { x: nx, y: ny, z: nz });
+    }
+  });
+  return builder.build();
+}
+
+/** Binary STL file of the triangles, with their winding normals */
+export function toBinarySTL(triangles: Triangle[], header = ''): Buffer {
+  const buffer = Buffer.alloc(84 + triangles.length * 50);
+  buffer.write(header, 0, 80, 'latin1');
+  buffer.writeUInt32LE(triangles.length, 80);
+  triangles.forEach((triangle, i) => {
+    const values = [...windingNormal(triangle), ...triangle.flat()];
+    values.forEach((value, j) => buffer.writeFloatLE(value, 84 + i * 50 + j * 4));
+  });
+  return buffer;
+}
+
+/** ASCII STL file with one solid per named triangle list */
+export function toAsciiSTL(solids: Record<string, Triangle[]>): Buffer {
+  const lines: string[] = [];
+  for (const [name, triangles] of Object.entries(solids)) {
+    lines.push(`solid ${name}`);
+    for (const triangle of triangles) {
+      lines.push(`  facet normal ${windingNormal(triangle).join(' ')}`, '    outer loop');
+      for (const point of triangle) lines.push(`      vertex ${point.join(' ')}`);
+      lines.push('    endloop', '  endfacet');
+    }
+    lines.push(`endsolid ${name}`);
+  }
+  return Buffer.from(lines.join('\n') + '\n');
+}
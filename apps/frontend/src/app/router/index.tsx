@@ -5,6 +5,7 @@ export function AppRouter() {
   return (
     <Switch>
       <Route path="/" component={ProjectionViewerPage} />
+      <Route path="/models/:modelId" component={ProjectionViewerPage} />
       <Route path="/404" component={NotFoundPage} />
       {/* Final fallback route */}
       <Route component={NotFoundPage} />
@@ -0,0 +1,2 @@
+export { drawView, type DrawViewOptions, type ViewTransform } from './lib/draw';
+export { bodyColor, bodyLabel } from './lib/bodies';
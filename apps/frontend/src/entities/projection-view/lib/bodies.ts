@@ -0,0 +1,16 @@
+/** Line colors of the bodies of multi-body views, repeated when there are more bodies */
+const BODY_COLORS = ['#1d4ed8', '#b91c1c', '#15803d', '#a16207', '#7e22ce', '#0e7490', '#c2410c', '#be185d'];
+
+/**
+ * Color of a body's lines
+ */
+export function bodyColor(body: number): string {
+  return BODY_COLORS[body % BODY_COLORS.length];
+}
+
+/**
+ * Display name of a body, numbering unnamed ones
+ */
+export function bodyLabel(names: string[], body: number): string {
+  return names[body] || `Body ${body + 1}`;
+}
@@ -0,0 +1,162 @@
+import type { ArcSegment, CircleShape, Dimension, LineSegment, ProjectionView } from '@stl2d/contracts';
+import { bodyColor } from './bodies';
+
+/** Mapping from view coordinates to canvas pixels */
+export interface ViewTransform {
+  scale: number;
+  offsetX: number;
+  offsetY: number;
+  /** Draw the view's Y axis pointing up instead of down the canvas */
+  flipY?: boolean;
+}
+
+export interface DrawViewOptions {
+  showHiddenLines: boolean;
+  showDimensions: boolean;
+  /** Draw the visible lines of each body of multi-body views in a color of its own */
+  colorBodies?: boolean;
+  /** Bodies whose lines are left out */
+  hiddenBodies?: ReadonlySet<number>;
+}
+
+/**
+ * Draw a projection view with hidden lines, hatching, centerlines and dimensions
+ */
+export function drawView(
+  ctx: CanvasRenderingContext2D,
+  view: ProjectionView,
+  transform: ViewTransform,
+  { showHiddenLines, showDimensions, colorBodies, hiddenBodies }: DrawViewOptions,
+): void {
+  const { scale, offsetX, offsetY } = transform;
+  const ySign = transform.flipY ? -1 : 1;
+  const toCanvasX = (x: number) => x * scale + offsetX;
+  const toCanvasY = (y: number) => ySign * y * scale + offsetY;
+
+  const drawLines = (lines: LineSegment[]) => {
+    for (const line of lines) {
+      const [p0, p1] = line;
+      ctx.beginPath();
+      ctx.moveTo(toCanvasX(p0[0]), toCanvasY(p0[1]));
+      ctx.lineTo(toCanvasX(p1[0]), toCanvasY(p1[1]));
+      ctx.stroke();
+    }
+  };
+
+  // Arc angles grow counter-clockwise in view space, which matches canvas angles
+  // when y is not flipped; flipping mirrors the angles and the direction
+  const drawCurves = (arcs: ArcSegment[], circles: CircleShape[]) => {
+    for (const arc of arcs) {
+      ctx.beginPath();
+      ctx.arc(
+        toCanvasX(arc.center[0]),
+        toCanvasY(arc.center[1]),
+        arc.radius * scale,
+        ySign * arc.startAngle,
+        ySign * arc.endAngle,
+        transform.flipY,
+      );
+      ctx.stroke();
+    }
+    for (const circle of circles) {
+      ctx.beginPath();
+      ctx.arc(toCanvasX(circle.center[0]), toCanvasY(circle.center[1]), circle.radius * scale, 0, 2 * Math.PI);
+      ctx.stroke();
+    }
+  };
+
+  // Items of the given body, or of all shown bodies; views of single-body models have no tags
+  const ofBodies = <T>(items: T[], tags: number[] | undefined, body?: number): T[] => {
+    if (!tags) return items;
+    return items.filter((_, index) => (body === undefined ? !hiddenBodies?.has(tags[index]) : tags[index] === body));
+  };
+
+  const drawDimensions = (dimensions: Dimension[]) => {
+    const arrowLength = 8;
+    const arrowWidth = 3;
+
+    ctx.font = '12px sans-serif';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+
+    for (const dimension of dimensions) {
+      drawLines(dimension.extensionLines);
+      drawLines([dimension.dimensionLine]);
+
+      // Arrow heads at both ends of the dimension line, pointing outwards
+      const [p0, p1] = dimension.dimensionLine.map(([x, y]) => [toCanvasX(x), toCanvasY(y)]);
+      const length = Math.hypot(p1[0] - p0[0], p1[1] - p0[1]);
+      if (length > 0) {
+        const ux = (p1[0] - p0[0]) / length;
+        const uy = (p1[1] - p0[1]) / length;
+        for (const [[x, y], direction] of [
+          [p0, -1],
+          [p1, 1],
+        ] as const) {
+          const baseX = x - direction * ux * arrowLength;
+          const baseY = y - direction * uy * arrowLength;
+          ctx.beginPath();
+          ctx.moveTo(x, y);
+          ctx.lineTo(baseX - uy * arrowWidth, baseY + ux * arrowWidth);
+          ctx.lineTo(baseX + uy * arrowWidth, baseY - ux * arrowWidth);
+          ctx.closePath();
+          ctx.fill();
+        }
+      }
+
+      const [tx, ty] = dimension.textPosition;
+      ctx.fillText(dimension.text, toCanvasX(tx), toCanvasY(ty));
+    }
+  };
+
+  // Draw hidden lines first so visible lines stay on top
+  if (showHiddenLines) {
+    ctx.strokeStyle = '#6b7280';
+    ctx.lineWidth = 1;
+    ctx.setLineDash([6, 4]);
+    drawLines(ofBodies(view.hiddenLines, view.bodies?.hiddenLines));
+    drawCurves(
+      ofBodies(view.hiddenArcs, view.bodies?.hiddenArcs),
+      ofBodies(view.hiddenCircles, view.bodies?.hiddenCircles),
+    );
+    ctx.setLineDash([]);
+  }
+
+  // Draw section hatching under the outline
+  if (view.hatchLines) {
+    ctx.strokeStyle = '#374151';
+    ctx.lineWidth = 0.75;
+    drawLines(view.hatchLines);
+  }
+
+  // Draw center marks and centerlines as thin chain lines
+  ctx.strokeStyle = '#6b7280';
+  ctx.lineWidth = 0.75;
+  ctx.setLineDash([12, 3, 3, 3]);
+  drawLines(view.centerLines);
+  ctx.setLineDash([]);
+
+  // Draw visible lines
+  ctx.lineWidth = 1.5;
+  const { bodies } = view;
+  if (colorBodies && bodies) {
+    bodies.names.forEach((_, body) => {
+      if (hiddenBodies?.has(body)) return;
+      ctx.strokeStyle = bodyColor(body);
+      drawLines(ofBodies(view.lines, bodies.lines, body));
+      drawCurves(ofBodies(view.arcs, bodies.arcs, body), ofBodies(view.circles, bodies.circles, body));
+    });
+  } else {
+    ctx.strokeStyle = '#000000';
+    drawLines(ofBodies(view.lines, bodies?.lines));
+    drawCurves(ofBodies(view.arcs, bodies?.arcs), ofBodies(view.circles, bodies?.circles));
+  }
+
+  // Draw dimensions on top in a thin accent color
+  if (showDimensions) {
+    ctx.strokeStyle = '#2563eb';
+    ctx.fillStyle = '#2563eb';
+    ctx.lineWidth = 0.75;
+    drawDimensions(view.dimensions);
+  }
+}
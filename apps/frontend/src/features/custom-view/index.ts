@@ -0,0 +1 @@
+export { CustomViewForm } from './ui/CustomViewForm';
@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import {
+  VIEW_PRESETS,
+  VIEW_PRESET_LABELS,
+  type Vector3Tuple,
+  type ViewCamera,
+  type ViewPreset,
+} from '@stl2d/contracts';
+import { Button, VectorInput } from '@shared/ui';
+
+interface CustomViewFormProps {
+  onSubmit: (name: string, camera: ViewCamera) => void;
+  isLoading?: boolean;
+}
+
+const PRESET_NAMES = Object.keys(VIEW_PRESETS) as ViewPreset[];
+
+export const CustomViewForm: React.FC<CustomViewFormProps> = ({ onSubmit, isLoading = false }) => {
+  const [direction, setDirection] = useState<Vector3Tuple>(VIEW_PRESETS.isometric.direction);
+  const [up, setUp] = useState<Vector3Tuple>(VIEW_PRESETS.isometric.up);
+
+  const handlePreset = (preset: ViewPreset) => {
+    const camera = VIEW_PRESETS[preset];
+    setDirection(camera.direction);
+    setUp(camera.up);
+    onSubmit(preset, camera);
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-wrap gap-2">
+        {PRESET_NAMES.map((preset) => (
+          <Button
+            key={preset}
+            variant="outline"
+            onClick={() => handlePreset(preset)}
+            disabled={isLoading}
+            className="text-xs"
+          >
+            {VIEW_PRESET_LABELS[preset]}
+          </Button>
+        ))}
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <VectorInput label="Direction" value={direction} onChange={setDirection} disabled={isLoading} />
+        <VectorInput label="Up" value={up} onChange={setUp} disabled={isLoading} />
+      </div>
+
+      <div>
+        <Button onClick={() => onSubmit('custom', { direction, up })} disabled={isLoading} size="sm">
+          Generate custom view
+        </Button>
+      </div>
+    </div>
+  );
+};
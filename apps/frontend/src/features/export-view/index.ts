@@ -0,0 +1,4 @@
+export { ExportButtons } from './ui/ExportButtons';
+export { PdfExportForm, type PdfSheetOptions } from './ui/PdfExportForm';
+export { viewToSvg, viewsToSvg, type SvgExportOptions } from './lib/svg';
+export { downloadFile, decodeBase64 } from './lib/download';
@@ -0,0 +1,223 @@
+import type {
+  ArcSegment,
+  BoundingBox,
+  CircleShape,
+  Dimension,
+  LengthUnit,
+  LineSegment,
+  ProjectionView,
+} from '@stl2d/contracts';
+
+export interface SvgExportOptions {
+  /** Unit of the view coordinates; sets the physical size of the drawing when given */
+  unit?: LengthUnit;
+}
+
+/** SVG length units for the supported model units */
+const SVG_UNITS: Record<LengthUnit, string> = {
+  mm: 'mm',
+  cm: 'cm',
+  inch: 'in',
+};
+
+/** Gap between views in a multi-view export, relative to the largest view */
+const VIEW_GAP = 0.15;
+
+/** Columns of the multi-view grid */
+const GRID_COLUMNS = 3;
+
+function fmt(value: number): string {
+  return String(Number(value.toFixed(6)));
+}
+
+function lineElements(lines: LineSegment[]): string[] {
+  return lines.map(
+    ([[x1, y1], [x2, y2]]) => `<line x1="${fmt(x1)}" y1="${fmt(y1)}" x2="${fmt(x2)}" y2="${fmt(y2)}"/>`,
+  );
+}
+
+/**
+ * Arcs as path elements; arcs run counter-clockwise, which is the positive
+ * sweep direction in the (not yet flipped) view coordinates
+ */
+function arcElements(arcs: ArcSegment[]): string[] {
+  return arcs.map(({ center: [cx, cy], radius, startAngle, endAngle }) => {
+    let sweep = endAngle - startAngle;
+    while (sweep <= 0) sweep += 2 * Math.PI;
+    const x0 = cx + radius * Math.cos(startAngle);
+    const y0 = cy + radius * Math.sin(startAngle);
+    const x1 = cx + radius * Math.cos(endAngle);
+    const y1 = cy + radius * Math.sin(endAngle);
+    const largeArc = sweep > Math.PI ? 1 : 0;
+    return `<path d="M ${fmt(x0)} ${fmt(y0)} A ${fmt(radius)} ${fmt(radius)} 0 ${largeArc} 1 ${fmt(x1)} ${fmt(y1)}"/>`;
+  });
+}
+
+function circleElements(circles: CircleShape[]): string[] {
+  return circles.map(
+    ({ center: [cx, cy], radius }) => `<circle cx="${fmt(cx)}" cy="${fmt(cy)}" r="${fmt(radius)}"/>`,
+  );
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Text at a point of the flipped view coordinates, flipped back so it reads upright
+ */
+function textElement(text: string, x: number, y: number, size: number): string {
+  return `<text x="${fmt(x)}" y="${fmt(-y)}" transform="scale(1 -1)" font-size="${fmt(size)}" stroke="none" text-anchor="middle" dominant-baseline="middle">${escapeXml(text)}</text>`;
+}
+
+/**
+ * Dimension lines, extension lines, arrow heads and labels; arrow and text sizes
+ * are relative to the view size
+ */
+function dimensionElements(dimensions: Dimension[], size: number): string[] {
+  const arrowLength = size * 0.015;
+  const arrowWidth = arrowLength * 0.35;
+
+  return dimensions.flatMap((dimension) => {
+    const [[x0, y0], [x1, y1]] = dimension.dimensionLine;
+    const length = Math.hypot(x1 - x0, y1 - y0);
+    const arrows: string[] = [];
+
+    if (length > 0) {
+      const ux = (x1 - x0) / length;
+      const uy = (y1 - y0) / length;
+      for (const [x, y, direction] of [
+        [x0, y0, -1],
+        [x1, y1, 1],
+      ]) {
+        const bx = x - direction * ux * arrowLength;
+        const by = y - direction * uy * arrowLength;
+        const points = [
+          [x, y],
+          [bx - uy * arrowWidth, by + ux * arrowWidth],
+          [bx + uy * arrowWidth, by - ux * arrowWidth],
+        ];
+        arrows.push(`<polygon points="${points.map(([px, py]) => `${fmt(px)},${fmt(py)}`).join(' ')}"/>`);
+      }
+    }
+
+    const [tx, ty] = dimension.textPosition;
+    return [
+      ...lineElements([...dimension.extensionLines, dimension.dimensionLine]),
+      ...arrows,
+      textElement(dimension.text, tx, ty, size * 0.025),
+    ];
+  });
+}
+
+/**
+ * Named group that drawing programs pick up as a layer
+ */
+function layer(id: string, attributes: string, elements: string[]): string {
+  if (elements.length === 0) return '';
+  return [
+    `<g id="${id}" inkscape:groupmode="layer" inkscape:label="${id}" ${attributes}>`,
+    ...elements.map((element) => `  ${element}`),
+    '</g>',
+  ].join('\n');
+}
+
+function bboxSize([xmin, ymin, xmax, ymax]: BoundingBox): number {
+  return Math.max(xmax - xmin, ymax - ymin);
+}
+
+/**
+ * Layers of one view in view coordinates (Y up)
+ */
+function viewLayers(view: ProjectionView, prefix: string): string {
+  const size = bboxSize(view.bbox);
+  // Line weights and dash lengths scale with the view, like arrow heads and text
+  const stroke = (weight: number, dashes: number[] = []) => {
+    const attributes = `fill="none" stroke="#000" stroke-width="${fmt(size * weight)}"`;
+    if (dashes.length === 0) return attributes;
+    return `${attributes} stroke-dasharray="${dashes.map((dash) => fmt(size * dash)).join(' ')}"`;
+  };
+
+  return [
+    layer(`${prefix}hidden`, `${stroke(0.002, [0.012, 0.008])} stroke-opacity="0.6"`, [
+      ...lineElements(view.hiddenLines),
+      ...arcElements(view.hiddenArcs),
+      ...circleElements(view.hiddenCircles),
+    ]),
+    layer(`${prefix}hatching`, stroke(0.001), lineElements(view.hatchLines ?? [])),
+    layer(
+      `${prefix}construction`,
+      `${stroke(0.0015, [0.024, 0.006, 0.006, 0.006])} stroke-opacity="0.6"`,
+      lineElements(view.centerLines),
+    ),
+    layer(`${prefix}visible`, stroke(0.003), [
+      ...lineElements(view.lines),
+      ...arcElements(view.arcs),
+      ...circleElements(view.circles),
+    ]),
+    layer(
+      `${prefix}dimensions`,
+      `fill="#2563eb" stroke="#2563eb" stroke-width="${fmt(size * 0.0015)}" font-family="sans-serif"`,
+      dimensionElements(view.dimensions, size),
+    ),
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * SVG document around content in view coordinates spanning the given box
+ */
+function svgDocument(
+  [xmin, ymin, xmax, ymax]: BoundingBox,
+  content: string,
+  options: SvgExportOptions,
+): string {
+  const width = xmax - xmin;
+  const height = ymax - ymin;
+  const unit = options.unit ? SVG_UNITS[options.unit] : '';
+
+  // The view's Y axis points up, so the top of the drawing is at -ymax in SVG coordinates
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:inkscape="http://www.inkscape.org/namespaces/inkscape" width="${fmt(width)}${unit}" height="${fmt(height)}${unit}" viewBox="${fmt(xmin)} ${fmt(-ymax)} ${fmt(width)} ${fmt(height)}">`,
+    content,
+    '</svg>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Export a single view as SVG, with coordinates in model units
+ */
+export function viewToSvg(view: ProjectionView, options: SvgExportOptions = {}): string {
+  const content = ['<g transform="scale(1 -1)">', viewLayers(view, ''), '</g>'].join('\n');
+  return svgDocument(view.bbox, content, options);
+}
+
+/**
+ * Export several views side by side in one SVG, each view in its own group of layers
+ */
+export function viewsToSvg(views: ProjectionView[], options: SvgExportOptions = {}): string {
+  const cell = Math.max(...views.map((view) => bboxSize(view.bbox)), 0);
+  const pitch = cell * (1 + VIEW_GAP);
+  const rows = Math.ceil(views.length / GRID_COLUMNS);
+
+  // Each view is centered in its grid cell (in SVG coordinates, Y down)
+  const groups = views.map((view, index) => {
+    const [xmin, ymin, xmax, ymax] = view.bbox;
+    const column = index % GRID_COLUMNS;
+    const row = Math.floor(index / GRID_COLUMNS);
+    const tx = column * pitch + pitch / 2 - (xmin + xmax) / 2;
+    const ty = row * pitch + pitch / 2 + (ymin + ymax) / 2;
+
+    return [
+      `<g id="view-${view.name}" transform="translate(${fmt(tx)} ${fmt(ty)}) scale(1 -1)">`,
+      viewLayers(view, `${view.name}-`),
+      '</g>',
+    ].join('\n');
+  });
+
+  const bbox: BoundingBox = [0, -rows * pitch, GRID_COLUMNS * pitch, 0];
+  return svgDocument(bbox, groups.join('\n'), options);
+}
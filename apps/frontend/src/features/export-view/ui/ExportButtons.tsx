@@ -0,0 +1,59 @@
+import React from 'react';
+import { Download } from 'lucide-react';
+import type { LengthUnit, ProjectionView } from '@stl2d/contracts';
+import { Button } from '@shared/ui';
+import { viewToSvg, viewsToSvg } from '../lib/svg';
+import { downloadFile } from '../lib/download';
+
+interface ExportButtonsProps {
+  /** View shown in the viewer */
+  view: ProjectionView | null | undefined;
+  /** Standard views exported together */
+  views: ProjectionView[];
+  /** Unit of the view coordinates; omitted for normalized models */
+  unit?: LengthUnit;
+  /** Base name of the exported files, without extension */
+  baseName: string;
+  /** Request a DXF drawing of the view; the button is hidden when omitted */
+  onExportDxf?: () => void;
+  isExportingDxf?: boolean;
+}
+
+const SVG_MIME_TYPE = 'image/svg+xml';
+
+export const ExportButtons: React.FC<ExportButtonsProps> = ({
+  view,
+  views,
+  unit,
+  baseName,
+  onExportDxf,
+  isExportingDxf = false,
+}) => {
+  const handleExportView = () => {
+    if (!view) return;
+    downloadFile(viewToSvg(view, { unit }), `${baseName}-${view.name}.svg`, SVG_MIME_TYPE);
+  };
+
+  const handleExportAll = () => {
+    downloadFile(viewsToSvg(views, { unit }), `${baseName}-views.svg`, SVG_MIME_TYPE);
+  };
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      <Button variant="outline" onClick={handleExportView} disabled={!view}>
+        <Download className="w-4 h-4 mr-2" />
+        SVG (this view)
+      </Button>
+      <Button variant="outline" onClick={handleExportAll} disabled={views.length === 0}>
+        <Download className="w-4 h-4 mr-2" />
+        SVG (all views)
+      </Button>
+      {onExportDxf && (
+        <Button variant="outline" onClick={onExportDxf} disabled={!view || isExportingDxf}>
+          <Download className="w-4 h-4 mr-2" />
+          {isExportingDxf ? 'Exporting...' : 'DXF (this view)'}
+        </Button>
+      )}
+    </div>
+  );
+};
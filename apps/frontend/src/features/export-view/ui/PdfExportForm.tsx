@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { FileText } from 'lucide-react';
+import {
+  DRAWING_SCALES,
+  PAPER_SIZES,
+  PROJECTION_METHODS,
+  PROJECTION_METHOD_LABELS,
+  type ExportPdfInput,
+  type PaperSize,
+  type ProjectionMethod,
+} from '@stl2d/contracts';
+import { Button } from '@shared/ui';
+
+export type PdfSheetOptions = Pick<ExportPdfInput, 'paperSize' | 'scale' | 'projection'>;
+
+interface PdfExportFormProps {
+  onSubmit: (options: PdfSheetOptions) => void;
+  isLoading?: boolean;
+}
+
+/**
+ * Scale as a ratio such as 1:2 or 5:1
+ */
+function formatScale(scale: number): string {
+  return scale >= 1 ? `${scale}:1` : `1:${Math.round(1 / scale)}`;
+}
+
+export const PdfExportForm: React.FC<PdfExportFormProps> = ({ onSubmit, isLoading = false }) => {
+  const [paperSize, setPaperSize] = useState<PaperSize>('A3');
+  // Empty string selects the largest standard scale that fits
+  const [scale, setScale] = useState('');
+  const [projection, setProjection] = useState<ProjectionMethod>('first');
+
+  const handleSubmit = () => {
+    onSubmit({ paperSize, projection, scale: scale === '' ? undefined : Number(scale) });
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          Paper
+          <select
+            value={paperSize}
+            onChange={(e) => setPaperSize(e.target.value as PaperSize)}
+            disabled={isLoading}
+            className="rounded-md border border-gray-300 px-2 py-1 text-sm"
+          >
+            {PAPER_SIZES.map((size) => (
+              <option key={size} value={size}>
+                {size} landscape
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          Scale
+          <select
+            value={scale}
+            onChange={(e) => setScale(e.target.value)}
+            disabled={isLoading}
+            className="rounded-md border border-gray-300 px-2 py-1 text-sm"
+          >
+            <option value="">Fit to sheet</option>
+            {DRAWING_SCALES.map((value) => (
+              <option key={value} value={String(value)}>
+                {formatScale(value)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          Projection
+          <select
+            value={projection}
+            onChange={(e) => setProjection(e.target.value as ProjectionMethod)}
+            disabled={isLoading}
+            className="rounded-md border border-gray-300 px-2 py-1 text-sm"
+          >
+            {PROJECTION_METHODS.map((method) => (
+              <option key={method} value={method}>
+                {PROJECTION_METHOD_LABELS[method]}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        One sheet per standard view, with border and title block, all at the same scale.
+      </p>
+
+      <div>
+        <Button onClick={handleSubmit} disabled={isLoading} size="sm">
+          <FileText className="w-4 h-4 mr-2" />
+          {isLoading ? 'Exporting...' : 'Export PDF drawing'}
+        </Button>
+      </div>
+    </div>
+  );
+};
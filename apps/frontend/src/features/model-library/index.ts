@@ -0,0 +1 @@
+export { ModelLibrary } from './ui/ModelLibrary';
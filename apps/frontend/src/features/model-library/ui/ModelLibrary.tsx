@@ -0,0 +1,62 @@
+import React from 'react';
+import { toast } from 'sonner';
+import { FolderOpen, Trash2 } from 'lucide-react';
+import type { ModelSummary } from '@stl2d/contracts';
+import { trpc } from '@shared/api';
+import { Button } from '@shared/ui';
+
+interface ModelLibraryProps {
+  onOpen: (modelId: string) => void;
+}
+
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/**
+ * Previously uploaded models, newest first
+ */
+export const ModelLibrary: React.FC<ModelLibraryProps> = ({ onOpen }) => {
+  const utils = trpc.useUtils();
+  const modelsQuery = trpc.stl.listModels.useQuery();
+  const deleteMutation = trpc.stl.deleteModel.useMutation({
+    onSuccess: () => utils.stl.listModels.invalidate(),
+    onError: (error: { message: string }) => {
+      toast.error(`Delete failed: ${error.message}`);
+    },
+  });
+
+  const models: ModelSummary[] = modelsQuery.data ?? [];
+  if (models.length === 0) return null;
+
+  return (
+    <ul className="divide-y divide-gray-200">
+      {models.map((model) => (
+        <li key={model.modelId} className="flex items-center gap-4 py-3">
+          <div className="min-w-0 flex-1">
+            <p className="truncate text-sm font-medium text-gray-900">{model.fileName}</p>
+            <p className="text-xs text-gray-500">
+              {new Date(model.createdAt).toLocaleString()} • {formatFileSize(model.fileSize)} •{' '}
+              {model.triangleCount.toLocaleString()} triangles • {model.normalized ? 'normalized' : model.unit}
+            </p>
+          </div>
+          <Button size="sm" variant="outline" onClick={() => onOpen(model.modelId)}>
+            <FolderOpen className="w-4 h-4 mr-2" />
+            Open
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => deleteMutation.mutate({ modelId: model.modelId })}
+            disabled={deleteMutation.isPending}
+            title="Delete model"
+            aria-label={`Delete ${model.fileName}`}
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </li>
+      ))}
+    </ul>
+  );
+};
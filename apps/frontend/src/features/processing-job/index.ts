@@ -0,0 +1 @@
+export { JobProgressPanel } from './ui/JobProgressPanel';
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { toast } from 'sonner';
+import { Check, Circle, Loader2 } from 'lucide-react';
+import { JOB_STAGES, JOB_STAGE_LABELS, type JobProgress } from '@stl2d/contracts';
+import { trpc } from '@shared/api';
+import { Button } from '@shared/ui';
+
+interface JobProgressPanelProps {
+  jobId: string;
+  /** Called once with the final event of a completed, failed or cancelled job */
+  onFinished: (progress: JobProgress) => void;
+}
+
+/**
+ * Live stage-level progress of a processing job, with a cancel button
+ */
+export const JobProgressPanel: React.FC<JobProgressPanelProps> = ({ jobId, onFinished }) => {
+  const [progress, setProgress] = useState<JobProgress | null>(null);
+
+  trpc.stl.onJobProgress.useSubscription(
+    { jobId },
+    {
+      onData: (event: JobProgress) => {
+        setProgress(event);
+        if (event.status !== 'running') onFinished(event);
+      },
+      onError: (error: { message: string }) => {
+        toast.error(`Lost connection to processing job: ${error.message}`);
+      },
+    },
+  );
+
+  const cancelMutation = trpc.stl.cancelJob.useMutation({
+    onError: (error: { message: string }) => {
+      toast.error(`Cancel failed: ${error.message}`);
+    },
+  });
+
+  const stageIndex = progress ? JOB_STAGES.indexOf(progress.stage) : 0;
+  const percent = Math.round((progress?.progress ?? 0) * 100);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <p className="truncate font-semibold text-gray-900">
+          Processing {progress?.fileName ?? 'model'}
+        </p>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => cancelMutation.mutate({ jobId })}
+          disabled={cancelMutation.isPending || progress?.status !== 'running'}
+        >
+          Cancel
+        </Button>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <div
+          className="h-2 flex-1 overflow-hidden rounded bg-gray-200"
+          role="progressbar"
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuenow={percent}
+        >
+          <div className="h-full bg-blue-500 transition-[width]" style={{ width: `${percent}%` }} />
+        </div>
+        <span className="w-12 text-right text-sm text-gray-600">{percent}%</span>
+      </div>
+
+      <ol className="space-y-2 text-sm">
+        {JOB_STAGES.map((stage, index) => {
+          const isDone = index < stageIndex || progress?.status === 'completed';
+          const isCurrent = index === stageIndex && progress?.status === 'running';
+          return (
+            <li
+              key={stage}
+              className={`flex items-center gap-2 ${isDone || isCurrent ? 'text-gray-900' : 'text-gray-400'}`}
+            >
+              {isDone ? (
+                <Check className="w-4 h-4 text-green-500" />
+              ) : isCurrent ? (
+                <Loader2 className="w-4 h-4 animate-spin text-blue-500" />
+              ) : (
+                <Circle className="w-4 h-4" />
+              )}
+              <span>{JOB_STAGE_LABELS[stage]}</span>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
@@ -0,0 +1 @@
+export { SectionViewForm } from './ui/SectionViewForm';
@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import {
+  DEFAULT_HATCH_ANGLE,
+  type HatchOptions,
+  type ModelBounds,
+  type SectionPlane,
+  type Vector3Tuple,
+} from '@stl2d/contracts';
+import { Button, VectorInput } from '@shared/ui';
+
+interface SectionViewFormProps {
+  /** Model bounds in view coordinates, used to start the plane at the model center */
+  bounds?: ModelBounds;
+  onSubmit: (plane: SectionPlane, hatch: HatchOptions) => void;
+  isLoading?: boolean;
+}
+
+type PlaneMode = 'axis' | 'plane';
+type Axis = 'x' | 'y' | 'z';
+
+const AXES: Axis[] = ['x', 'y', 'z'];
+
+function getCenter(bounds?: ModelBounds): Vector3Tuple {
+  if (!bounds) return [0, 0, 0];
+  return bounds.min.map((min, i) => (min + bounds.max[i]) / 2) as Vector3Tuple;
+}
+
+export const SectionViewForm: React.FC<SectionViewFormProps> = ({
+  bounds,
+  onSubmit,
+  isLoading = false,
+}) => {
+  const center = getCenter(bounds);
+  const [mode, setMode] = useState<PlaneMode>('axis');
+  const [axis, setAxis] = useState<Axis>('z');
+  const [offset, setOffset] = useState(center[2]);
+  const [point, setPoint] = useState<Vector3Tuple>(center);
+  const [normal, setNormal] = useState<Vector3Tuple>([0, 0, 1]);
+  const [hatchAngle, setHatchAngle] = useState(DEFAULT_HATCH_ANGLE);
+  const [hatchSpacing, setHatchSpacing] = useState('');
+
+  const handleAxis = (value: Axis) => {
+    setAxis(value);
+    setOffset(center[AXES.indexOf(value)]);
+  };
+
+  const handleSubmit = () => {
+    const plane: SectionPlane = mode === 'axis' ? { axis, offset } : { point, normal };
+    const spacing = Number(hatchSpacing);
+    onSubmit(plane, {
+      angle: hatchAngle,
+      spacing: hatchSpacing !== '' && spacing > 0 ? spacing : undefined,
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          variant={mode === 'axis' ? 'default' : 'outline'}
+          onClick={() => setMode('axis')}
+          disabled={isLoading}
+        >
+          Axis offset
+        </Button>
+        <Button
+          size="sm"
+          variant={mode === 'plane' ? 'default' : 'outline'}
+          onClick={() => setMode('plane')}
+          disabled={isLoading}
+        >
+          Point and normal
+        </Button>
+      </div>
+
+      {mode === 'axis' ? (
+        <div className="flex items-center gap-2">
+          <span className="w-20 text-sm font-medium text-gray-700">Axis</span>
+          {AXES.map((value) => (
+            <Button
+              key={value}
+              size="sm"
+              variant={axis === value ? 'default' : 'outline'}
+              onClick={() => handleAxis(value)}
+              disabled={isLoading}
+            >
+              {value.toUpperCase()}
+            </Button>
+          ))}
+          <label className="ml-4 flex items-center gap-2 text-sm text-gray-700">
+            Offset
+            <input
+              type="number"
+              step="any"
+              value={offset}
+              onChange={(e) => setOffset(Number(e.target.value))}
+              disabled={isLoading}
+              className="w-24 rounded-md border border-gray-300 px-2 py-1 text-sm text-gray-900"
+            />
+          </label>
+        </div>
+      ) : (
+        <div className="flex flex-col gap-2">
+          <VectorInput label="Point" value={point} onChange={setPoint} disabled={isLoading} />
+          <VectorInput label="Normal" value={normal} onChange={setNormal} disabled={isLoading} />
+        </div>
+      )}
+
+      <div className="flex items-center gap-4">
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          Hatch angle (°)
+          <input
+            type="number"
+            value={hatchAngle}
+            onChange={(e) => setHatchAngle(Number(e.target.value))}
+            disabled={isLoading}
+            className="w-20 rounded-md border border-gray-300 px-2 py-1 text-sm text-gray-900"
+          />
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          Spacing
+          <input
+            type="number"
+            min={0}
+            step="0.01"
+            placeholder="auto"
+            value={hatchSpacing}
+            onChange={(e) => setHatchSpacing(e.target.value)}
+            disabled={isLoading}
+            className="w-24 rounded-md border border-gray-300 px-2 py-1 text-sm text-gray-900"
+          />
+        </label>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Material on the side the normal (or positive axis) points to is removed.
+      </p>
+
+      <div>
+        <Button onClick={handleSubmit} disabled={isLoading} size="sm">
+          Generate section view
+        </Button>
+      </div>
+    </div>
+  );
+};
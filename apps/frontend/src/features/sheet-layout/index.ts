@@ -0,0 +1,8 @@
+export { SheetLayoutForm } from './ui/SheetLayoutForm';
+export {
+  arrangeViews,
+  DEFAULT_SHEET_LAYOUT,
+  type PlacedView,
+  type SheetArrangement,
+  type SheetLayout,
+} from './lib/layout';
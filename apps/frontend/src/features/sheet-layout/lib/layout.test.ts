@@ -0,0 +1,57 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import type { BoundingBox, ProjectionView, ViewName } from '@stl2d/contracts';
+import { arrangeViews } from './layout';
+
+function view(name: ViewName, bbox: BoundingBox): ProjectionView {
+  return {
+    name,
+    lines: [],
+    hiddenLines: [],
+    arcs: [],
+    circles: [],
+    hiddenArcs: [],
+    hiddenCircles: [],
+    centerLines: [],
+    polylines: [],
+    dimensions: [],
+    bbox,
+  };
+}
+
+// Views of a 20 x 10 x 4 block
+const projections = [
+  view('front', [0, 0, 20, 10]),
+  view('top', [0, -4, 20, 0]),
+  view('right', [0, 0, 4, 10]),
+  view('left', [-4, 0, 0, 10]),
+];
+
+function offsets(method: 'first' | 'third', views: ViewName[]) {
+  const { views: placed } = arrangeViews(projections, { views, method, spacing: 2 });
+  return Object.fromEntries(placed.map(({ view: { name }, offset }) => [name, offset]));
+}
+
+describe('arrangeViews', () => {
+  it('places the top view below and the right view left of the front view in first angle', () => {
+    expect(offsets('first', ['front', 'top', 'right'])).toEqual({
+      front: [0, 0],
+      top: [0, -2],
+      right: [-6, 0],
+    });
+  });
+
+  it('places the top view above and the right view right of the front view in third angle', () => {
+    expect(offsets('third', ['front', 'top', 'right'])).toEqual({
+      front: [0, 0],
+      top: [0, 16],
+      right: [22, 0],
+    });
+  });
+
+  it('closes the gap of views that are not shown', () => {
+    const { bbox } = arrangeViews(projections, { views: ['front', 'left'], method: 'first', spacing: 2 });
+
+    expect(bbox).toEqual([0, 0, 26, 10]);
+  });
+});
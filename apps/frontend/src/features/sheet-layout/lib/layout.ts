@@ -0,0 +1,98 @@
+import type { BoundingBox, ProjectionMethod, ProjectionView, ViewName } from '@stl2d/contracts';
+
+/** Views and arrangement of a multi-view drawing sheet */
+export interface SheetLayout {
+  /** Views shown on the sheet */
+  views: ViewName[];
+  method: ProjectionMethod;
+  /** Gap between neighbouring views in model units; derived from the view sizes when omitted */
+  spacing?: number;
+}
+
+/** View placed on the sheet, moved by an offset in view units */
+export interface PlacedView {
+  view: ProjectionView;
+  offset: [number, number];
+}
+
+export interface SheetArrangement {
+  views: PlacedView[];
+  /** Bounds of all placed views in sheet coordinates (Y up) */
+  bbox: BoundingBox;
+}
+
+export const DEFAULT_SHEET_LAYOUT: SheetLayout = {
+  views: ['front', 'top', 'right'],
+  method: 'first',
+};
+
+/** Automatic spacing relative to the largest view */
+const AUTO_SPACING = 0.1;
+
+/**
+ * Positions around the front view. In first angle projection each view is placed on
+ * the side of the front view opposite to where it is seen from; third angle projection
+ * places it on the same side. The back view goes to the far right in both.
+ */
+const ARRANGEMENTS: Record<
+  ProjectionMethod,
+  { left: ViewName[]; right: ViewName[]; above: ViewName[]; below: ViewName[] }
+> = {
+  first: { left: ['right'], right: ['left', 'back'], above: ['bottom'], below: ['top'] },
+  third: { left: ['left'], right: ['right', 'back'], above: ['top'], below: ['bottom'] },
+};
+
+/**
+ * Arrange views around the front view at a common scale. Views in the row of the front
+ * view share its vertical coordinates and views in its column share its horizontal ones,
+ * so features line up between neighbouring views.
+ */
+export function arrangeViews(projections: ProjectionView[], layout: SheetLayout): SheetArrangement {
+  const byName = new Map(projections.map((view) => [view.name, view]));
+  const selected = layout.views
+    .map((name) => byName.get(name))
+    .filter((view): view is ProjectionView => view !== undefined);
+
+  const size = Math.max(
+    0,
+    ...selected.map(({ bbox: [xmin, ymin, xmax, ymax] }) => Math.max(xmax - xmin, ymax - ymin)),
+  );
+  const spacing = layout.spacing ?? size * AUTO_SPACING;
+
+  // The front view anchors the layout even when it is not shown itself
+  const front = byName.get('front')?.bbox ?? [0, 0, 0, 0];
+  const offsets = new Map<string, [number, number]>([['front', [0, 0]]]);
+  const { left, right, above, below } = ARRANGEMENTS[layout.method];
+
+  // Walk outwards from the front view, skipping views that are not shown
+  const place = (names: ViewName[], start: number, direction: 1 | -1, horizontal: boolean) => {
+    let edge = start;
+    for (const name of names) {
+      const view = byName.get(name);
+      if (!view || !layout.views.includes(name)) continue;
+      const [xmin, ymin, xmax, ymax] = view.bbox;
+      const [near, far] = horizontal ? [xmin, xmax] : [ymin, ymax];
+      const shift = direction > 0 ? edge + spacing - near : edge - spacing - far;
+      offsets.set(name, horizontal ? [shift, 0] : [0, shift]);
+      edge = direction > 0 ? far + shift : near + shift;
+    }
+  };
+
+  place(right, front[2], 1, true);
+  place(left, front[0], -1, true);
+  place(above, front[3], 1, false);
+  place(below, front[1], -1, false);
+
+  const views = selected.map((view): PlacedView => ({ view, offset: offsets.get(view.name) ?? [0, 0] }));
+  const bbox: BoundingBox =
+    views.length === 0
+      ? [0, 0, 0, 0]
+      : [
+          Math.min(...views.map(({ view, offset }) => view.bbox[0] + offset[0])),
+          Math.min(...views.map(({ view, offset }) => view.bbox[1] + offset[1])),
+          Math.max(...views.map(({ view, offset }) => view.bbox[2] + offset[0])),
+          Math.max(...views.map(({ view, offset }) => view.bbox[3] + offset[1])),
+        ];
+
+  return { views, bbox };
+}
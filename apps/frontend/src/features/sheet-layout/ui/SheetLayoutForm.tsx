@@ -0,0 +1,77 @@
+import React from 'react';
+import {
+  PROJECTION_METHODS,
+  PROJECTION_METHOD_LABELS,
+  VIEW_LABELS,
+  VIEW_NAMES,
+  type ProjectionMethod,
+  type ViewName,
+} from '@stl2d/contracts';
+import type { SheetLayout } from '../lib/layout';
+
+interface SheetLayoutFormProps {
+  value: SheetLayout;
+  onChange: (layout: SheetLayout) => void;
+}
+
+export const SheetLayoutForm: React.FC<SheetLayoutFormProps> = ({ value, onChange }) => {
+  const toggleView = (name: ViewName) => {
+    const views = value.views.includes(name)
+      ? value.views.filter((view) => view !== name)
+      : VIEW_NAMES.filter((view) => view === name || value.views.includes(view));
+    onChange({ ...value, views });
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-wrap gap-4">
+        {VIEW_NAMES.map((name) => (
+          <label key={name} className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={value.views.includes(name)}
+              onChange={() => toggleView(name)}
+            />
+            {VIEW_LABELS[name]}
+          </label>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          Projection
+          <select
+            value={value.method}
+            onChange={(e) => onChange({ ...value, method: e.target.value as ProjectionMethod })}
+            className="rounded-md border border-gray-300 px-2 py-1 text-sm"
+          >
+            {PROJECTION_METHODS.map((method) => (
+              <option key={method} value={method}>
+                {PROJECTION_METHOD_LABELS[method]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          Spacing
+          <input
+            type="number"
+            min={0}
+            step="any"
+            placeholder="auto"
+            value={value.spacing ?? ''}
+            onChange={(e) =>
+              onChange({ ...value, spacing: e.target.value === '' ? undefined : Number(e.target.value) })
+            }
+            className="w-24 rounded-md border border-gray-300 px-2 py-1 text-sm text-gray-900"
+          />
+        </label>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        First angle (ISO) places each view opposite the side it is seen from; third angle (ANSI)
+        places it on the same side.
+      </p>
+    </div>
+  );
+};
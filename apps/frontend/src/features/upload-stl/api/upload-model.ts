@@ -0,0 +1,58 @@
+import { UPLOAD_ENDPOINT, type JobProgress, type UploadStlInput } from '@stl2d/contracts';
+
+interface UploadModelOptions {
+  /** Called with the sent share of the file, from 0 to 1 */
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal;
+}
+
+/** Rejection reason of an upload cancelled through its signal */
+export class UploadAbortedError extends Error {
+  constructor() {
+    super('Upload cancelled');
+    this.name = 'UploadAbortedError';
+  }
+}
+
+/**
+ * Upload a model file as binary request body; resolves with the processing job it started.
+ * Uses XMLHttpRequest, since fetch does not report upload progress.
+ */
+export function uploadModel(
+  file: File,
+  options: Omit<UploadStlInput, 'fileName'>,
+  { onProgress, signal }: UploadModelOptions = {},
+): Promise<JobProgress> {
+  const query = new URLSearchParams({ fileName: file.name });
+  for (const [key, value] of Object.entries(options)) {
+    if (value !== undefined) query.set(key, String(value));
+  }
+
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('POST', `${UPLOAD_ENDPOINT}?${query}`);
+    xhr.setRequestHeader('Content-Type', 'application/octet-stream');
+    xhr.responseType = 'json';
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) onProgress?.(event.loaded / event.total);
+    };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve(xhr.response as JobProgress);
+      } else {
+        reject(new Error(xhr.response?.error ?? `Upload failed with status ${xhr.status}`));
+      }
+    };
+    xhr.onerror = () => reject(new Error('Network error during upload'));
+    xhr.onabort = () => reject(new UploadAbortedError());
+
+    if (signal?.aborted) {
+      reject(new UploadAbortedError());
+      return;
+    }
+    signal?.addEventListener('abort', () => xhr.abort(), { once: true });
+
+    xhr.send(file);
+  });
+}
@@ -1 +1,2 @@
 export { FileUploadArea } from './ui/FileUploadArea';
+export { uploadModel, UploadAbortedError } from './api/upload-model';
@@ -1,17 +1,31 @@
 import React, { useRef, useState } from 'react';
 import { Upload, AlertCircle, CheckCircle } from 'lucide-react';
+import { MODEL_FORMATS, MODEL_FORMAT_EXTENSIONS, MODEL_FORMAT_LABELS } from '@stl2d/contracts';
 import { Button } from '@shared/ui';
 
+const ACCEPTED_EXTENSIONS = MODEL_FORMATS.flatMap((format) => MODEL_FORMAT_EXTENSIONS[format]);
+
+/** Supported formats as prose, e.g. "STL, OBJ, 3MF or PLY" */
+const FORMAT_NAMES = MODEL_FORMATS.map((format) => MODEL_FORMAT_LABELS[format])
+  .join(', ')
+  .replace(/, ([^,]*)$/, ' or $1');
+
 interface FileUploadAreaProps {
   onFileSelected: (file: File) => void;
   isLoading?: boolean;
   maxSizeMB?: number;
+  /** Sent share of the file while uploading, from 0 to 1 */
+  progress?: number | null;
+  /** Cancel the running upload; shows a cancel button while loading */
+  onCancel?: () => void;
 }
 
 export const FileUploadArea: React.FC<FileUploadAreaProps> = ({
   onFileSelected,
   isLoading = false,
   maxSizeMB = 50,
+  progress = null,
+  onCancel,
 }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [isDragActive, setIsDragActive] = useState(false);
@@ -21,8 +35,9 @@ export const FileUploadArea: React.FC<FileUploadAreaProps> = ({
   const maxSizeBytes = maxSizeMB * 1024 * 1024;
 
   const validateFile = (file: File): boolean => {
-    if (!file.name.toLowerCase().endsWith('.stl')) {
-      setError('Please select a valid STL file');
+    const name = file.name.toLowerCase();
+    if (!ACCEPTED_EXTENSIONS.some((extension) => name.endsWith(extension))) {
+      setError(`Please select a valid ${FORMAT_NAMES} file`);
       return false;
     }
 
@@ -91,7 +106,7 @@ export const FileUploadArea: React.FC<FileUploadAreaProps> = ({
         <input
           ref={fileInputRef}
           type="file"
-          accept=".stl"
+          accept={ACCEPTED_EXTENSIONS.join(',')}
           onChange={handleInputChange}
           className="hidden"
           disabled={isLoading}
@@ -113,7 +128,7 @@ export const FileUploadArea: React.FC<FileUploadAreaProps> = ({
               <Upload className="w-12 h-12 text-gray-400" />
               <div>
                 <p className="font-semibold text-gray-900">
-                  {isDragActive ? 'Drop your STL file here' : 'Drag and drop your STL file'}
+                  {isDragActive ? 'Drop your model file here' : `Drag and drop your ${FORMAT_NAMES} file`}
                 </p>
                 <p className="text-sm text-gray-600">or click to browse</p>
               </div>
@@ -121,13 +136,35 @@ export const FileUploadArea: React.FC<FileUploadAreaProps> = ({
           )}
         </div>
 
-        {isLoading && (
+        {isLoading && progress === null && (
           <div className="absolute inset-0 flex items-center justify-center bg-white/50 rounded-lg">
             <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500" />
           </div>
         )}
       </div>
 
+      {isLoading && progress !== null && (
+        <div className="mt-3 flex items-center gap-3">
+          <div
+            className="h-2 flex-1 overflow-hidden rounded bg-gray-200"
+            role="progressbar"
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={Math.round(progress * 100)}
+          >
+            <div className="h-full bg-blue-500 transition-[width]" style={{ width: `${progress * 100}%` }} />
+          </div>
+          <span className="w-28 text-right text-sm text-gray-600">
+            {progress < 1 ? `Uploading ${Math.round(progress * 100)}%` : 'Processing...'}
+          </span>
+          {onCancel && (
+            <Button size="sm" variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+          )}
+        </div>
+      )}
+
       {error && (
         <div className="mt-3 flex items-center gap-2 text-red-600 bg-red-50 p-3 rounded">
           <AlertCircle className="w-5 h-5 flex-shrink-0" />
@@ -1,49 +1,222 @@
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
+import { useLocation, useParams } from 'wouter';
 import { toast } from 'sonner';
-import { VIEW_NAMES, VIEW_LABELS, type ProjectionView, type ViewName } from '@stl2d/contracts';
+import { AlertTriangle } from 'lucide-react';
+import {
+  VIEW_NAMES,
+  VIEW_LABELS,
+  VIEW_PRESET_LABELS,
+  DEFAULT_CREASE_ANGLE,
+  DEFAULT_LENGTH_UNIT,
+  LENGTH_UNITS,
+  LENGTH_UNIT_LABELS,
+  type HatchOptions,
+  type JobProgress,
+  type LengthUnit,
+  type ModelBounds,
+  type ProcessingResult,
+  type ProjectionView,
+  type SavedModel,
+  type SectionPlane,
+  type ViewCamera,
+  type ViewName,
+  type ViewPreset,
+} from '@stl2d/contracts';
 import { trpc } from '@shared/api';
 import { Button } from '@shared/ui';
-import { FileUploadArea } from '@features/upload-stl';
+import { FileUploadArea, UploadAbortedError, uploadModel } from '@features/upload-stl';
+import { JobProgressPanel } from '@features/processing-job';
+import { ModelLibrary } from '@features/model-library';
+import { CustomViewForm } from '@features/custom-view';
+import { SectionViewForm } from '@features/section-view';
+import {
+  ExportButtons,
+  PdfExportForm,
+  decodeBase64,
+  downloadFile,
+  type PdfSheetOptions,
+} from '@features/export-view';
+import { SheetLayoutForm, DEFAULT_SHEET_LAYOUT, type SheetLayout } from '@features/sheet-layout';
 import { CanvasViewer } from '@widgets/canvas-viewer';
+import { DrawingSheet } from '@widgets/drawing-sheet';
+
+type SelectedView = ViewName | 'custom' | 'section' | 'sheet';
+
+type ModelInfo = Omit<ProcessingResult, 'views' | 'cached'>;
+
+function getCustomViewLabel(view: ProjectionView): string {
+  return VIEW_PRESET_LABELS[view.name as ViewPreset] ?? 'Custom view';
+}
+
+function formatModelSize(bounds: ModelBounds, unit: LengthUnit): string {
+  const size = bounds.max.map((max, axis) => Number((max - bounds.min[axis]).toPrecision(6)));
+  return `${size.join(' × ')} ${unit}`;
+}
 
 export function ProjectionViewerPage() {
-  const [selectedView, setSelectedView] = useState<ViewName>('front');
+  // Processed models are addressed by /models/:modelId so they survive a reload
+  const params = useParams<{ modelId?: string }>();
+  const [, navigate] = useLocation();
+  const [selectedView, setSelectedView] = useState<SelectedView>('front');
   const [projections, setProjections] = useState<ProjectionView[] | null>(null);
+  const [customView, setCustomView] = useState<ProjectionView | null>(null);
+  const [sectionView, setSectionView] = useState<ProjectionView | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+  const uploadAbortRef = useRef<AbortController | null>(null);
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [creaseAngle, setCreaseAngle] = useState(DEFAULT_CREASE_ANGLE);
+  const [unit, setUnit] = useState<LengthUnit>(DEFAULT_LENGTH_UNIT);
+  const [normalize, setNormalize] = useState(false);
+  const [model, setModel] = useState<ModelInfo | null>(null);
+  const [sheetLayout, setSheetLayout] = useState<SheetLayout>(DEFAULT_SHEET_LAYOUT);
 
-  const uploadMutation = trpc.stl.uploadAndProcess.useMutation({
+  const utils = trpc.useUtils();
+  const savedModelQuery = trpc.stl.getModel.useQuery(
+    { modelId: params.modelId ?? '' },
+    { enabled: !!params.modelId && params.modelId !== model?.modelId },
+  );
+
+  // Restore a stored model
+  useEffect(() => {
+    const saved: SavedModel | undefined = savedModelQuery.data;
+    if (!saved) return;
+
+    const { views, modelId, fileName, unit, normalized, bounds, warnings = [] } = saved;
+    setProjections(views);
+    setModel({ success: true, modelId, fileName, unit, normalized, bounds, warnings });
+    setCustomView(null);
+    setSectionView(null);
+    setSelectedView('front');
+  }, [savedModelQuery.data]);
+
+  useEffect(() => {
+    if (!savedModelQuery.error) return;
+    toast.error(`Could not open model: ${savedModelQuery.error.message}`);
+    navigate('/');
+  }, [savedModelQuery.error, navigate]);
+
+  const projectViewMutation = trpc.stl.projectView.useMutation({
     onSuccess: (data) => {
-      setProjections(data.views);
-      setSelectedView('front');
-      toast.success('STL processed successfully!');
-      setIsProcessing(false);
+      setCustomView(data);
+      setSelectedView('custom');
     },
     onError: (error) => {
-      toast.error(`Processing failed: ${error.message}`);
-      setIsProcessing(false);
+      toast.error(`Projection failed: ${error.message}`);
+    },
+  });
+
+  const projectSectionMutation = trpc.stl.projectSection.useMutation({
+    onSuccess: (data) => {
+      setSectionView(data);
+      setSelectedView('section');
+    },
+    onError: (error) => {
+      toast.error(`Section failed: ${error.message}`);
+    },
+  });
+
+  const exportDxfMutation = trpc.stl.exportDxf.useMutation({
+    onSuccess: ({ fileName, content }: { fileName: string; content: string }) => {
+      downloadFile(content, fileName, 'application/dxf');
+    },
+    onError: (error) => {
+      toast.error(`DXF export failed: ${error.message}`);
+    },
+  });
+
+  const exportPdfMutation = trpc.stl.exportPdf.useMutation({
+    onSuccess: ({ fileName, fileData }: { fileName: string; fileData: string }) => {
+      downloadFile(decodeBase64(fileData), fileName, 'application/pdf');
+    },
+    onError: (error) => {
+      toast.error(`PDF export failed: ${error.message}`);
     },
   });
 
   const handleFileSelected = async (file: File) => {
+    const controller = new AbortController();
+    uploadAbortRef.current = controller;
     setIsProcessing(true);
+    setUploadProgress(0);
 
     try {
-      const arrayBuffer = await file.arrayBuffer();
-      const bytes = new Uint8Array(arrayBuffer);
-      const binary = bytes.reduce((acc, byte) => acc + String.fromCharCode(byte), '');
-      const base64 = btoa(binary);
-
-      uploadMutation.mutate({
-        fileData: base64,
-        fileName: file.name,
-      });
-    } catch {
-      toast.error('Failed to read file');
+      // Processing continues in the background; the job panel follows its progress
+      const job = await uploadModel(
+        file,
+        { creaseAngle, unit, normalize },
+        { onProgress: setUploadProgress, signal: controller.signal },
+      );
+      setJobId(job.jobId);
+    } catch (error) {
+      if (error instanceof UploadAbortedError) {
+        toast.info('Upload cancelled');
+      } else {
+        toast.error(error instanceof Error ? error.message : 'Upload failed');
+      }
       setIsProcessing(false);
+    } finally {
+      uploadAbortRef.current = null;
+      setUploadProgress(null);
     }
   };
 
-  const currentView = projections?.find((v) => v.name === selectedView);
+  const handleJobFinished = ({ status, modelId, cached, error }: JobProgress) => {
+    setJobId(null);
+    setIsProcessing(false);
+
+    if (status === 'completed' && modelId) {
+      toast.success(cached ? 'Identical model found, reused its views' : 'Model processed successfully!');
+      void utils.stl.listModels.invalidate();
+      // The stored model is loaded from its route
+      navigate(`/models/${modelId}`);
+    } else if (status === 'cancelled') {
+      toast.info('Processing cancelled');
+    } else {
+      toast.error(`Processing failed: ${error ?? 'unknown error'}`);
+    }
+  };
+
+  const handleCustomView = (name: string, camera: ViewCamera) => {
+    if (!model) return;
+    projectViewMutation.mutate({ modelId: model.modelId, name, ...camera });
+  };
+
+  const handleSectionView = (plane: SectionPlane, hatch: HatchOptions) => {
+    if (!model) return;
+    projectSectionMutation.mutate({
+      modelId: model.modelId,
+      plane,
+      hatchAngle: hatch.angle,
+      hatchSpacing: hatch.spacing,
+    });
+  };
+
+  const handleExportDxf = (view: ViewName) => {
+    if (!model) return;
+    exportDxfMutation.mutate({ modelId: model.modelId, view });
+  };
+
+  const handleExportPdf = (options: PdfSheetOptions) => {
+    if (!model) return;
+    exportPdfMutation.mutate({ modelId: model.modelId, ...options });
+  };
+
+  let currentView: ProjectionView | null | undefined;
+  let currentLabel: string;
+  if (selectedView === 'custom') {
+    currentView = customView;
+    currentLabel = customView ? getCustomViewLabel(customView) : 'Custom view';
+  } else if (selectedView === 'section') {
+    currentView = sectionView;
+    currentLabel = 'Section view';
+  } else if (selectedView === 'sheet') {
+    currentView = null;
+    currentLabel = 'Drawing sheet';
+  } else {
+    currentView = projections?.find((v) => v.name === selectedView);
+    currentLabel = VIEW_LABELS[selectedView];
+  }
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100">
@@ -55,18 +228,81 @@ export function ProjectionViewerPage() {
               STL to 2D Projections Viewer
             </h1>
             <p className="text-gray-600">
-              Upload an STL file to generate orthogonal 2D drawing projections
+              Upload an STL, OBJ, 3MF or PLY file to generate orthogonal 2D drawing projections
             </p>
           </div>
 
-          {!projections ? (
+          {!projections && savedModelQuery.isFetching ? (
+            <div className="bg-white rounded-lg shadow-md p-8 text-center text-gray-600">
+              Opening model...
+            </div>
+          ) : !projections ? (
             // Upload Section
             <div className="bg-white rounded-lg shadow-md p-8">
-              <FileUploadArea
-                onFileSelected={handleFileSelected}
-                isLoading={isProcessing}
-                maxSizeMB={50}
-              />
+              {jobId ? (
+                <JobProgressPanel jobId={jobId} onFinished={handleJobFinished} />
+              ) : (
+                <FileUploadArea
+                  onFileSelected={handleFileSelected}
+                  isLoading={isProcessing}
+                  progress={uploadProgress}
+                  onCancel={() => uploadAbortRef.current?.abort()}
+                  maxSizeMB={50}
+                />
+              )}
+
+              <div className="mt-6 flex items-center gap-3">
+                <label htmlFor="crease-angle" className="text-sm font-medium text-gray-700">
+                  Crease angle (°)
+                </label>
+                <input
+                  id="crease-angle"
+                  type="number"
+                  min={0}
+                  max={180}
+                  value={creaseAngle}
+                  onChange={(e) => setCreaseAngle(Math.min(180, Math.max(0, Number(e.target.value))))}
+                  disabled={isProcessing}
+                  className="w-20 rounded-md border border-gray-300 px-2 py-1 text-sm"
+                />
+                <span className="text-xs text-gray-500">
+                  Edges where faces meet at a sharper angle are drawn
+                </span>
+              </div>
+
+              <div className="mt-4 flex items-center gap-3">
+                <label htmlFor="source-unit" className="text-sm font-medium text-gray-700">
+                  Source unit
+                </label>
+                <select
+                  id="source-unit"
+                  value={unit}
+                  onChange={(e) => setUnit(e.target.value as LengthUnit)}
+                  disabled={isProcessing}
+                  title="3MF files declare their own unit and are converted to this one"
+                  className="rounded-md border border-gray-300 px-2 py-1 text-sm"
+                >
+                  {LENGTH_UNITS.map((value) => (
+                    <option key={value} value={value}>
+                      {LENGTH_UNIT_LABELS[value]}
+                    </option>
+                  ))}
+                </select>
+                <label className="ml-4 flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={normalize}
+                    onChange={(e) => setNormalize(e.target.checked)}
+                    disabled={isProcessing}
+                  />
+                  Normalize to unit cube
+                </label>
+              </div>
+
+              <div className="mt-8 pt-8 border-t border-gray-200">
+                <h3 className="font-semibold text-gray-900 mb-4">Recent models</h3>
+                <ModelLibrary onOpen={(modelId) => navigate(`/models/${modelId}`)} />
+              </div>
 
               <div className="mt-8 pt-8 border-t border-gray-200">
                 <h3 className="font-semibold text-gray-900 mb-4">About this tool</h3>
@@ -77,11 +313,47 @@ export function ProjectionViewerPage() {
                   </li>
                   <li className="flex gap-2">
                     <span className="text-blue-500">•</span>
-                    <span>Supports both ASCII and Binary STL formats</span>
+                    <span>Adds isometric, dimetric, trimetric or any custom view direction on demand</span>
+                  </li>
+                  <li className="flex gap-2">
+                    <span className="text-blue-500">•</span>
+                    <span>Cuts section views with a hatched cross-section at any plane</span>
+                  </li>
+                  <li className="flex gap-2">
+                    <span className="text-blue-500">•</span>
+                    <span>Reads ASCII and binary STL and PLY, Wavefront OBJ and 3MF files</span>
+                  </li>
+                  <li className="flex gap-2">
+                    <span className="text-blue-500">•</span>
+                    <span>Keeps the model's real dimensions in mm, cm or inches</span>
+                  </li>
+                  <li className="flex gap-2">
+                    <span className="text-blue-500">•</span>
+                    <span>Removes hidden lines and shows covered edges as dashed lines</span>
+                  </li>
+                  <li className="flex gap-2">
+                    <span className="text-blue-500">•</span>
+                    <span>Recognizes holes and fillets as true arcs and circles</span>
+                  </li>
+                  <li className="flex gap-2">
+                    <span className="text-blue-500">•</span>
+                    <span>Dimensions overall size, hole diameters and hole spacing automatically</span>
+                  </li>
+                  <li className="flex gap-2">
+                    <span className="text-blue-500">•</span>
+                    <span>Exports views as layered SVG and DXF for CAD and vector editors</span>
+                  </li>
+                  <li className="flex gap-2">
+                    <span className="text-blue-500">•</span>
+                    <span>Produces scaled PDF drawing sheets with border and title block</span>
                   </li>
                   <li className="flex gap-2">
                     <span className="text-blue-500">•</span>
-                    <span>Automatically removes hidden lines and shows only visible edges</span>
+                    <span>Arranges views in first angle (ISO) or third angle (ANSI) layout</span>
+                  </li>
+                  <li className="flex gap-2">
+                    <span className="text-blue-500">•</span>
+                    <span>Saves processed models so they can be reopened later</span>
                   </li>
                   <li className="flex gap-2">
                     <span className="text-blue-500">•</span>
@@ -114,24 +386,124 @@ export function ProjectionViewerPage() {
                 </div>
               </div>
 
+              {/* Custom View */}
+              <div className="bg-white rounded-lg shadow-md p-6">
+                <h2 className="text-lg font-semibold text-gray-900 mb-4">Axonometric / Custom View</h2>
+                <CustomViewForm
+                  onSubmit={handleCustomView}
+                  isLoading={projectViewMutation.isPending}
+                />
+                {customView && (
+                  <Button
+                    variant={selectedView === 'custom' ? 'default' : 'outline'}
+                    onClick={() => setSelectedView('custom')}
+                    className="text-xs mt-4"
+                  >
+                    Show {getCustomViewLabel(customView)}
+                  </Button>
+                )}
+              </div>
+
+              {/* Section View */}
+              <div className="bg-white rounded-lg shadow-md p-6">
+                <h2 className="text-lg font-semibold text-gray-900 mb-4">Section View</h2>
+                <SectionViewForm
+                  bounds={model && !model.normalized ? model.bounds : undefined}
+                  onSubmit={handleSectionView}
+                  isLoading={projectSectionMutation.isPending}
+                />
+                {sectionView && (
+                  <Button
+                    variant={selectedView === 'section' ? 'default' : 'outline'}
+                    onClick={() => setSelectedView('section')}
+                    className="text-xs mt-4"
+                  >
+                    Show section view
+                  </Button>
+                )}
+              </div>
+
+              {/* Drawing Sheet */}
+              <div className="bg-white rounded-lg shadow-md p-6">
+                <h2 className="text-lg font-semibold text-gray-900 mb-4">Drawing Sheet</h2>
+                <SheetLayoutForm value={sheetLayout} onChange={setSheetLayout} />
+                <Button
+                  variant={selectedView === 'sheet' ? 'default' : 'outline'}
+                  onClick={() => setSelectedView('sheet')}
+                  className="text-xs mt-4"
+                >
+                  Show drawing sheet
+                </Button>
+              </div>
+
+              {/* PDF Drawing */}
+              <div className="bg-white rounded-lg shadow-md p-6">
+                <h2 className="text-lg font-semibold text-gray-900 mb-4">PDF Drawing</h2>
+                <PdfExportForm onSubmit={handleExportPdf} isLoading={exportPdfMutation.isPending} />
+              </div>
+
               {/* Canvas Viewer */}
               <div className="bg-white rounded-lg shadow-md p-6">
-                <h2 className="text-lg font-semibold text-gray-900 mb-4">
-                  {VIEW_LABELS[selectedView]}
-                </h2>
+                <div className="flex items-baseline justify-between mb-4">
+                  <h2 className="text-lg font-semibold text-gray-900">
+                    {currentLabel}
+                  </h2>
+                  {model && (
+                    <span className="text-sm text-gray-600">
+                      Model size: {formatModelSize(model.bounds, model.unit)}
+                      {model.normalized && ' (normalized)'}
+                    </span>
+                  )}
+                </div>
+                {model && model.warnings.length > 0 && (
+                  <ul className="mb-4 space-y-1 text-sm text-amber-800 bg-amber-50 p-3 rounded">
+                    {model.warnings.map((warning) => (
+                      <li key={warning.code} className="flex items-center gap-2">
+                        <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                        {warning.message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {selectedView === 'sheet' && projections && (
+                  <div className="flex justify-center">
+                    <DrawingSheet projections={projections} layout={sheetLayout} width={700} height={700} />
+                  </div>
+                )}
                 {currentView && (
                   <div className="flex justify-center">
-                    <CanvasViewer view={currentView} width={700} height={700} />
+                    <CanvasViewer
+                      view={currentView}
+                      unit={model && !model.normalized ? model.unit : undefined}
+                      width={700}
+                      height={700}
+                    />
                   </div>
                 )}
               </div>
 
               {/* Actions */}
-              <div className="flex justify-center gap-4">
+              <div className="flex flex-wrap justify-center gap-4">
+                <ExportButtons
+                  view={currentView}
+                  views={projections}
+                  unit={model && !model.normalized ? model.unit : undefined}
+                  baseName={model?.fileName.replace(/\.[^.]+$/, '') ?? 'drawing'}
+                  onExportDxf={
+                    selectedView !== 'custom' && selectedView !== 'section' && selectedView !== 'sheet'
+                      ? () => handleExportDxf(selectedView)
+                      : undefined
+                  }
+                  isExportingDxf={exportDxfMutation.isPending}
+                />
                 <Button
                   onClick={() => {
                     setProjections(null);
+                    setModel(null);
+                    setCustomView(null);
+                    setSectionView(null);
                     setSelectedView('front');
+                    navigate('/');
                   }}
                   variant="outline"
                 >
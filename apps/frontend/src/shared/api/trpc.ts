@@ -1,5 +1,5 @@
 import { createTRPCReact } from '@trpc/react-query';
-import { httpBatchLink } from '@trpc/client';
+import { httpBatchLink, httpSubscriptionLink, splitLink } from '@trpc/client';
 
 // Import router type from backend - this creates a type-only dependency
 // In development, this is resolved via tsconfig paths
@@ -10,8 +10,15 @@ export const trpc = createTRPCReact<AppRouter>();
 
 export const trpcClient = trpc.createClient({
   links: [
-    httpBatchLink({
-      url: '/api/trpc',
+    // Subscriptions (job progress) are streamed as server-sent events
+    splitLink({
+      condition: (op) => op.type === 'subscription',
+      true: httpSubscriptionLink({
+        url: '/api/trpc',
+      }),
+      false: httpBatchLink({
+        url: '/api/trpc',
+      }),
     }),
   ],
 });
@@ -2,3 +2,4 @@ export { Button, type ButtonProps } from './button';
 export { Toaster } from './sonner';
 export { TooltipProvider, useTooltip } from './tooltip';
 export { ErrorBoundary } from './error-boundary';
+export { VectorInput, type VectorInputProps } from './vector-input';
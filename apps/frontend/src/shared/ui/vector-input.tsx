@@ -0,0 +1,34 @@
+import React from 'react';
+import type { Vector3Tuple } from '@stl2d/contracts';
+
+const AXIS_LABELS = ['X', 'Y', 'Z'] as const;
+
+export interface VectorInputProps {
+  label: string;
+  value: Vector3Tuple;
+  onChange: (value: Vector3Tuple) => void;
+  disabled?: boolean;
+}
+
+export const VectorInput: React.FC<VectorInputProps> = ({ label, value, onChange, disabled }) => (
+  <div className="flex items-center gap-2">
+    <span className="w-20 text-sm font-medium text-gray-700">{label}</span>
+    {AXIS_LABELS.map((axis, index) => (
+      <label key={axis} className="flex items-center gap-1 text-xs text-gray-500">
+        {axis}
+        <input
+          type="number"
+          step="0.1"
+          value={value[index]}
+          onChange={(e) => {
+            const next: Vector3Tuple = [...value];
+            next[index] = Number(e.target.value);
+            onChange(next);
+          }}
+          disabled={disabled}
+          className="w-16 rounded-md border border-gray-300 px-2 py-1 text-sm text-gray-900"
+        />
+      </label>
+    ))}
+  </div>
+);
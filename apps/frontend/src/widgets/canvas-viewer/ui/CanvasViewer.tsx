@@ -1,10 +1,13 @@
 import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { Button } from '@shared/ui';
-import { ZoomIn, ZoomOut, RotateCcw } from 'lucide-react';
-import type { ProjectionView } from '@stl2d/contracts';
+import { ZoomIn, ZoomOut, RotateCcw, Eye, EyeOff, Ruler } from 'lucide-react';
+import type { LengthUnit, ProjectionView } from '@stl2d/contracts';
+import { bodyColor, bodyLabel, drawView } from '@entities/projection-view';
 
 interface CanvasViewerProps {
   view: ProjectionView;
+  /** Unit of the view coordinates; omitted for normalized models */
+  unit?: LengthUnit;
   width?: number;
   height?: number;
 }
@@ -18,12 +21,44 @@ interface ViewState {
   dragStartY: number;
 }
 
+/**
+ * View coordinates under a canvas point. The view's Y axis points up the canvas,
+ * as on the drawing sheet, so canvas Y grows as view Y shrinks.
+ */
+function toViewPoint(state: ViewState, canvasX: number, canvasY: number): { x: number; y: number } {
+  return {
+    x: (canvasX - state.offsetX) / state.scale,
+    y: (state.offsetY - canvasY) / state.scale,
+  };
+}
+
+/**
+ * Change the scale, keeping the view point under the given canvas point in place
+ */
+function zoomAt(state: ViewState, canvasX: number, canvasY: number, scale: number): ViewState {
+  const { x, y } = toViewPoint(state, canvasX, canvasY);
+  return {
+    ...state,
+    scale,
+    offsetX: canvasX - x * scale,
+    offsetY: canvasY + y * scale,
+  };
+}
+
 export const CanvasViewer: React.FC<CanvasViewerProps> = ({
   view,
+  unit,
   width = 600,
   height = 600,
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [showHiddenLines, setShowHiddenLines] = useState(true);
+  const [showDimensions, setShowDimensions] = useState(true);
+  // Bodies of multi-body models switched off in the viewer
+  const [hiddenBodies, setHiddenBodies] = useState<ReadonlySet<number>>(new Set());
+  const bodyNames = view.bodies?.names;
+  // Pointer position in canvas pixels, for the coordinate readout
+  const [pointer, setPointer] = useState<{ x: number; y: number } | null>(null);
   const [viewState, setViewState] = useState<ViewState>({
     scale: 1,
     offsetX: 0,
@@ -61,7 +96,7 @@ export const CanvasViewer: React.FC<CanvasViewerProps> = ({
     const centerY = (ymin + ymax) / 2;
 
     const offsetX = width / 2 - centerX * scale;
-    const offsetY = height / 2 - centerY * scale;
+    const offsetY = height / 2 + centerY * scale;
 
     setViewState({
       scale,
@@ -114,23 +149,27 @@ export const CanvasViewer: React.FC<CanvasViewerProps> = ({
     ctx.lineTo(width, viewState.offsetY);
     ctx.stroke();
 
-    // Draw lines
-    ctx.strokeStyle = '#000000';
-    ctx.lineWidth = 1.5;
-
-    for (const line of view.lines) {
-      const [p0, p1] = line;
-      const x0 = p0[0] * viewState.scale + viewState.offsetX;
-      const y0 = p0[1] * viewState.scale + viewState.offsetY;
-      const x1 = p1[0] * viewState.scale + viewState.offsetX;
-      const y1 = p1[1] * viewState.scale + viewState.offsetY;
+    drawView(
+      ctx,
+      view,
+      { ...viewState, flipY: true },
+      { showHiddenLines, showDimensions, colorBodies: true, hiddenBodies },
+    );
+  }, [view, viewState, width, height, showHiddenLines, showDimensions, hiddenBodies]);
 
-      ctx.beginPath();
-      ctx.moveTo(x0, y0);
-      ctx.lineTo(x1, y1);
-      ctx.stroke();
-    }
-  }, [view, viewState, width, height]);
+  // Body indices only carry over between views of the same model
+  const bodiesKey = bodyNames?.join('\n');
+  useEffect(() => {
+    setHiddenBodies(new Set());
+  }, [bodiesKey]);
+
+  const toggleBody = useCallback((body: number) => {
+    setHiddenBodies((prev) => {
+      const next = new Set(prev);
+      if (!next.delete(body)) next.add(body);
+      return next;
+    });
+  }, []);
 
   // Fit to view on mount or when view changes
   useEffect(() => {
@@ -148,23 +187,10 @@ export const CanvasViewer: React.FC<CanvasViewerProps> = ({
     const mouseX = e.clientX - rect.left;
     const mouseY = e.clientY - rect.top;
 
+    // Zoom towards mouse position
     setViewState((prev) => {
       const zoomFactor = e.deltaY > 0 ? 0.9 : 1.1;
-      const newScale = Math.max(0.1, prev.scale * zoomFactor);
-
-      // Calculate new offset to zoom towards mouse position
-      const worldX = (mouseX - prev.offsetX) / prev.scale;
-      const worldY = (mouseY - prev.offsetY) / prev.scale;
-
-      const newOffsetX = mouseX - worldX * newScale;
-      const newOffsetY = mouseY - worldY * newScale;
-
-      return {
-        ...prev,
-        scale: newScale,
-        offsetX: newOffsetX,
-        offsetY: newOffsetY,
-      };
+      return zoomAt(prev, mouseX, mouseY, Math.max(0.1, prev.scale * zoomFactor));
     });
   }, []);
 
@@ -179,6 +205,9 @@ export const CanvasViewer: React.FC<CanvasViewerProps> = ({
   }, []);
 
   const handleMouseMove = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    setPointer({ x: e.clientX - rect.left, y: e.clientY - rect.top });
+
     setViewState((prev) => {
       if (!prev.isDragging) return prev;
 
@@ -202,6 +231,11 @@ export const CanvasViewer: React.FC<CanvasViewerProps> = ({
     }));
   }, []);
 
+  const handleMouseLeave = useCallback(() => {
+    setPointer(null);
+    handleMouseUp();
+  }, [handleMouseUp]);
+
   // Handle mouse up outside canvas (e.g., when dragging outside)
   useEffect(() => {
     if (!viewState.isDragging) return;
@@ -219,46 +253,17 @@ export const CanvasViewer: React.FC<CanvasViewerProps> = ({
     };
   }, [viewState.isDragging]);
 
+  // Zoom towards center
   const handleZoomIn = useCallback(() => {
-    setViewState((prev) => {
-      const newScale = prev.scale * 1.2;
-      // Zoom towards center
-      const centerX = width / 2;
-      const centerY = height / 2;
-      const worldX = (centerX - prev.offsetX) / prev.scale;
-      const worldY = (centerY - prev.offsetY) / prev.scale;
-      const newOffsetX = centerX - worldX * newScale;
-      const newOffsetY = centerY - worldY * newScale;
-
-      return {
-        ...prev,
-        scale: newScale,
-        offsetX: newOffsetX,
-        offsetY: newOffsetY,
-      };
-    });
+    setViewState((prev) => zoomAt(prev, width / 2, height / 2, prev.scale * 1.2));
   }, [width, height]);
 
   const handleZoomOut = useCallback(() => {
-    setViewState((prev) => {
-      const newScale = Math.max(0.1, prev.scale / 1.2);
-      // Zoom towards center
-      const centerX = width / 2;
-      const centerY = height / 2;
-      const worldX = (centerX - prev.offsetX) / prev.scale;
-      const worldY = (centerY - prev.offsetY) / prev.scale;
-      const newOffsetX = centerX - worldX * newScale;
-      const newOffsetY = centerY - worldY * newScale;
-
-      return {
-        ...prev,
-        scale: newScale,
-        offsetX: newOffsetX,
-        offsetY: newOffsetY,
-      };
-    });
+    setViewState((prev) => zoomAt(prev, width / 2, height / 2, Math.max(0.1, prev.scale / 1.2)));
   }, [width, height]);
 
+  const pointerPosition = pointer && toViewPoint(viewState, pointer.x, pointer.y);
+
   return (
     <div className="flex flex-col gap-2">
       <div className="flex gap-2">
@@ -289,10 +294,53 @@ export const CanvasViewer: React.FC<CanvasViewerProps> = ({
         >
           <RotateCcw className="w-4 h-4" />
         </Button>
+        <Button
+          size="sm"
+          variant={showHiddenLines ? 'default' : 'outline'}
+          onClick={() => setShowHiddenLines((prev) => !prev)}
+          title={showHiddenLines ? 'Hide hidden lines' : 'Show hidden lines'}
+          aria-label="Toggle hidden lines"
+          aria-pressed={showHiddenLines}
+        >
+          {showHiddenLines ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+          <span className="ml-1">Hidden</span>
+        </Button>
+        <Button
+          size="sm"
+          variant={showDimensions ? 'default' : 'outline'}
+          onClick={() => setShowDimensions((prev) => !prev)}
+          title={showDimensions ? 'Hide dimensions' : 'Show dimensions'}
+          aria-label="Toggle dimensions"
+          aria-pressed={showDimensions}
+        >
+          <Ruler className="w-4 h-4" />
+          <span className="ml-1">Dimensions</span>
+        </Button>
         <div className="ml-auto text-sm text-gray-600">
           Scale: {viewState.scale.toFixed(2)}x
         </div>
       </div>
+      {bodyNames && (
+        <div className="flex flex-wrap gap-2" role="group" aria-label="Bodies">
+          {bodyNames.map((_, body) => {
+            const shown = !hiddenBodies.has(body);
+            const label = bodyLabel(bodyNames, body);
+            return (
+              <Button
+                key={body}
+                size="sm"
+                variant={shown ? 'default' : 'outline'}
+                onClick={() => toggleBody(body)}
+                title={shown ? `Hide ${label}` : `Show ${label}`}
+                aria-pressed={shown}
+              >
+                <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: bodyColor(body) }} />
+                <span className="ml-1">{label}</span>
+              </Button>
+            );
+          })}
+        </div>
+      )}
       <canvas
         ref={canvasRef}
         width={width}
@@ -301,13 +349,20 @@ export const CanvasViewer: React.FC<CanvasViewerProps> = ({
         onMouseDown={handleMouseDown}
         onMouseMove={handleMouseMove}
         onMouseUp={handleMouseUp}
-        onMouseLeave={handleMouseUp}
+        onMouseLeave={handleMouseLeave}
         className="border border-gray-300 rounded cursor-grab active:cursor-grabbing bg-white"
         role="img"
         aria-label={`2D projection view: ${view.name}`}
       />
-      <div className="text-xs text-gray-500">
-        Scroll to zoom • Drag to pan • Click reset to fit view
+      <div className="flex justify-between text-xs text-gray-500">
+        <span>Scroll to zoom • Drag to pan • Click reset to fit view</span>
+        {pointerPosition && (
+          <span className="font-mono">
+            X: {pointerPosition.x.toFixed(3)}
+            {' '}Y: {pointerPosition.y.toFixed(3)}
+            {unit && ` ${unit}`}
+          </span>
+        )}
       </div>
     </div>
   );
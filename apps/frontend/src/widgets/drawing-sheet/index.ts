@@ -0,0 +1 @@
+export { DrawingSheet } from './ui/DrawingSheet';
@@ -0,0 +1,105 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Eye, EyeOff, Ruler } from 'lucide-react';
+import type { ProjectionView } from '@stl2d/contracts';
+import { Button } from '@shared/ui';
+import { drawView } from '@entities/projection-view';
+import { arrangeViews, type SheetLayout } from '@features/sheet-layout';
+
+interface DrawingSheetProps {
+  /** Standard views of the model */
+  projections: ProjectionView[];
+  layout: SheetLayout;
+  width?: number;
+  height?: number;
+}
+
+/** Share of the canvas used by the arranged views */
+const FILL = 0.9;
+
+export const DrawingSheet: React.FC<DrawingSheetProps> = ({
+  projections,
+  layout,
+  width = 700,
+  height = 700,
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [showHiddenLines, setShowHiddenLines] = useState(true);
+  const [showDimensions, setShowDimensions] = useState(true);
+
+  const arrangement = useMemo(() => arrangeViews(projections, layout), [projections, layout]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+
+    const [xmin, ymin, xmax, ymax] = arrangement.bbox;
+    const sheetWidth = xmax - xmin;
+    const sheetHeight = ymax - ymin;
+    if (sheetWidth <= 0 || sheetHeight <= 0) return;
+
+    // One scale for all views; Y points up so that views sit above and below as on paper
+    const scale = Math.min((width * FILL) / sheetWidth, (height * FILL) / sheetHeight);
+    const originX = width / 2 - ((xmin + xmax) / 2) * scale;
+    const originY = height / 2 + ((ymin + ymax) / 2) * scale;
+
+    for (const { view, offset } of arrangement.views) {
+      drawView(
+        ctx,
+        view,
+        {
+          scale,
+          offsetX: originX + offset[0] * scale,
+          offsetY: originY - offset[1] * scale,
+          flipY: true,
+        },
+        { showHiddenLines, showDimensions },
+      );
+    }
+  }, [arrangement, width, height, showHiddenLines, showDimensions]);
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          variant={showHiddenLines ? 'default' : 'outline'}
+          onClick={() => setShowHiddenLines((prev) => !prev)}
+          title={showHiddenLines ? 'Hide hidden lines' : 'Show hidden lines'}
+          aria-label="Toggle hidden lines"
+          aria-pressed={showHiddenLines}
+        >
+          {showHiddenLines ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+          <span className="ml-1">Hidden</span>
+        </Button>
+        <Button
+          size="sm"
+          variant={showDimensions ? 'default' : 'outline'}
+          onClick={() => setShowDimensions((prev) => !prev)}
+          title={showDimensions ? 'Hide dimensions' : 'Show dimensions'}
+          aria-label="Toggle dimensions"
+          aria-pressed={showDimensions}
+        >
+          <Ruler className="w-4 h-4" />
+          <span className="ml-1">Dimensions</span>
+        </Button>
+      </div>
+      <canvas
+        ref={canvasRef}
+        width={width}
+        height={height}
+        className="border border-gray-300 rounded bg-white"
+        role="img"
+        aria-label={`Drawing sheet: ${arrangement.views.map(({ view }) => view.name).join(', ')}`}
+      />
+      {arrangement.views.length === 0 && (
+        <p className="text-sm text-gray-500">Select at least one view to show on the sheet.</p>
+      )}
+    </div>
+  );
+};
@@ -1,9 +1,93 @@
+import type { JobStage, LengthUnit, ModelFormat, PaperSize, ProjectionMethod, ViewCamera, ViewPreset } from './types';
+
 /** Session cookie name */
 export const COOKIE_NAME = 'session';
 
-/** Maximum file size for STL uploads (50MB) */
+/** Maximum file size for model uploads (50MB) */
 export const MAX_FILE_SIZE = 50 * 1024 * 1024;
 
+/** Supported model file formats */
+export const MODEL_FORMATS = ['stl', 'obj', '3mf', 'ply'] as const;
+
+/** File name extensions of each model format */
+export const MODEL_FORMAT_EXTENSIONS: Record<ModelFormat, string[]> = {
+  stl: ['.stl'],
+  obj: ['.obj'],
+  '3mf': ['.3mf'],
+  ply: ['.ply'],
+};
+
+/** Human-readable model format labels */
+export const MODEL_FORMAT_LABELS: Record<ModelFormat, string> = {
+  stl: 'STL',
+  obj: 'OBJ',
+  '3mf': '3MF',
+  ply: 'PLY',
+};
+
+/** Endpoint receiving binary model uploads */
+export const UPLOAD_ENDPOINT = '/api/upload';
+
+/** Processing job stages in execution order */
+export const JOB_STAGES = ['queued', 'parsing', 'edges', 'projecting', 'post-processing'] as const;
+
+/** Human-readable job stage labels */
+export const JOB_STAGE_LABELS: Record<JobStage, string> = {
+  queued: 'Queued',
+  parsing: 'Parsing mesh',
+  edges: 'Extracting edges',
+  projecting: 'Projecting views',
+  'post-processing': 'Fitting curves and dimensions',
+};
+
+/** Default dihedral angle (degrees) above which an edge is drawn as a crease */
+export const DEFAULT_CREASE_ANGLE = 30;
+
+/** Default hatch line angle (degrees) for section views */
+export const DEFAULT_HATCH_ANGLE = 45;
+
+/** Supported source units */
+export const LENGTH_UNITS = ['mm', 'cm', 'inch'] as const;
+
+/** Unit assumed when an upload does not declare one */
+export const DEFAULT_LENGTH_UNIT: LengthUnit = 'mm';
+
+/** Human-readable unit labels */
+export const LENGTH_UNIT_LABELS: Record<LengthUnit, string> = {
+  mm: 'Millimeters',
+  cm: 'Centimeters',
+  inch: 'Inches',
+};
+
+/** Millimeters per unit of each supported source unit */
+export const MILLIMETERS_PER_UNIT: Record<LengthUnit, number> = {
+  mm: 1,
+  cm: 10,
+  inch: 25.4,
+};
+
+/** Supported paper sizes */
+export const PAPER_SIZES = ['A4', 'A3', 'A2'] as const;
+
+/** Landscape sheet width and height of each paper size in millimeters */
+export const PAPER_DIMENSIONS: Record<PaperSize, [number, number]> = {
+  A4: [297, 210],
+  A3: [420, 297],
+  A2: [594, 420],
+};
+
+/** Standard drawing scales as paper length per model length, largest first */
+export const DRAWING_SCALES = [10, 5, 2, 1, 1 / 2, 1 / 5, 1 / 10, 1 / 20, 1 / 50, 1 / 100] as const;
+
+/** Supported projection methods */
+export const PROJECTION_METHODS = ['first', 'third'] as const;
+
+/** Human-readable projection method labels */
+export const PROJECTION_METHOD_LABELS: Record<ProjectionMethod, string> = {
+  first: 'First angle',
+  third: 'Third angle',
+};
+
 /** View names in order */
 export const VIEW_NAMES = ['front', 'back', 'left', 'right', 'top', 'bottom'] as const;
 
@@ -16,3 +100,17 @@ export const VIEW_LABELS: Record<typeof VIEW_NAMES[number], string> = {
   top: 'Top (−Y)',
   bottom: 'Bottom (+Y)',
 };
+
+/** Axonometric presets, looking at the front, top and right faces */
+export const VIEW_PRESETS: Record<ViewPreset, ViewCamera> = {
+  isometric: { direction: [1, 1, 1], up: [0, 1, 0] },
+  dimetric: { direction: [1, 0.5, 1], up: [0, 1, 0] },
+  trimetric: { direction: [1, 0.7, 0.4], up: [0, 1, 0] },
+};
+
+/** Human-readable preset labels */
+export const VIEW_PRESET_LABELS: Record<ViewPreset, string> = {
+  isometric: 'Isometric',
+  dimetric: 'Dimetric',
+  trimetric: 'Trimetric',
+};
@@ -2,17 +2,62 @@
 export type {
   LineSegment,
   BoundingBox,
+  ArcSegment,
+  CircleShape,
+  ContourType,
+  Polyline,
+  DimensionKind,
+  Dimension,
+  ViewBodies,
   ProjectionView,
   ViewName,
+  Vector3Tuple,
+  ViewCamera,
+  ViewPreset,
+  SectionPlane,
+  HatchOptions,
+  ModelFormat,
+  LengthUnit,
+  PaperSize,
+  ProjectionMethod,
+  ParseWarningCode,
+  ParseWarning,
+  ModelBounds,
   ProcessingResult,
+  ModelSummary,
+  SavedModel,
+  JobStage,
+  JobStatus,
+  JobProgress,
+  WorkerPoolStats,
+  ResultCacheStats,
 } from './types';
 
 // Constants
 export {
   COOKIE_NAME,
   MAX_FILE_SIZE,
+  MODEL_FORMATS,
+  MODEL_FORMAT_EXTENSIONS,
+  MODEL_FORMAT_LABELS,
+  UPLOAD_ENDPOINT,
+  JOB_STAGES,
+  JOB_STAGE_LABELS,
+  DEFAULT_CREASE_ANGLE,
+  DEFAULT_HATCH_ANGLE,
+  LENGTH_UNITS,
+  DEFAULT_LENGTH_UNIT,
+  LENGTH_UNIT_LABELS,
+  MILLIMETERS_PER_UNIT,
+  PAPER_SIZES,
+  PAPER_DIMENSIONS,
+  DRAWING_SCALES,
+  PROJECTION_METHODS,
+  PROJECTION_METHOD_LABELS,
   VIEW_NAMES,
   VIEW_LABELS,
+  VIEW_PRESETS,
+  VIEW_PRESET_LABELS,
 } from './const';
 
 // Schemas (re-export)
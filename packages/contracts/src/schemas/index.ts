@@ -1,8 +1,30 @@
 export {
   uploadStlSchema,
+  lineSegmentSchema,
+  arcSegmentSchema,
+  circleShapeSchema,
+  polylineSchema,
+  dimensionSchema,
+  viewBodiesSchema,
+  vector3Schema,
+  projectViewSchema,
+  sectionPlaneSchema,
+  projectSectionSchema,
+  exportDxfSchema,
+  exportPdfSchema,
+  modelIdSchema,
+  jobIdSchema,
   projectionViewSchema,
+  parseWarningSchema,
   processingResultSchema,
   type UploadStlInput,
+  type UploadStlOptions,
+  type ProjectViewInput,
+  type ProjectSectionInput,
+  type ExportDxfInput,
+  type ExportPdfInput,
+  type ModelIdInput,
+  type JobIdInput,
   type ProjectionViewOutput,
   type ProcessingResultOutput,
 } from './stl';
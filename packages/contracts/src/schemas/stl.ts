@@ -1,32 +1,206 @@
 import { z } from 'zod';
+import {
+  DEFAULT_HATCH_ANGLE,
+  DEFAULT_LENGTH_UNIT,
+  LENGTH_UNITS,
+  PAPER_SIZES,
+  PROJECTION_METHODS,
+  VIEW_NAMES,
+} from '../const';
 
-/** Schema for STL upload request */
+/**
+ * Schema for the query parameters of a binary model upload; the file itself is the
+ * request body. Numbers and booleans also accept their query string form.
+ */
 export const uploadStlSchema = z.object({
-  /** Base64 encoded file data */
-  fileData: z.string(),
   /** Original file name */
-  fileName: z.string(),
+  fileName: z.string().min(1),
+  /** Minimum angle (degrees) between neighbouring face normals for an edge to be drawn */
+  creaseAngle: z.coerce.number().min(0).max(180).optional(),
+  /** Maximum deviation (model units) when replacing segment chains with arcs and circles */
+  arcTolerance: z.coerce.number().positive().optional(),
+  /** Unit of the coordinates in the file */
+  unit: z.enum(LENGTH_UNITS).default(DEFAULT_LENGTH_UNIT),
+  /** Center the model and scale it to a unit cube instead of keeping its real dimensions */
+  normalize: z
+    .union([z.boolean(), z.enum(['true', 'false']).transform((value) => value === 'true')])
+    .default(false),
+});
+
+/** Upload options as sent by a client */
+export type UploadStlInput = z.input<typeof uploadStlSchema>;
+
+/** Upload options with defaults applied */
+export type UploadStlOptions = z.infer<typeof uploadStlSchema>;
+
+/** Schema for requests addressing a stored model */
+export const modelIdSchema = z.object({
+  /** Id returned by the upload; restricted to the id alphabet since it names a storage directory */
+  modelId: z.string().regex(/^[\w-]+$/, 'Invalid model id'),
+});
+
+export type ModelIdInput = z.infer<typeof modelIdSchema>;
+
+/** Schema for addressing a processing job */
+export const jobIdSchema = z.object({
+  jobId: z.string().regex(/^[\w-]+$/, 'Invalid job id'),
+});
+
+export type JobIdInput = z.infer<typeof jobIdSchema>;
+
+/** Schema for a 3D vector */
+export const vector3Schema = z.tuple([z.number(), z.number(), z.number()]);
+
+/** Schema for a single view along an arbitrary direction */
+export const projectViewSchema = modelIdSchema.extend({
+  /** Direction the viewer looks along (from the eye towards the model) */
+  direction: vector3Schema,
+  /** Vector that should point up in the view */
+  up: vector3Schema.default([0, 1, 0]),
+  /** Name of the resulting view */
+  name: z.string().default('custom'),
+});
+
+export type ProjectViewInput = z.infer<typeof projectViewSchema>;
+
+/** Schema for a section cutting plane */
+export const sectionPlaneSchema = z.union([
+  z.object({
+    /** Any point on the plane */
+    point: vector3Schema,
+    /** Plane normal, pointing towards the removed material */
+    normal: vector3Schema,
+  }),
+  z.object({
+    /** Axis the plane is perpendicular to */
+    axis: z.enum(['x', 'y', 'z']),
+    /** Plane position along the axis in model coordinates */
+    offset: z.number(),
+  }),
+]);
+
+/** Schema for a section view request */
+export const projectSectionSchema = modelIdSchema.extend({
+  plane: sectionPlaneSchema,
+  /** Hatch line angle in degrees */
+  hatchAngle: z.number().default(DEFAULT_HATCH_ANGLE),
+  /** Distance between hatch lines in model units; widened when a region would get too many lines */
+  hatchSpacing: z.number().positive().finite().optional(),
+  /** Name of the resulting view */
+  name: z.string().default('section'),
+});
+
+export type ProjectSectionInput = z.infer<typeof projectSectionSchema>;
+
+/** Schema for a DXF export request of a standard view */
+export const exportDxfSchema = modelIdSchema.extend({
+  /** Standard view to export */
+  view: z.enum(VIEW_NAMES),
+});
+
+export type ExportDxfInput = z.infer<typeof exportDxfSchema>;
+
+/** Schema for a PDF drawing export request */
+export const exportPdfSchema = modelIdSchema.extend({
+  /** Standard views to draw, one per page in the given order */
+  views: z.array(z.enum(VIEW_NAMES)).min(1).default([...VIEW_NAMES]),
+  paperSize: z.enum(PAPER_SIZES).default('A3'),
+  /** Paper length per model length; the largest standard scale that fits is used when omitted */
+  scale: z.number().positive().optional(),
+  /** Projection method stated in the title block */
+  projection: z.enum(PROJECTION_METHODS).default('first'),
+});
+
+export type ExportPdfInput = z.infer<typeof exportPdfSchema>;
+
+/** Schema for a 2D line segment */
+export const lineSegmentSchema = z.tuple([
+  z.tuple([z.number(), z.number()]),
+  z.tuple([z.number(), z.number()]),
+]);
+
+/** Schema for a circular arc */
+export const arcSegmentSchema = z.object({
+  center: z.tuple([z.number(), z.number()]),
+  radius: z.number(),
+  startAngle: z.number(),
+  endAngle: z.number(),
+});
+
+/** Schema for a full circle */
+export const circleShapeSchema = z.object({
+  center: z.tuple([z.number(), z.number()]),
+  radius: z.number(),
 });
 
-export type UploadStlInput = z.infer<typeof uploadStlSchema>;
+/** Schema for a chained polyline */
+export const polylineSchema = z.object({
+  points: z.array(z.tuple([z.number(), z.number()])),
+  closed: z.boolean(),
+  contour: z.enum(['outer', 'inner']).optional(),
+});
+
+/** Schema for a dimension annotation */
+export const dimensionSchema = z.object({
+  kind: z.enum(['horizontal', 'vertical', 'diameter']),
+  value: z.number(),
+  text: z.string(),
+  textPosition: z.tuple([z.number(), z.number()]),
+  dimensionLine: lineSegmentSchema,
+  extensionLines: z.array(lineSegmentSchema),
+});
+
+/** Schema for the body membership of a view's edges */
+export const viewBodiesSchema = z.object({
+  names: z.array(z.string()),
+  lines: z.array(z.number().int()),
+  hiddenLines: z.array(z.number().int()),
+  arcs: z.array(z.number().int()),
+  circles: z.array(z.number().int()),
+  hiddenArcs: z.array(z.number().int()),
+  hiddenCircles: z.array(z.number().int()),
+});
 
 /** Schema for projection view */
 export const projectionViewSchema = z.object({
   name: z.string(),
-  lines: z.array(z.tuple([
-    z.tuple([z.number(), z.number()]),
-    z.tuple([z.number(), z.number()]),
-  ])),
+  lines: z.array(lineSegmentSchema),
+  hiddenLines: z.array(lineSegmentSchema),
+  arcs: z.array(arcSegmentSchema),
+  circles: z.array(circleShapeSchema),
+  hiddenArcs: z.array(arcSegmentSchema),
+  hiddenCircles: z.array(circleShapeSchema),
+  centerLines: z.array(lineSegmentSchema),
+  polylines: z.array(polylineSchema),
+  dimensions: z.array(dimensionSchema),
+  hatchLines: z.array(lineSegmentSchema).optional(),
+  bodies: viewBodiesSchema.optional(),
   bbox: z.tuple([z.number(), z.number(), z.number(), z.number()]),
 });
 
 export type ProjectionViewOutput = z.infer<typeof projectionViewSchema>;
 
+/** Schema for a parse warning */
+export const parseWarningSchema = z.object({
+  code: z.enum(['normal-mismatch', 'triangle-count-mismatch', 'trailing-bytes', 'invalid-coordinates', 'degenerate-faces']),
+  message: z.string(),
+  count: z.number().int(),
+});
+
 /** Schema for processing result */
 export const processingResultSchema = z.object({
   success: z.boolean(),
   modelId: z.string(),
+  fileName: z.string(),
+  unit: z.enum(LENGTH_UNITS),
+  normalized: z.boolean(),
+  bounds: z.object({
+    min: vector3Schema,
+    max: vector3Schema,
+  }),
   views: z.array(projectionViewSchema),
+  cached: z.boolean(),
+  warnings: z.array(parseWarningSchema),
 });
 
 export type ProcessingResultOutput = z.infer<typeof processingResultSchema>;
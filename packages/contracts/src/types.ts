@@ -8,19 +8,251 @@ export type LineSegment = [[number, number], [number, number]];
 /** Bounding box as [xmin, ymin, xmax, ymax] */
 export type BoundingBox = [number, number, number, number];
 
+/** Circular arc, swept counter-clockwise from startAngle to endAngle (radians) */
+export interface ArcSegment {
+  center: [number, number];
+  radius: number;
+  startAngle: number;
+  endAngle: number;
+}
+
+/** Full circle */
+export interface CircleShape {
+  center: [number, number];
+  radius: number;
+}
+
+/** Role of a closed outline: outer boundary of a part or inner contour such as a hole */
+export type ContourType = 'outer' | 'inner';
+
+/** Connected chain of visible segments; closed polylines do not repeat the first point */
+export interface Polyline {
+  points: [number, number][];
+  closed: boolean;
+  /** Set on the closed outlines of connected groups of segments */
+  contour?: ContourType;
+}
+
+/** Kind of an automatic dimension */
+export type DimensionKind = 'horizontal' | 'vertical' | 'diameter';
+
+/** Dimension annotation of a view, in view coordinates */
+export interface Dimension {
+  kind: DimensionKind;
+  /** Measured value in model units */
+  value: number;
+  /** Formatted label, e.g. "42.5" or "Ø10" */
+  text: string;
+  /** Center of the label */
+  textPosition: [number, number];
+  /** Line between the measured points, drawn with arrows at both ends */
+  dimensionLine: LineSegment;
+  /** Lines from the geometry to the dimension line */
+  extensionLines: LineSegment[];
+}
+
+/**
+ * Bodies of a view of a model made of several solids. Each array holds the body
+ * index of every entry of the view field of the same name.
+ */
+export interface ViewBodies {
+  /** Body names as stored in the model; empty for unnamed bodies */
+  names: string[];
+  lines: number[];
+  hiddenLines: number[];
+  arcs: number[];
+  circles: number[];
+  hiddenArcs: number[];
+  hiddenCircles: number[];
+}
+
 /** A single orthogonal projection view */
 export interface ProjectionView {
   name: string;
+  /** Visible edges (drawn solid) */
   lines: LineSegment[];
+  /** Edges covered by other geometry (drawn dashed) */
+  hiddenLines: LineSegment[];
+  /** Visible edges recognized as arcs and circles */
+  arcs: ArcSegment[];
+  circles: CircleShape[];
+  /** Hidden edges recognized as arcs and circles */
+  hiddenArcs: ArcSegment[];
+  hiddenCircles: CircleShape[];
+  /** Center marks and centerlines of cylindrical features (drawn as chain lines) */
+  centerLines: LineSegment[];
+  /** Visible segments chained into polylines, outline contours first */
+  polylines: Polyline[];
+  /** Automatic dimensions: overall size, circle diameters and center distances */
+  dimensions: Dimension[];
+  /** Hatching of the cut region (section views only) */
+  hatchLines?: LineSegment[];
+  /** Body membership of the edges, for models with more than one body */
+  bodies?: ViewBodies;
   bbox: BoundingBox;
 }
 
 /** Available view names for orthogonal projections */
 export type ViewName = 'front' | 'back' | 'left' | 'right' | 'top' | 'bottom';
 
+/** A 3D vector as [x, y, z] */
+export type Vector3Tuple = [number, number, number];
+
+/** Camera for a view along an arbitrary direction */
+export interface ViewCamera {
+  /** Direction the viewer looks along (from the eye towards the model) */
+  direction: Vector3Tuple;
+  /** Vector that should point up in the view; must not be parallel to direction */
+  up: Vector3Tuple;
+}
+
+/** Available axonometric view presets */
+export type ViewPreset = 'isometric' | 'dimetric' | 'trimetric';
+
+/**
+ * Cutting plane for section views, either through a point or at an offset along an axis.
+ * Material on the side the normal (or positive axis) points to is removed and the
+ * section is viewed from that side.
+ */
+export type SectionPlane =
+  | { point: Vector3Tuple; normal: Vector3Tuple }
+  | { axis: 'x' | 'y' | 'z'; offset: number };
+
+/** Hatching settings for section views */
+export interface HatchOptions {
+  /** Hatch line angle in degrees, measured from the view's X axis */
+  angle: number;
+  /** Distance between hatch lines in model units; derived from the section size when omitted */
+  spacing?: number;
+}
+
+/** File format of an uploaded model */
+export type ModelFormat = 'stl' | 'obj' | '3mf' | 'ply';
+
+/** Length unit of the coordinates in an uploaded model */
+export type LengthUnit = 'mm' | 'cm' | 'inch';
+
+/** ISO paper sizes for drawing sheets */
+export type PaperSize = 'A4' | 'A3' | 'A2';
+
+/** Arrangement convention of views on a drawing: first angle (ISO) or third angle (ANSI) */
+export type ProjectionMethod = 'first' | 'third';
+
+/** Kind of problem found while parsing a model file */
+export type ParseWarningCode =
+  | 'normal-mismatch'
+  | 'triangle-count-mismatch'
+  | 'trailing-bytes'
+  | 'invalid-coordinates'
+  | 'degenerate-faces';
+
+/** Problem found in a model file that did not stop it from being processed */
+export interface ParseWarning {
+  code: ParseWarningCode;
+  /** Human-readable description */
+  message: string;
+  /** Number of affected faces, or of bytes for trailing bytes */
+  count: number;
+}
+
+/** Axis-aligned 3D bounds as min and max corners */
+export interface ModelBounds {
+  min: Vector3Tuple;
+  max: Vector3Tuple;
+}
+
 /** Result of STL processing */
 export interface ProcessingResult {
   success: boolean;
   modelId: string;
+  fileName: string;
+  /** Unit of the view coordinates (unless normalized) */
+  unit: LengthUnit;
+  /** Whether the model was centered and scaled to a unit cube before projection */
+  normalized: boolean;
+  /** Bounds of the model as uploaded, in the source unit */
+  bounds: ModelBounds;
   views: ProjectionView[];
+  /** Whether the views were taken from the result cache instead of being generated */
+  cached: boolean;
+  /** Problems found while parsing the file */
+  warnings: ParseWarning[];
+}
+
+/** Metadata of a stored model */
+export interface ModelSummary {
+  modelId: string;
+  fileName: string;
+  unit: LengthUnit;
+  normalized: boolean;
+  /** Bounds of the model as uploaded, in the source unit */
+  bounds: ModelBounds;
+  /** Processing options the views were generated with */
+  creaseAngle?: number;
+  arcTolerance?: number;
+  /** Number of triangles in the mesh */
+  triangleCount: number;
+  /** Size of the uploaded file in bytes */
+  fileSize: number;
+  /** Upload time as an ISO 8601 string */
+  createdAt: string;
+  /** Problems found while parsing the file; absent for models stored before they were recorded */
+  warnings?: ParseWarning[];
+}
+
+/** Stored model with its generated views */
+export interface SavedModel extends ModelSummary {
+  views: ProjectionView[];
+}
+
+/** Stage of a processing job, in execution order */
+export type JobStage = 'queued' | 'parsing' | 'edges' | 'projecting' | 'post-processing';
+
+/** Lifecycle state of a processing job */
+export type JobStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+/** Progress event of a processing job */
+export interface JobProgress {
+  jobId: string;
+  fileName: string;
+  status: JobStatus;
+  /** Current stage, or the stage the job ended in */
+  stage: JobStage;
+  /** Overall progress from 0 to 1 */
+  progress: number;
+  /** Id of the stored model once the job completed */
+  modelId?: string;
+  /** Whether the completed job was served from the result cache */
+  cached?: boolean;
+  /** Failure reason of a failed job */
+  error?: string;
+}
+
+/** State of the backend's worker thread pool */
+export interface WorkerPoolStats {
+  /** Configured number of workers */
+  size: number;
+  /** Workers currently running a task */
+  busy: number;
+  /** Tasks waiting for a free worker */
+  queued: number;
+  /** Tasks finished since startup */
+  completed: number;
+  failed: number;
+  timedOut: number;
+  /** Time limit per task in milliseconds */
+  taskTimeout: number;
+}
+
+/** State of the backend's processing result cache */
+export interface ResultCacheStats {
+  entries: number;
+  /** Approximate size of the cached views in bytes */
+  size: number;
+  maxSize: number;
+  /** Engine version the cached results belong to */
+  engineVersion: number;
+  hits: number;
+  misses: number;
+  evictions: number;
 }